@@ -13,6 +13,8 @@ import {
   assignRoleToVPS,
   resetContaboNode
 } from "../utils.ts";
+import { Cluster } from "../../core/state/index.ts";
+import { getStateStore } from "../../core/cluster-provisioner/kubernetes.ts";
 
 export const cniOptions = ["calico", "flannel"] as const;
 export const nodeRoles = ["control-plane", "etcd", "worker"] as const;
@@ -60,8 +62,17 @@ const deleteClusterSchema = z.object({
   confirm: z.boolean(),
 });
 
+const getClusterSchema = z.object({
+  id: z.string(),
+});
+
 const sh = String.raw;
 
+const stateStore = getStateStore();
+
+// Listings leave the admin kubeconfig out, it is only returned for a single cluster
+const summarizeCluster = ({ kubeconfig: _kubeconfig, ...cluster }: Cluster) => cluster;
+
 // Create cluster procedure
 export const createCluster = trpc.procedure.input(createClusterSchema).mutation(async ({ input }) => {
   try {
@@ -149,4 +160,45 @@ export const createCluster = trpc.procedure.input(createClusterSchema).mutation(
       message: `Failed to create cluster: ${errorMessage}`,
     };
   }
-});
\ No newline at end of file
+});
+
+// List clusters procedure
+export const listClusters = trpc.procedure.query(async () => {
+  try {
+    const clusters = await stateStore.listClusters();
+    return {
+      success: true,
+      message: `Found ${clusters.length} cluster(s)`,
+      data: clusters.map(summarizeCluster),
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to list clusters: ${errorMessage}`);
+    return {
+      success: false,
+      message: `Failed to list clusters: ${errorMessage}`,
+    };
+  }
+});
+
+// Get cluster procedure
+export const getCluster = trpc.procedure.input(getClusterSchema).query(async ({ input }) => {
+  try {
+    const cluster = await stateStore.getCluster(input.id);
+    if (!cluster) {
+      throw new Error(`Cluster ${input.id} not found`);
+    }
+    return {
+      success: true,
+      message: `Successfully got cluster ${input.id}`,
+      data: { ...cluster, events: await stateStore.listEvents(input.id) },
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to get cluster: ${errorMessage}`);
+    return {
+      success: false,
+      message: `Failed to get cluster: ${errorMessage}`,
+    };
+  }
+});
@@ -3,6 +3,7 @@ import { trpc } from "../trpc.ts";
 import * as contabo from '../../core/node-provisioners/contabo.ts';
 import { randomUUID } from "node:crypto";
 import { NodeRoles } from "../../helpers.ts";
+import { getProviderErrorDetails } from "../utils.ts";
 
 export const getNode = trpc.procedure.input(z.object({
 	id: z.string(),
@@ -20,6 +21,7 @@ export const getNode = trpc.procedure.input(z.object({
 		return {
 			success: false,
 			message: `Failed to get node: ${errorMessage}`,
+			error: getProviderErrorDetails(error),
 		};
 	}
 });
@@ -40,6 +42,7 @@ export const listNodes = trpc.procedure.input(z.object({
 		return {
 			success: false,
 			message: `Failed to list nodes: ${errorMessage}`,
+			error: getProviderErrorDetails(error),
 		};
 	}
 });
@@ -63,6 +66,7 @@ export const createNode = trpc.procedure.input(z.object({
 		return {
 			success: false,
 			message: `Failed to create node: ${errorMessage}`,
+			error: getProviderErrorDetails(error),
 		};
 	}
 })
@@ -86,6 +90,7 @@ export const deleteNode = trpc.procedure.input(z.object({
 		return {
 			success: false,
 			message: `Failed to delete node: ${errorMessage}`,
+			error: getProviderErrorDetails(error),
 		};
 	}
 });
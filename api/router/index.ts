@@ -6,6 +6,8 @@ import {
   scaleNode,
   scaleCluster,
   deleteCluster,
+  listClusters,
+  getCluster,
 } from "../procedures/cluster.ts";
 
 export const appRouter = trpc.router({
@@ -15,6 +17,8 @@ export const appRouter = trpc.router({
   scaleNode,
   scaleCluster,
   deleteCluster,
+  listClusters,
+  getCluster,
 });
 
 export type AppRouter = typeof appRouter;
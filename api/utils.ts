@@ -3,6 +3,9 @@ import * as childProcess from "node:child_process";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { nodeRoles } from "./procedures/cluster.ts";
+import { ContaboContext, ContaboInstance, isClaimable } from "../core/cloud-providers/contabo.ts";
+import { NodeMetadata, encodeNodeTags, isNodeTag } from "../core/node-provisioners/_common.ts";
+import { ContaboProvider, ProviderRateLimitError, ProviderTimeoutError } from "../core/cloud-providers/index.ts";
 
 export const NodeRoles = ["control-plane", "etcd", "worker"] as const;
 export type NodeRoles = (typeof NodeRoles)[number][];
@@ -75,14 +78,28 @@ export async function readFile(filePath: string): Promise<string> {
   }
 }
 
+/**
+ * Run a command, writing the input to its stdin
+ */
+function execWithInput(command: string, input: string): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = childProcess.exec(command, (error, stdout, stderr) =>
+      error ? reject(error) : resolve({ stdout, stderr })
+    );
+    child.stdin?.end(input);
+  });
+}
+
 /**
  * Execute a command and return the output
+ * The input is written to the stdin of the command, secrets passed this way stay out of the process list and the logs
  */
-export async function exec(command: string): Promise<string> {
+export async function exec(command: string, options: { input?: string } = {}): Promise<string> {
   console.log(`Executing: ${command}`);
   
   try {
-    const { stdout, stderr } = await _exec(command);
+    const { stdout, stderr } =
+      options.input === undefined ? await _exec(command) : await execWithInput(command, options.input);
     if (stderr) {
       console.error(`Command stderr: ${stderr}`);
     }
@@ -94,34 +111,59 @@ export async function exec(command: string): Promise<string> {
   }
 }
 
-// Types for Contabo instances
-export interface ContaboInstance {
-  instanceId: string;
-  displayName: string;
-  ipv4: string;
-  status: string;
-  // Add other properties as needed
+/**
+ * Machine readable details of provider errors, so that clients can retry timed out or rate limited calls
+ * The provider error may be the cause of the thrown error
+ */
+export function getProviderErrorDetails(
+  error: unknown
+): { code: "PROVIDER_TIMEOUT" | "PROVIDER_RATE_LIMIT"; retryAfterMs?: number } | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof ProviderRateLimitError) {
+      return { code: "PROVIDER_RATE_LIMIT", retryAfterMs: current.retryAfterMs };
+    }
+    if (current instanceof ProviderTimeoutError) {
+      return { code: "PROVIDER_TIMEOUT" };
+    }
+  }
+  return undefined;
+}
+
+export type { ContaboInstance };
+
+const CONTABO_TOKEN_URL = "https://auth.contabo.com/auth/realms/contabo/protocol/openid-connect/token";
+
+/**
+ * Credentials of the Contabo API, read from the environment
+ */
+export function getContaboContext(): ContaboContext {
+  const { CONTABO_CLIENT_ID, CONTABO_CLIENT_SECRET, CONTABO_API_USER, CONTABO_API_PASSWORD } = process.env;
+  if (!CONTABO_CLIENT_ID || !CONTABO_CLIENT_SECRET || !CONTABO_API_USER || !CONTABO_API_PASSWORD) {
+    throw new Error(
+      "CONTABO_CLIENT_ID, CONTABO_CLIENT_SECRET, CONTABO_API_USER and CONTABO_API_PASSWORD environment variables " +
+        "are required"
+    );
+  }
+  return {
+    clientId: CONTABO_CLIENT_ID,
+    clientSecret: CONTABO_CLIENT_SECRET,
+    tokenUrl: process.env.CONTABO_TOKEN_URL ?? CONTABO_TOKEN_URL,
+    user: CONTABO_API_USER,
+    password: CONTABO_API_PASSWORD,
+  };
 }
 
 /**
  * Get available instances from Contabo
- * Available instances are those with empty displayName and status == "running"
+ * Available instances are those with an empty displayName or an expired claim and status == "running"
  */
 export async function getAvailableContaboInstances(): Promise<ContaboInstance[]> {
   try {
-    // Ensure .cntb directory exists
-    await ensureDir('.cntb');
-    
-    // Get instances
-    await executeCommand('cntb get instances --output json > .cntb/instances.json');
-    
-    // Read and parse instances
-    const instancesJson = await readFile('.cntb/instances.json');
-    const instances: ContaboInstance[] = JSON.parse(instancesJson);
+    const instances = await ContaboProvider.listInstances(getContaboContext());
     
     // Filter available instances
     return instances.filter(instance => 
-      instance.displayName === "" && 
+      isClaimable(instance.displayName) && 
       instance.status.toLowerCase() === "running"
     );
   } catch (error: unknown) {
@@ -152,17 +194,19 @@ export async function clusterExists(domainName: string): Promise<boolean> {
  */
 export async function claimAvailableVPS(domainName: string): Promise<ContaboInstance | null> {
   try {
-    // Get available instances
-    const availableInstances = await getAvailableContaboInstances();
-    if (availableInstances.length === 0) {
+    const ctx = getContaboContext();
+
+    // Return instances left claimed by a crashed caller to the pool
+    await ContaboProvider.releaseAbandonedClaims(ctx);
+
+    // Claim an available instance, the claim is read back so that concurrent callers never share an instance
+    const instance = await ContaboProvider.getAvailableInstance(ctx);
+    if (!instance) {
       return null;
     }
-    
-    // Get the first available instance
-    const instance = availableInstances[0];
-    
+
     // Rename the instance with the domain name
-    await executeCommand(`cntb update instance ${instance.instanceId} --display-name="${domainName}"`);
+    await ContaboProvider.setInstanceDisplayName(ctx, instance.instanceId, domainName);
     
     // Update the instance object with the new name
     instance.displayName = domainName;
@@ -180,15 +224,8 @@ export async function claimAvailableVPS(domainName: string): Promise<ContaboInst
  */
 export async function getNodes(domainName: string): Promise<Array<{ name: string, ip: string, role: string }>> {
   try {
-    // Ensure .cntb directory exists
-    await ensureDir('.cntb');
-    
     // Get instances
-    await executeCommand('cntb get instances --output json > .cntb/instances.json');
-    
-    // Read and parse instances
-    const instancesJson = await readFile('.cntb/instances.json');
-    const instances: ContaboInstance[] = JSON.parse(instancesJson);
+    const instances = await ContaboProvider.listInstances(getContaboContext());
     
     // Filter and transform nodes for the domain
     return instances
@@ -255,14 +292,20 @@ export async function getNodeIP(nodeName: string): Promise<string> {
  */
 export async function generateNodeInfo(): Promise<void> {
   try {
+    const ctx = getContaboContext();
+
     // Ensure .cntb directory exists
     await ensureDir('.cntb');
     
     // Get private networks
-    await executeCommand('cntb get privateNetworks --output json > .cntb/private-networks.json');
+    const privateNetworks = await ContaboProvider.listPrivateNetworks(ctx);
+    await writeFile('.cntb/private-networks.json', JSON.stringify(privateNetworks, null, 2));
     
     // Get instances
-    await executeCommand('cntb get instances --output json > .cntb/instances.json');
+    await writeFile('.cntb/instances.json', JSON.stringify(await ContaboProvider.listInstances(ctx), null, 2));
+
+    // Get node metadata tags, read by helpers.ts before falling back to display names
+    await writeFile('.cntb/tag-assignments.json', JSON.stringify(await getNodeTagAssignments(ctx), null, 2));
     
     // Run generate.ts
     // await executeCommand('deno -A ./generate.ts');
@@ -273,6 +316,36 @@ export async function generateNodeInfo(): Promise<void> {
   }
 }
 
+export interface TagAssignment {
+  tagId: number;
+  tagName: string;
+  resourceId: string;
+}
+
+/**
+ * Get the assignments of every node metadata tag
+ */
+export async function getNodeTagAssignments(ctx: ContaboContext): Promise<TagAssignment[]> {
+  const tags = await ContaboProvider.listTags(ctx);
+  const assignments = await Promise.all(
+    tags
+      .filter((tag) => isNodeTag(tag.name))
+      .map((tag) => ContaboProvider.listTagAssignments(ctx, tag.tagId, { resourceType: "instance" }))
+  );
+  return assignments.flat().map(({ tagId, tagName, resourceId }) => ({ tagId, tagName, resourceId }));
+}
+
+/**
+ * Write node metadata as tags on a VPS, creating the missing tags
+ */
+async function tagVPS(ctx: ContaboContext, instanceId: number, metadata: NodeMetadata): Promise<void> {
+  const tags = await ContaboProvider.listTags(ctx);
+  for (const name of encodeNodeTags(metadata)) {
+    const tagId = tags.find((tag) => tag.name === name)?.tagId ?? (await ContaboProvider.createTag(ctx, { name }));
+    await ContaboProvider.assignTag(ctx, tagId, instanceId);
+  }
+}
+
 /**
  * Assign a role to a claimed VPS
  * @param instance The claimed instance
@@ -284,6 +357,8 @@ export async function assignRoleToVPS(
   role: NodeRole
 ): Promise<ContaboInstance | null> {
   try {
+    const ctx = getContaboContext();
+
     // Extract domain name from current display name
     const domainName = instance.displayName;
     
@@ -291,7 +366,10 @@ export async function assignRoleToVPS(
     const newName = `${domainName}_${role}`;
     
     // Update the instance name
-    await executeCommand(`cntb update instance ${instance.instanceId} --display-name="${newName}"`);
+    await ContaboProvider.setInstanceDisplayName(ctx, instance.instanceId, newName);
+
+    // Tags are the source of truth, the display name can be changed in the Contabo panel
+    await tagVPS(ctx, instance.instanceId, { clusterId: domainName, roles: [role] });
     
     // Update the instance object with the new name
     instance.displayName = newName;
@@ -313,15 +391,10 @@ export async function assignRoleToVPS(
  */
 export async function resetContaboNode(nodeName: string): Promise<boolean> {
   try {
-    // Ensure .cntb directory exists
-    await ensureDir('.cntb');
-    
-    // Get instances
-    await executeCommand('cntb get instances --output json > .cntb/instances.json');
-    
-    // Read and parse instances
-    const instancesJson = await readFile('.cntb/instances.json');
-    const instances: ContaboInstance[] = JSON.parse(instancesJson);
+    const ctx = getContaboContext();
+
+    // Get instances, the display name filter also matches names containing the node name
+    const instances = await ContaboProvider.listInstances(ctx, { displayName: nodeName });
     
     // Find the instance with the given name
     const instance = instances.find(inst => inst.displayName === nodeName);
@@ -331,8 +404,12 @@ export async function resetContaboNode(nodeName: string): Promise<boolean> {
       return false;
     }
     
-    // Reset the instance name to empty string
-    await executeCommand(`cntb update instance ${instance.instanceId} --display-name=""`);
+    // Remove the node metadata tags and reset the instance name to empty string
+    const assignments = await getNodeTagAssignments(ctx);
+    for (const { tagId } of assignments.filter((assignment) => assignment.resourceId === String(instance.instanceId))) {
+      await ContaboProvider.unassignTag(ctx, tagId, instance.instanceId);
+    }
+    await ContaboProvider.setInstanceDisplayName(ctx, instance.instanceId, "");
     console.log(`Successfully reset node ${nodeName} (Instance ID: ${instance.instanceId})`);
     
     return true;
@@ -0,0 +1,174 @@
+/**
+ * How provider calls are retried and how long they, and readiness waits, may take
+ */
+export interface ResiliencePolicy {
+  /**
+   * Timeout of a single HTTP call
+   */
+  requestTimeoutMs: number;
+  /**
+   * Number of retries after the first attempt of a call
+   */
+  retries: number;
+  /**
+   * Backoff is exponential from this delay, with full jitter
+   */
+  baseDelayMs: number;
+  /**
+   * Upper bound of the backoff, a provider asking to wait longer fails the call with a ProviderRateLimitError
+   */
+  maxDelayMs: number;
+  /**
+   * Deadline of readiness waits, e.g. an instance being created or reinstalled
+   */
+  readyTimeoutMs: number;
+  readyIntervalMs: number;
+}
+
+export const DefaultResiliencePolicy: ResiliencePolicy = {
+  requestTimeoutMs: 30_000,
+  retries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  readyTimeoutMs: 15 * 60_000,
+  readyIntervalMs: 2_000,
+};
+
+/**
+ * A provider call or a readiness wait did not complete in time
+ */
+export class ProviderTimeoutError extends Error {
+  override name = "ProviderTimeoutError";
+
+  constructor(message: string, readonly timeoutMs: number, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+/**
+ * The provider kept rejecting calls because of its rate limit
+ */
+export class ProviderRateLimitError extends Error {
+  override name = "ProviderRateLimitError";
+
+  /**
+   * @param retryAfterMs delay requested by the provider before the next call, when it gave one
+   */
+  constructor(message: string, readonly retryAfterMs?: number, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+export function resolvePolicy(policy?: Partial<ResiliencePolicy>): ResiliencePolicy {
+  return { ...DefaultResiliencePolicy, ...policy };
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with full jitter, spreads the retries of concurrent callers
+ */
+export function getBackoffDelay(attempt: number, policy: ResiliencePolicy, random = Math.random): number {
+  return Math.round(random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Delay requested by the provider through `Retry-After` (seconds or HTTP date) or `X-RateLimit-Reset`
+ * (epoch seconds for Linode, seconds until the reset for Contabo)
+ */
+export function getRetryAfterMs(headers: Headers, now = Date.now()): number | undefined {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isNaN(seconds) ? Date.parse(retryAfter) - now : seconds * 1000;
+    return Number.isNaN(ms) ? undefined : Math.max(0, ms);
+  }
+  const reset = Number(headers.get("x-ratelimit-reset") ?? NaN);
+  if (Number.isNaN(reset)) {
+    return undefined;
+  }
+  // values this large can only be timestamps
+  return Math.max(0, reset > 1e9 ? reset * 1000 - now : reset * 1000);
+}
+
+/**
+ * Fetch with a timeout per attempt, retrying rate limited calls, and, for idempotent calls,
+ * network errors, timeouts and 5xx responses
+ * Non idempotent calls are not retried once the provider may have processed them
+ */
+export async function fetchWithRetry(
+  url: URL | string,
+  init: RequestInit,
+  options: { policy: ResiliencePolicy; idempotent: boolean }
+): Promise<Response> {
+  const { policy, idempotent } = options;
+  const operation = `${init.method ?? "GET"} ${new URL(url).pathname}`;
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < policy.retries;
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(policy.requestTimeoutMs) });
+    } catch (error: unknown) {
+      const failure =
+        error instanceof DOMException && error.name === "TimeoutError"
+          ? new ProviderTimeoutError(`${operation} timed out after ${policy.requestTimeoutMs}ms`, policy.requestTimeoutMs, {
+              cause: error,
+            })
+          : error;
+      if (!idempotent || !canRetry) {
+        throw failure;
+      }
+      await sleep(getBackoffDelay(attempt, policy));
+      continue;
+    }
+    if (response.status === 429) {
+      const retryAfterMs = getRetryAfterMs(response.headers);
+      await response.body?.cancel();
+      if (!canRetry || (retryAfterMs ?? 0) > policy.maxDelayMs) {
+        throw new ProviderRateLimitError(`${operation} was rate limited (429)`, retryAfterMs);
+      }
+      await sleep(retryAfterMs ?? getBackoffDelay(attempt, policy));
+      continue;
+    }
+    if (response.status >= 500 && idempotent && canRetry) {
+      await response.body?.cancel();
+      await sleep(getBackoffDelay(attempt, policy));
+      continue;
+    }
+    return response;
+  }
+}
+
+/**
+ * Body of an error response, kept as text when it is not JSON (e.g. the HTML page of a proxy answering 502)
+ */
+export function parseErrorBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Poll until the check passes, replaces unbounded polling loops
+ */
+export async function waitFor(
+  description: string,
+  check: () => Promise<boolean>,
+  policy: ResiliencePolicy
+): Promise<void> {
+  const deadline = Date.now() + policy.readyTimeoutMs;
+  while (!(await check())) {
+    if (Date.now() + policy.readyIntervalMs > deadline) {
+      throw new ProviderTimeoutError(
+        `Timed out after ${policy.readyTimeoutMs}ms waiting for ${description}`,
+        policy.readyTimeoutMs
+      );
+    }
+    await sleep(policy.readyIntervalMs);
+  }
+}
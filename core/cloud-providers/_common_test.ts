@@ -0,0 +1,144 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import {
+  DefaultResiliencePolicy,
+  ProviderRateLimitError,
+  ProviderTimeoutError,
+  ResiliencePolicy,
+  fetchWithRetry,
+  getBackoffDelay,
+  getRetryAfterMs,
+  resolvePolicy,
+  waitFor,
+} from "./_common.ts";
+
+const policy: ResiliencePolicy = resolvePolicy({
+  requestTimeoutMs: 100,
+  retries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 50,
+  readyTimeoutMs: 30,
+  readyIntervalMs: 5,
+});
+
+describe("Provider resilience", () => {
+  let responses: (() => Response | Promise<Response>)[];
+  let calls: number;
+  let server: Deno.HttpServer<Deno.NetAddr>;
+  let url: string;
+
+  beforeEach(() => {
+    responses = [];
+    calls = 0;
+    server = Deno.serve({ port: 0, onListen: () => {} }, () => {
+      calls++;
+      return (responses.shift() ?? (() => Response.json({ ok: true })))();
+    });
+    url = `http://localhost:${server.addr.port}/v1/resource`;
+  });
+
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it("should retry idempotent calls on 5xx responses", async () => {
+    responses = [() => new Response("", { status: 503 }), () => new Response("", { status: 502 })];
+
+    const response = await fetchWithRetry(url, { method: "GET" }, { policy, idempotent: true });
+
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    assertEquals(calls, 3);
+  });
+
+  it("should not retry non idempotent calls on 5xx responses", async () => {
+    responses = [() => new Response("", { status: 500 })];
+
+    const response = await fetchWithRetry(url, { method: "POST" }, { policy, idempotent: false });
+
+    assertEquals(response.status, 500);
+    await response.body?.cancel();
+    assertEquals(calls, 1);
+  });
+
+  it("should wait as requested by the provider when rate limited", async () => {
+    responses = [() => new Response("", { status: 429, headers: { "retry-after": "0.02" } })];
+
+    const start = Date.now();
+    const response = await fetchWithRetry(url, { method: "POST" }, { policy, idempotent: false });
+
+    assertEquals(response.status, 200);
+    await response.body?.cancel();
+    assertEquals(Date.now() - start >= 20, true);
+  });
+
+  it("should throw a ProviderRateLimitError once retries are exhausted", async () => {
+    responses = Array(3).fill(() => new Response("", { status: 429, headers: { "retry-after": "0" } }));
+
+    const error = await assertRejects(() => fetchWithRetry(url, { method: "GET" }, { policy, idempotent: true }));
+
+    assertInstanceOf(error, ProviderRateLimitError);
+    assertEquals(error.retryAfterMs, 0);
+    assertEquals(calls, 3);
+  });
+
+  it("should not wait longer than the maximum delay", async () => {
+    responses = [() => new Response("", { status: 429, headers: { "retry-after": "3600" } })];
+
+    const error = await assertRejects(() => fetchWithRetry(url, { method: "GET" }, { policy, idempotent: true }));
+
+    assertInstanceOf(error, ProviderRateLimitError);
+    assertEquals(error.retryAfterMs, 3_600_000);
+    assertEquals(calls, 1);
+  });
+
+  it("should throw a ProviderTimeoutError when calls keep timing out", async () => {
+    responses = Array(3).fill(() => new Promise<Response>((resolve) => setTimeout(() => resolve(new Response()), 300)));
+
+    const error = await assertRejects(() => fetchWithRetry(url, { method: "GET" }, { policy, idempotent: true }));
+
+    assertInstanceOf(error, ProviderTimeoutError);
+    assertEquals(error.timeoutMs, 100);
+    assertEquals(calls, 3);
+  });
+});
+
+describe("Backoff and rate limit headers", () => {
+  it("should grow the backoff exponentially up to the maximum delay", () => {
+    const max = () => 1;
+    assertEquals(
+      [0, 1, 2, 10].map((attempt) => getBackoffDelay(attempt, DefaultResiliencePolicy, max)),
+      [500, 1000, 2000, 30_000]
+    );
+    assertEquals(getBackoffDelay(3, DefaultResiliencePolicy, () => 0), 0);
+  });
+
+  it("should read Retry-After and X-RateLimit-Reset headers", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    const headers = (init: Record<string, string>) => new Headers(init);
+
+    assertEquals(getRetryAfterMs(headers({ "retry-after": "2" }), now), 2000);
+    assertEquals(getRetryAfterMs(headers({ "retry-after": "Wed, 01 Jan 2025 00:00:05 GMT" }), now), 5000);
+    assertEquals(getRetryAfterMs(headers({ "x-ratelimit-reset": String(now / 1000 + 3) }), now), 3000);
+    assertEquals(getRetryAfterMs(headers({ "x-ratelimit-reset": "4" }), now), 4000);
+    assertEquals(getRetryAfterMs(headers({}), now), undefined);
+  });
+});
+
+describe("Readiness waits", () => {
+  it("should poll until the check passes", async () => {
+    let checks = 0;
+
+    await waitFor("the check", () => Promise.resolve(++checks === 3), policy);
+
+    assertEquals(checks, 3);
+  });
+
+  it("should throw a ProviderTimeoutError after the deadline", async () => {
+    await assertRejects(
+      () => waitFor("instance 1 to be running", () => Promise.resolve(false), policy),
+      ProviderTimeoutError,
+      "waiting for instance 1 to be running"
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { exec, sh } from "../../api/utils.ts";
+import { ResiliencePolicy, fetchWithRetry, parseErrorBody, resolvePolicy, waitFor } from "./_common.ts";
 
 export interface ContaboContext {
   clientId: string;
@@ -6,6 +6,15 @@ export interface ContaboContext {
   tokenUrl: string;
   user: string;
   password: string;
+  /**
+   * Base URL of the Contabo API, defaults to https://api.contabo.com
+   * Can be pointed to a local mock server for testing
+   */
+  apiUrl?: string;
+  /**
+   * Overrides of DefaultResiliencePolicy
+   */
+  policy?: Partial<ResiliencePolicy>;
 }
 
 export type ContaboRegion = "EU" | "US-central" | "US-east" | "US-west" | "SIN";
@@ -30,7 +39,7 @@ export interface ContaboInstance {
   customerId: string;
   dataCenter: string;
   defaultUser: "root" | "admin" | "Administrator";
-  diskMb: string;
+  diskMb: number;
   displayName: string;
   imageId: string;
   instanceId: number;
@@ -47,7 +56,7 @@ export interface ContaboInstance {
   productName: string;
   productType: string;
   ramMb: number;
-  region: string;
+  region: ContaboRegion;
   regionName: string;
   sshKeys: number[];
   status: string;
@@ -68,6 +77,27 @@ export interface ContaboSecret {
   value: "";
 }
 
+export interface ContaboTag {
+  tagId: number;
+  name: string;
+  color: string;
+  customerId: string;
+  tenantId: "INT";
+}
+
+export interface ContaboTagAssignment {
+  tagId: number;
+  tagName: string;
+  resourceType: "instance" | "image" | "object-storage";
+  /**
+   * Id of the tagged resource, the instance id for instances
+   */
+  resourceId: string;
+  resourceName: string;
+  customerId: string;
+  tenantId: "INT";
+}
+
 export interface ContaboPrivateNetwork {
   availableIps: number;
   cidr: string;
@@ -110,30 +140,266 @@ export interface ContaboPrivateNetwork {
   }[];
 }
 
-
 export type ContaboSshKey = ContaboSecret & { type: "ssh" };
 
-async function execCntb(ctx: ContaboContext, command: string): Promise<string> {
-  return exec(
-    [
-      command,
-      "--oauth2-client-secret",
-      ctx.clientSecret,
-      "--oauth2-clientid",
-      ctx.clientId,
-      "--oauth2-password",
-      ctx.password,
-      "--oauth2-tokenurl",
-      ctx.tokenUrl,
-      "--oauth2-user",
-      ctx.user,
-    ].join(" ")
+export interface ContaboImage {
+  imageId: string;
+  name: string;
+  description: string;
+  osType: "Linux" | "Windows";
+  version: string;
+  format: "iso" | "qcow2";
+  status: string;
+  /**
+   * Standard images are provided by Contabo, the others are custom images uploaded by the customer
+   */
+  standardImage: boolean;
+  sizeMb: number;
+  creationDate: string;
+  lastModifiedDate: string;
+}
+
+export interface ContaboProduct {
+  productId: string;
+  name: string;
+  cpuCores: number;
+  ramMb: number;
+  diskMb: number;
+  /**
+   * Indicative monthly price in EUR, only used to rank products
+   */
+  monthlyPrice: number;
+}
+
+export interface ContaboResourceRequirements {
+  cpuCores?: number;
+  ramMb?: number;
+  diskMb?: number;
+}
+
+/**
+ * Contabo does not expose its product catalogue through the API, keep this list in sync with
+ * https://api.contabo.com/#tag/Instances/operation/createInstance
+ */
+export const ContaboProducts: ContaboProduct[] = [
+  { productId: "V91", name: "Cloud VPS 10 NVMe", cpuCores: 4, ramMb: 8192, diskMb: 76800, monthlyPrice: 4.5 },
+  { productId: "V92", name: "Cloud VPS 10 SSD", cpuCores: 4, ramMb: 8192, diskMb: 153600, monthlyPrice: 4.5 },
+  { productId: "V94", name: "Cloud VPS 20 NVMe", cpuCores: 6, ramMb: 12288, diskMb: 102400, monthlyPrice: 7 },
+  { productId: "V95", name: "Cloud VPS 20 SSD", cpuCores: 6, ramMb: 12288, diskMb: 204800, monthlyPrice: 7 },
+  { productId: "V97", name: "Cloud VPS 30 NVMe", cpuCores: 8, ramMb: 24576, diskMb: 204800, monthlyPrice: 14 },
+  { productId: "V98", name: "Cloud VPS 30 SSD", cpuCores: 8, ramMb: 24576, diskMb: 409600, monthlyPrice: 14 },
+  { productId: "V100", name: "Cloud VPS 40 NVMe", cpuCores: 12, ramMb: 49152, diskMb: 256000, monthlyPrice: 25 },
+  { productId: "V101", name: "Cloud VPS 40 SSD", cpuCores: 12, ramMb: 49152, diskMb: 512000, monthlyPrice: 25 },
+];
+
+const satisfiesRequirements = (
+  resources: { cpuCores: number; ramMb: number; diskMb: number },
+  requirements: ContaboResourceRequirements
+) =>
+  resources.cpuCores >= (requirements.cpuCores ?? 0) &&
+  resources.ramMb >= (requirements.ramMb ?? 0) &&
+  resources.diskMb >= (requirements.diskMb ?? 0);
+
+/**
+ * Find the cheapest product with at least the required resources
+ * Ties are broken by the smallest disk, then the catalogue order
+ */
+export function findCheapestProduct(requirements: ContaboResourceRequirements): ContaboProduct | undefined {
+  return ContaboProducts.filter((product) => satisfiesRequirements(product, requirements)).sort(
+    (a, b) => a.monthlyPrice - b.monthlyPrice || a.diskMb - b.diskMb
+  )[0];
+}
+
+export interface ContaboPagination {
+  size: number;
+  totalElements: number;
+  totalPages: number;
+  page: number;
+}
+
+export interface ContaboPaginationOptions {
+  /**
+   * Page to fetch, starting at 1
+   * When omitted, all pages are fetched and concatenated
+   */
+  page?: number;
+  size?: number;
+}
+
+interface ContaboResponse<T> {
+  data: T[];
+  _pagination?: ContaboPagination;
+}
+
+interface ContaboToken {
+  accessToken: string;
+  expiresAt: number;
+  refreshToken?: string;
+  refreshExpiresAt: number;
+}
+
+/**
+ * Error returned by the Contabo API
+ * Keeps the request id so the failing call can be traced with Contabo support
+ */
+export class ContaboApiError extends Error {
+  override name = "ContaboApiError";
+
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly requestId: string,
+    readonly body?: unknown,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+  }
+}
+
+/**
+ * Error returned by the Contabo OAuth2 token endpoint
+ */
+export class ContaboAuthError extends Error {
+  override name = "ContaboAuthError";
+
+  constructor(message: string, readonly status: number, readonly body?: unknown, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+const DEFAULT_API_URL = "https://api.contabo.com";
+const DEFAULT_PAGE_SIZE = 100;
+// Refresh the access token a bit before it actually expires
+const TOKEN_EXPIRY_MARGIN_MS = 30_000;
+
+const tokens = new WeakMap<ContaboContext, ContaboToken>();
+
+async function requestToken(ctx: ContaboContext, params: Record<string, string>): Promise<ContaboToken> {
+  const response = await fetchWithRetry(
+    ctx.tokenUrl,
+    {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ client_id: ctx.clientId, client_secret: ctx.clientSecret, ...params }),
+    },
+    // requesting a token has no side effect
+    { policy: resolvePolicy(ctx.policy), idempotent: true }
   );
+  const body = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    throw new ContaboAuthError(`Failed to authenticate to Contabo (${response.status})`, response.status, body);
+  }
+  const { access_token, expires_in, refresh_token, refresh_expires_in } = body as {
+    access_token: string;
+    expires_in: number;
+    refresh_token?: string;
+    refresh_expires_in?: number;
+  };
+  return {
+    accessToken: access_token,
+    expiresAt: Date.now() + expires_in * 1000,
+    refreshToken: refresh_token,
+    refreshExpiresAt: Date.now() + (refresh_expires_in ?? 0) * 1000,
+  };
+}
+
+/**
+ * Get an access token for the context, reusing the cached one while it is valid
+ * and using the refresh token when possible instead of sending the password again
+ */
+async function getAccessToken(ctx: ContaboContext): Promise<string> {
+  const now = Date.now();
+  const cached = tokens.get(ctx);
+  if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > now) {
+    return cached.accessToken;
+  }
+  let token: ContaboToken | undefined;
+  if (cached?.refreshToken && cached.refreshExpiresAt - TOKEN_EXPIRY_MARGIN_MS > now) {
+    token = await requestToken(ctx, { grant_type: "refresh_token", refresh_token: cached.refreshToken }).catch(
+      () => undefined
+    );
+  }
+  token ??= await requestToken(ctx, { grant_type: "password", username: ctx.user, password: ctx.password });
+  tokens.set(ctx, token);
+  return token.accessToken;
+}
+
+async function request<T>(
+  ctx: ContaboContext,
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+  path: string,
+  options?: { query?: Record<string, string | number | boolean | undefined>; body?: unknown }
+): Promise<ContaboResponse<T>> {
+  const url = new URL(path, ctx.apiUrl ?? DEFAULT_API_URL);
+  for (const [key, value] of Object.entries(options?.query ?? {})) {
+    if (value !== undefined && value !== "") {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  for (let attempt = 0; ; attempt++) {
+    const requestId = crypto.randomUUID();
+    const response = await fetchWithRetry(
+      url,
+      {
+        method,
+        headers: {
+          authorization: `Bearer ${await getAccessToken(ctx)}`,
+          "content-type": "application/json",
+          "x-request-id": requestId,
+        },
+        body: options?.body === undefined ? undefined : JSON.stringify(options.body),
+      },
+      { policy: resolvePolicy(ctx.policy), idempotent: method !== "POST" }
+    );
+    // Token may have been revoked before its expiry, retry once with a fresh one
+    if (response.status === 401 && attempt === 0) {
+      await response.body?.cancel();
+      tokens.delete(ctx);
+      continue;
+    }
+    const text = await response.text();
+    if (!response.ok) {
+      const body = parseErrorBody(text);
+      const message = (body as { message?: string } | undefined)?.message ?? response.statusText;
+      throw new ContaboApiError(
+        `${method} ${url.pathname} failed (${response.status}): ${message}`,
+        response.status,
+        requestId,
+        body
+      );
+    }
+    return text ? JSON.parse(text) : { data: [] };
+  }
+}
+
+/**
+ * Fetch a single page when `page` is given, otherwise walk through every page
+ */
+async function paginate<T>(
+  ctx: ContaboContext,
+  path: string,
+  options: ContaboPaginationOptions & { query?: Record<string, string | number | boolean | undefined> }
+): Promise<T[]> {
+  const { page, size = DEFAULT_PAGE_SIZE, query } = options;
+  if (page !== undefined) {
+    return (await request<T>(ctx, "GET", path, { query: { ...query, page, size } })).data;
+  }
+  const items: T[] = [];
+  for (let current = 1; ; current++) {
+    const { data, _pagination } = await request<T>(ctx, "GET", path, { query: { ...query, page: current, size } });
+    items.push(...data);
+    if (data.length === 0 || !_pagination || current >= _pagination.totalPages) {
+      return items;
+    }
+  }
 }
 
-export async function listInstances(ctx: ContaboContext, { page }: { page: number }): Promise<ContaboInstance[]> {
-  const instances = JSON.parse(await execCntb(ctx, "cntb get instances --output json")) as ContaboInstance[];
-  return instances;
+export async function listInstances(
+  ctx: ContaboContext,
+  options?: ContaboPaginationOptions & { displayName?: string }
+): Promise<ContaboInstance[]> {
+  const { displayName, ...pagination } = options ?? {};
+  return await paginate<ContaboInstance>(ctx, "/v1/compute/instances", { ...pagination, query: { displayName } });
 }
 
 export async function setInstanceDisplayName(
@@ -141,43 +407,149 @@ export async function setInstanceDisplayName(
   instanceId: number,
   displayName: string
 ): Promise<void> {
-  await execCntb(ctx, `cntb set instance "${instanceId}" --display-name "${displayName}"`);
+  await request(ctx, "PATCH", `/v1/compute/instances/${instanceId}`, { body: { displayName } });
+}
+
+/**
+ * Claim written in the display name of an instance while it is being provisioned
+ * The claimer renames the instance once provisioned, a claim still there after its expiry has been abandoned
+ */
+export interface ContaboClaim {
+  ownerId: string;
+  expiresAt: Date;
+}
+
+export const DEFAULT_CLAIM_TTL_MS = 15 * 60_000;
+export const DEFAULT_CLAIM_SETTLE_MS = 2_000;
+
+// Display name set by claimers predating claims, it never expires on its own
+const LEGACY_CLAIM = "claimed";
+
+export function formatClaim(claim: ContaboClaim): string {
+  return `claim:${claim.ownerId}:${claim.expiresAt.getTime()}`;
+}
+
+export function parseClaim(displayName: string): ContaboClaim | undefined {
+  const match = displayName.match(/^claim:(.+):(\d+)$/);
+  if (!match) {
+    return undefined;
+  }
+  return { ownerId: match[1], expiresAt: new Date(Number(match[2])) };
+}
+
+/**
+ * An instance is claimable when it has no display name or when its claim expired
+ */
+export function isClaimable(displayName: string, now = new Date()): boolean {
+  if (displayName === "") {
+    return true;
+  }
+  const claim = parseClaim(displayName);
+  return !!claim && claim.expiresAt <= now;
 }
 
-export async function getAvailableInstance(ctx: ContaboContext): Promise<ContaboInstance | null> {
-  for (let page = 0; page < Infinity; page++) {
+export interface ClaimInstanceOptions {
+  requirements?: ContaboResourceRequirements;
+  /**
+   * Instances cannot be moved across regions, only instances of this region are claimed
+   */
+  region?: ContaboRegion;
+  /**
+   * Identifies the claimer in the claim, defaults to a random id
+   */
+  ownerId?: string;
+  /**
+   * Time given to the claimer to rename the instance, defaults to DEFAULT_CLAIM_TTL_MS
+   */
+  ttlMs?: number;
+  /**
+   * Delay before reading the claim back, lets concurrent claims of the same instance settle on a single winner
+   * Defaults to DEFAULT_CLAIM_SETTLE_MS
+   */
+  settleMs?: number;
+}
+
+/**
+ * Claim an available instance
+ * The display name is the only shared state, so the claim is written then read back after a delay:
+ * when two callers claim the same instance, the last write wins and the other caller moves to the next instance
+ */
+export async function getAvailableInstance(
+  ctx: ContaboContext,
+  options: ClaimInstanceOptions = {}
+): Promise<ContaboInstance | null> {
+  const {
+    requirements = {},
+    region,
+    ownerId = crypto.randomUUID(),
+    ttlMs = DEFAULT_CLAIM_TTL_MS,
+    settleMs = DEFAULT_CLAIM_SETTLE_MS,
+  } = options;
+  for (let page = 1; ; page++) {
     const instances = await listInstances(ctx, { page });
     if (instances.length === 0) {
       return null;
     }
-    // find the first available instance
-    const availableInstance = instances.find(
-      (instance) => instance.displayName === "" && instance.status === "running"
+    // available instances big enough for the node
+    const candidates = instances.filter(
+      (instance) =>
+        isClaimable(instance.displayName) &&
+        instance.status === "running" &&
+        (!region || instance.region === region) &&
+        satisfiesRequirements(instance, requirements)
     );
-    if (availableInstance) {
-      await setInstanceDisplayName(ctx, availableInstance.instanceId, "claimed");
-      return availableInstance;
+    for (const candidate of candidates) {
+      // read it again, the listing may be stale and another owner may hold the instance since
+      const current = await getInstance(ctx, candidate.instanceId);
+      if (!isClaimable(current.displayName)) {
+        continue;
+      }
+      const claim = formatClaim({ ownerId, expiresAt: new Date(Date.now() + ttlMs) });
+      await setInstanceDisplayName(ctx, candidate.instanceId, claim);
+      await new Promise((resolve) => setTimeout(resolve, settleMs));
+      const instance = await getInstance(ctx, candidate.instanceId);
+      if (instance.displayName === claim) {
+        return instance;
+      }
+    }
+  }
+}
+
+/**
+ * Return instances with an expired or legacy claim to the pool
+ * @returns the ids of the released instances
+ */
+export async function releaseAbandonedClaims(ctx: ContaboContext, now = new Date()): Promise<number[]> {
+  const instances = await listInstances(ctx);
+  const abandoned = instances.filter(
+    (instance) =>
+      instance.displayName === LEGACY_CLAIM || (instance.displayName !== "" && isClaimable(instance.displayName, now))
+  );
+  const released: number[] = [];
+  for (const { instanceId, displayName } of abandoned) {
+    // read it again, the instance may have been claimed or renamed since the listing
+    const instance = await getInstance(ctx, instanceId);
+    if (instance.displayName !== displayName) {
+      continue;
     }
+    await setInstanceDisplayName(ctx, instanceId, "");
+    released.push(instanceId);
   }
-  return null;
+  return released;
 }
 
 export async function getSecrets(
   ctx: ContaboContext,
-  options?: { type?: "ssh" | "password"; name?: string }
+  options?: ContaboPaginationOptions & { type?: "ssh" | "password"; name?: string }
 ): Promise<ContaboSecret[]> {
-  const { type, name } = options ?? {};
-  return JSON.parse(
-    await execCntb(
-      ctx,
-      ["cntb get secrets --output json", name && `--name ${name}`, type && `--type ${type}`].filter(Boolean).join(" ")
-    )
-  ) as ContaboSecret[];
+  const { type, name, ...pagination } = options ?? {};
+  return await paginate<ContaboSecret>(ctx, "/v1/secrets", { ...pagination, query: { type, name } });
 }
 
 export async function getSecret(ctx: ContaboContext, id: string): Promise<ContaboSecret> {
   try {
-    return JSON.parse(await execCntb(ctx, `cntb get secret --output json "${id}"`)) as ContaboSecret;
+    const { data } = await request<ContaboSecret>(ctx, "GET", `/v1/secrets/${id}`);
+    return data[0];
   } catch (error: unknown) {
     throw new Error(`Failed to retrieve secret`, { cause: error });
   }
@@ -187,48 +559,67 @@ export async function createSecret(
   ctx: ContaboContext,
   options: { type: "ssh" | "password"; name: string; value: string }
 ): Promise<number> {
-  const { type, name, value } = options;
-  const secretId = await execCntb(ctx, `cntb create secret --type ${type} --name ${name} --value ${value}`);
-  return parseInt(secretId);
+  const { data } = await request<ContaboSecret>(ctx, "POST", "/v1/secrets", { body: options });
+  return data[0].secretId;
+}
+
+export async function deleteSecret(ctx: ContaboContext, secretId: number): Promise<void> {
+  await request(ctx, "DELETE", `/v1/secrets/${secretId}`);
+}
+
+export async function listImages(
+  ctx: ContaboContext,
+  options?: ContaboPaginationOptions & { name?: string; standardImage?: boolean }
+): Promise<ContaboImage[]> {
+  const { name, standardImage, ...pagination } = options ?? {};
+  return await paginate<ContaboImage>(ctx, "/v1/compute/images", { ...pagination, query: { name, standardImage } });
 }
 
 export async function getInstance(ctx: ContaboContext, instanceId: number): Promise<ContaboInstance> {
   try {
-    return JSON.parse(await execCntb(ctx, `cntb get instance --output json "${instanceId}"`)) as ContaboInstance;
+    const { data } = await request<ContaboInstance>(ctx, "GET", `/v1/compute/instances/${instanceId}`);
+    return data[0];
   } catch (error: unknown) {
     throw new Error(`Failed to get instance`, { cause: error });
   }
 }
 
+async function waitForInstanceRunning(ctx: ContaboContext, instanceId: number): Promise<void> {
+  await waitFor(
+    `instance ${instanceId} to be running`,
+    async () => (await getInstance(ctx, instanceId)).status === "running",
+    resolvePolicy(ctx.policy)
+  );
+}
+
 export async function createInstance(
   ctx: ContaboContext,
-  options: { sshKeys: number[]; displayName: string }
-): Promise<number> {
-  const { sshKeys, displayName } = options;
-  const instanceId = parseInt(
-    await execCntb(
-      ctx,
-      sh`
-				cntb create \
-				instance \ 
-				--region EU \
-				--defaultUser root \
-				--imageId d64d5c6c-9dda-4e38-8174-0ee282474d8a \
-				--sshKeys ${sshKeys.join(",")}
-				--productId V78 \
- 		   --displayName "${displayName}" \
-				--output json
-			`
-    )
-  );
-  // wait for the instance to be ready
-  while (true) {
-    const instance = await getInstance(ctx, instanceId);
-    if (instance.status === "running") {
-      break;
-    }
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  options: {
+    sshKeys: number[];
+    displayName: string;
+    productId: string;
+    imageId: string;
+    region: ContaboRegion;
+    /**
+     * cloud-init user-data run on first boot
+     */
+    userData?: string;
   }
+): Promise<number> {
+  const { sshKeys, displayName, productId, imageId, region, userData } = options;
+  const { data } = await request<{ instanceId: number }>(ctx, "POST", "/v1/compute/instances", {
+    body: {
+      region,
+      defaultUser: "root",
+      imageId,
+      sshKeys,
+      productId,
+      displayName,
+      userData,
+    },
+  });
+  const instanceId = data[0].instanceId;
+  await waitForInstanceRunning(ctx, instanceId);
   return instanceId;
 }
 
@@ -238,62 +629,39 @@ export async function reinstallInstance(
     instanceId: number;
     sshKeys: number[];
     displayName: string;
+    imageId: string;
+    /**
+     * cloud-init user-data run on first boot of the reinstalled instance
+     */
+    userData?: string;
   }
 ): Promise<number> {
-  const { instanceId, sshKeys, displayName } = options;
-  await execCntb(
-    ctx,
-    sh`
-		cntb create \
-		reinstall \ 
-    instance \
-    "${instanceId}" \
-		--defaultUser root \
-		--imageId d64d5c6c-9dda-4e38-8174-0ee282474d8a \
-		--sshKeys ${sshKeys.join(",")} \
-    --displayName "${displayName}" \
-		--output json
-	`
-  );
-  // wait for the instance to be ready
-  while (true) {
-    const instance = await getInstance(ctx, instanceId);
-    if (instance.status === "running") {
-      break;
-    }
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-  }
+  const { instanceId, sshKeys, displayName, imageId, userData } = options;
+  await request(ctx, "PUT", `/v1/compute/instances/${instanceId}`, {
+    body: {
+      defaultUser: "root",
+      imageId,
+      sshKeys,
+      userData,
+    },
+  });
+  // reinstall does not accept a display name, it has to be set separately
+  await setInstanceDisplayName(ctx, instanceId, displayName);
+  await waitForInstanceRunning(ctx, instanceId);
   return instanceId;
 }
 
 export async function listPrivateNetworks(
   ctx: ContaboContext,
-  options?: {
-    name?: string;
-    page?: number;
-    size?: number;
-  }
+  options?: ContaboPaginationOptions & { name?: string }
 ): Promise<ContaboPrivateNetwork[]> {
-  const { page, size } = options ?? {};
-  return JSON.parse(
-    await execCntb(
-      ctx,
-      [
-        "cntb get private-networks --output json",
-        name && `--name "${name}"`,
-        page && `--page ${page}`,
-        size && `--size ${size}`,
-      ]
-        .filter(Boolean)
-        .join(" ")
-    )
-  ) as ContaboPrivateNetwork[];
+  const { name, ...pagination } = options ?? {};
+  return await paginate<ContaboPrivateNetwork>(ctx, "/v1/private-networks", { ...pagination, query: { name } });
 }
 
 export async function getPrivateNetwork(ctx: ContaboContext, privateNetworkId: number): Promise<ContaboPrivateNetwork> {
-  return JSON.parse(
-    await execCntb(ctx, `cntb get private-network --output json "${privateNetworkId}"`)
-  ) as ContaboPrivateNetwork;
+  const { data } = await request<ContaboPrivateNetwork>(ctx, "GET", `/v1/private-networks/${privateNetworkId}`);
+  return data[0];
 }
 
 export async function assignPrivateNetwork(
@@ -301,7 +669,7 @@ export async function assignPrivateNetwork(
   privateNetworkId: number,
   instanceId: number
 ): Promise<void> {
-  await execCntb(ctx, `cntb assign instance "${privateNetworkId}" "${instanceId}"`);
+  await request(ctx, "POST", `/v1/private-networks/${privateNetworkId}/instances/${instanceId}`);
 }
 
 export async function unassignPrivateNetwork(
@@ -309,14 +677,47 @@ export async function unassignPrivateNetwork(
   privateNetworkid: number,
   instanceId: number
 ): Promise<void> {
-  await execCntb(ctx, `cntb unassign instance "${privateNetworkid}" "${instanceId}"`);
+  await request(ctx, "DELETE", `/v1/private-networks/${privateNetworkid}/instances/${instanceId}`);
 }
 
 export async function createPrivateNetwork(
   ctx: ContaboContext,
   options: { name: string; region: ContaboRegion }
 ): Promise<number> {
-  return parseInt(
-    await execCntb(ctx, `cntb create private-network --name "${options.name}" --region "${options.region}"`)
-  );
+  const { data } = await request<ContaboPrivateNetwork>(ctx, "POST", "/v1/private-networks", { body: options });
+  return data[0].privateNetworkId;
+}
+
+export async function listTags(
+  ctx: ContaboContext,
+  options?: ContaboPaginationOptions & { name?: string }
+): Promise<ContaboTag[]> {
+  const { name, ...pagination } = options ?? {};
+  return await paginate<ContaboTag>(ctx, "/v1/tags", { ...pagination, query: { name } });
+}
+
+export async function createTag(ctx: ContaboContext, options: { name: string; color?: string }): Promise<number> {
+  const { name, color = "#0A78C3" } = options;
+  const { data } = await request<ContaboTag>(ctx, "POST", "/v1/tags", { body: { name, color } });
+  return data[0].tagId;
+}
+
+export async function listTagAssignments(
+  ctx: ContaboContext,
+  tagId: number,
+  options?: ContaboPaginationOptions & { resourceType?: ContaboTagAssignment["resourceType"] }
+): Promise<ContaboTagAssignment[]> {
+  const { resourceType, ...pagination } = options ?? {};
+  return await paginate<ContaboTagAssignment>(ctx, `/v1/tags/${tagId}/assignments`, {
+    ...pagination,
+    query: { resourceType },
+  });
+}
+
+export async function assignTag(ctx: ContaboContext, tagId: number, instanceId: number): Promise<void> {
+  await request(ctx, "POST", `/v1/tags/${tagId}/assignments/instance/${instanceId}`);
+}
+
+export async function unassignTag(ctx: ContaboContext, tagId: number, instanceId: number): Promise<void> {
+  await request(ctx, "DELETE", `/v1/tags/${tagId}/assignments/instance/${instanceId}`);
 }
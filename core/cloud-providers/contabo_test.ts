@@ -0,0 +1,354 @@
+import { assertEquals, assertInstanceOf, assertMatch, assertRejects } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import {
+  ContaboApiError,
+  ContaboContext,
+  ContaboInstance,
+  ContaboTag,
+  ContaboTagAssignment,
+  assignTag,
+  createTag,
+  findCheapestProduct,
+  formatClaim,
+  getAvailableInstance,
+  getInstance,
+  listImages,
+  listInstances,
+  listTagAssignments,
+  listTags,
+  parseClaim,
+  releaseAbandonedClaims,
+} from "./contabo.ts";
+
+interface MockRequest {
+  method: string;
+  path: string;
+  search: URLSearchParams;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Minimal Contabo API mock, records every request and answers with the given handler
+ */
+function startMockServer(handler: (request: MockRequest) => Response | undefined) {
+  const requests: MockRequest[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    const url = new URL(req.url);
+    const request = {
+      method: req.method,
+      path: url.pathname,
+      search: url.searchParams,
+      headers: req.headers,
+      body: await req.text(),
+    };
+    requests.push(request);
+    return handler(request) ?? new Response(JSON.stringify({ message: "Not Found" }), { status: 404 });
+  });
+  const url = `http://localhost:${server.addr.port}`;
+  const ctx: ContaboContext = {
+    clientId: "client-id",
+    clientSecret: "client-secret",
+    tokenUrl: `${url}/token`,
+    user: "user",
+    password: "password",
+    apiUrl: url,
+  };
+  return { ctx, requests, server };
+}
+
+const tokenResponse = (accessToken: string) =>
+  Response.json({ access_token: accessToken, expires_in: 300, refresh_token: "refresh", refresh_expires_in: 1800 });
+
+const instance = (instanceId: number, resources = { cpuCores: 4, ramMb: 8192, diskMb: 76800 }, region = "EU") =>
+  ({ instanceId, displayName: "", status: "running", region, ...resources }) as ContaboInstance;
+
+describe("Contabo API client", () => {
+  let mock: ReturnType<typeof startMockServer>;
+  let instances: ContaboInstance[];
+  // instances returned by the listing when it lags behind the instances
+  let listedInstances: ContaboInstance[] | undefined;
+  let tags: ContaboTag[];
+  let assignments: ContaboTagAssignment[];
+  let validToken: string;
+  // a proxy in front of the API answering with an HTML page
+  let badGateway: boolean;
+
+  beforeEach(() => {
+    instances = [instance(1), instance(2), instance(3)];
+    listedInstances = undefined;
+    tags = [];
+    assignments = [];
+    validToken = "token-1";
+    badGateway = false;
+    mock = startMockServer((request) => {
+      if (request.path === "/token") {
+        return tokenResponse(validToken);
+      }
+      if (badGateway) {
+        return new Response("<html><body>502 Bad Gateway</body></html>", {
+          status: 502,
+          statusText: "Bad Gateway",
+          headers: { "content-type": "text/html" },
+        });
+      }
+      if (request.headers.get("authorization") !== `Bearer ${validToken}`) {
+        return Response.json({ message: "Unauthorized" }, { status: 401 });
+      }
+      if (request.path.startsWith("/v1/compute/instances/")) {
+        const instanceId = Number(request.path.split("/").at(-1));
+        const instance = instances.find((instance) => instance.instanceId === instanceId);
+        if (!instance) {
+          return undefined;
+        }
+        if (request.method === "PATCH") {
+          Object.assign(instance, JSON.parse(request.body));
+        }
+        return Response.json({ data: [{ ...instance }] });
+      }
+      if (request.path === "/v1/tags" && request.method === "POST") {
+        const tag = { tagId: tags.length + 1, ...JSON.parse(request.body) } as ContaboTag;
+        tags.push(tag);
+        return Response.json({ data: [tag] }, { status: 201 });
+      }
+      if (request.path === "/v1/tags") {
+        const data = tags.filter((tag) => tag.name.includes(request.search.get("name") ?? ""));
+        return Response.json({ data, _pagination: { page: 1, size: 100, totalElements: data.length, totalPages: 1 } });
+      }
+      const assignment = request.path.match(/^\/v1\/tags\/(\d+)\/assignments(?:\/instance\/(\d+))?$/);
+      if (assignment && request.method === "POST") {
+        const tag = tags.find((tag) => tag.tagId === Number(assignment[1]))!;
+        assignments.push({
+          tagId: tag.tagId,
+          tagName: tag.name,
+          resourceType: "instance",
+          resourceId: assignment[2],
+        } as ContaboTagAssignment);
+        return Response.json({ data: [] }, { status: 201 });
+      }
+      if (assignment) {
+        const data = assignments.filter((item) => item.tagId === Number(assignment[1]));
+        return Response.json({ data, _pagination: { page: 1, size: 100, totalElements: data.length, totalPages: 1 } });
+      }
+      if (request.path === "/v1/compute/images") {
+        const images = [
+          { imageId: "image-ubuntu", name: "ubuntu-24.04", standardImage: true },
+          { imageId: "image-golden", name: "golden-k8s", standardImage: false },
+        ].filter(
+          (image) =>
+            (!request.search.has("name") || image.name === request.search.get("name")) &&
+            (!request.search.has("standardImage") ||
+              String(image.standardImage) === request.search.get("standardImage"))
+        );
+        return Response.json({
+          data: images,
+          _pagination: { page: 1, size: 100, totalElements: images.length, totalPages: 1 },
+        });
+      }
+      if (request.path === "/v1/compute/instances") {
+        const page = Number(request.search.get("page"));
+        const size = Number(request.search.get("size"));
+        const listed = listedInstances ?? instances;
+        return Response.json({
+          data: listed.slice((page - 1) * size, page * size),
+          _pagination: {
+            page,
+            size,
+            totalElements: listed.length,
+            totalPages: Math.ceil(listed.length / size),
+          },
+        });
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await mock.server.shutdown();
+  });
+
+  it("should authenticate once and reuse the cached token", async () => {
+    await listInstances(mock.ctx, { page: 1 });
+    await listInstances(mock.ctx, { page: 2 });
+
+    const tokenRequests = mock.requests.filter((request) => request.path === "/token");
+    assertEquals(tokenRequests.length, 1);
+    const params = new URLSearchParams(tokenRequests[0].body);
+    assertEquals(params.get("grant_type"), "password");
+    assertEquals(params.get("username"), "user");
+  });
+
+  it("should send a unique x-request-id header with every call", async () => {
+    await listInstances(mock.ctx, { page: 1 });
+    await listInstances(mock.ctx, { page: 1 });
+
+    const requestIds = mock.requests
+      .filter((request) => request.path !== "/token")
+      .map((request) => request.headers.get("x-request-id")!);
+    assertEquals(requestIds.length, 2);
+    assertEquals(new Set(requestIds).size, 2);
+    requestIds.forEach((requestId) => assertMatch(requestId, /^[0-9a-f-]{36}$/));
+  });
+
+  it("should fetch a single page when a page is given", async () => {
+    const result = await listInstances(mock.ctx, { page: 2, size: 2 });
+
+    assertEquals(
+      result.map((instance) => instance.instanceId),
+      [3]
+    );
+  });
+
+  it("should walk through every page when no page is given", async () => {
+    const result = await listInstances(mock.ctx, { size: 2 });
+
+    assertEquals(
+      result.map((instance) => instance.instanceId),
+      [1, 2, 3]
+    );
+    assertEquals(mock.requests.filter((request) => request.path === "/v1/compute/instances").length, 2);
+  });
+
+  it("should renew the token when it is rejected", async () => {
+    await listInstances(mock.ctx, { page: 1 });
+    validToken = "token-2";
+
+    const result = await listInstances(mock.ctx, { page: 1 });
+
+    assertEquals(result.length, 3);
+    assertEquals(mock.requests.filter((request) => request.path === "/token").length, 2);
+  });
+
+  it("should throw a structured error on API failures", async () => {
+    const error = await assertRejects(() => getInstance(mock.ctx, 42), Error);
+
+    assertInstanceOf(error.cause, ContaboApiError);
+    assertEquals(error.cause.status, 404);
+    assertEquals(error.cause.requestId, mock.requests.at(-1)!.headers.get("x-request-id"));
+  });
+
+  it("should throw a structured error on error responses that are not JSON", async () => {
+    badGateway = true;
+
+    const error = await assertRejects(() => getInstance({ ...mock.ctx, policy: { retries: 0 } }, 1), Error);
+
+    assertInstanceOf(error.cause, ContaboApiError);
+    assertEquals(error.cause.status, 502);
+    assertEquals(error.cause.requestId, mock.requests.at(-1)!.headers.get("x-request-id"));
+    assertEquals(error.cause.body, "<html><body>502 Bad Gateway</body></html>");
+    assertEquals(error.cause.message, "GET /v1/compute/instances/1 failed (502): Bad Gateway");
+  });
+
+  it("should only claim available instances in the requested region", async () => {
+    instances = [instance(1), instance(2, undefined, "SIN")];
+
+    const available = await getAvailableInstance(mock.ctx, { region: "SIN", settleMs: 0 });
+
+    assertEquals(available?.instanceId, 2);
+    assertEquals(instances[0].displayName, "");
+  });
+
+  it("should filter images by name and origin", async () => {
+    const images = await listImages(mock.ctx, { name: "ubuntu-24.04", standardImage: true });
+
+    assertEquals(
+      images.map((image) => image.imageId),
+      ["image-ubuntu"]
+    );
+  });
+
+  it("should create tags and assign them to instances", async () => {
+    const tagId = await createTag(mock.ctx, { name: "role:worker" });
+    await assignTag(mock.ctx, tagId, 2);
+
+    assertEquals(
+      (await listTags(mock.ctx, { name: "role:worker" })).map((tag) => [tag.tagId, tag.name]),
+      [[tagId, "role:worker"]]
+    );
+    assertEquals(
+      (await listTagAssignments(mock.ctx, tagId)).map((assignment) => assignment.resourceId),
+      ["2"]
+    );
+    assertEquals(JSON.parse(mock.requests.find((request) => request.path === "/v1/tags")!.body).color, "#0A78C3");
+  });
+
+  it("should only claim available instances with enough resources", async () => {
+    instances = [
+      instance(1, { cpuCores: 4, ramMb: 8192, diskMb: 76800 }),
+      instance(2, { cpuCores: 8, ramMb: 24576, diskMb: 204800 }),
+    ];
+
+    const available = await getAvailableInstance(mock.ctx, {
+      requirements: { cpuCores: 6, ramMb: 12288 },
+      ownerId: "owner",
+      settleMs: 0,
+    });
+
+    assertEquals(available?.instanceId, 2);
+    assertEquals(parseClaim(instances[1].displayName)?.ownerId, "owner");
+    assertEquals(instances[0].displayName, "");
+  });
+
+  it("should hand out an instance to a single one of concurrent claimers", async () => {
+    instances = [instance(1)];
+
+    const claimed = await Promise.all([
+      getAvailableInstance(mock.ctx, { ownerId: "a", settleMs: 10 }),
+      getAvailableInstance(mock.ctx, { ownerId: "b", settleMs: 10 }),
+    ]);
+
+    assertEquals(claimed.filter((instance) => instance !== null).length, 1);
+  });
+
+  it("should not overwrite a claim made since the listing", async () => {
+    const claim = formatClaim({ ownerId: "other", expiresAt: new Date(Date.now() + 60_000) });
+    instances = [{ ...instance(1), displayName: claim }, instance(2)];
+    listedInstances = [instance(1), instance(2)];
+
+    const available = await getAvailableInstance(mock.ctx, { ownerId: "owner", settleMs: 0 });
+
+    assertEquals(available?.instanceId, 2);
+    assertEquals(instances[0].displayName, claim);
+    assertEquals(
+      mock.requests.filter((request) => request.method === "PATCH").map((request) => request.path),
+      ["/v1/compute/instances/2"]
+    );
+  });
+
+  it("should reclaim instances whose claim expired", async () => {
+    instances = [
+      { ...instance(1), displayName: formatClaim({ ownerId: "crashed", expiresAt: new Date(Date.now() + 60_000) }) },
+      { ...instance(2), displayName: formatClaim({ ownerId: "crashed", expiresAt: new Date(Date.now() - 60_000) }) },
+    ];
+
+    const available = await getAvailableInstance(mock.ctx, { ownerId: "owner", settleMs: 0 });
+
+    assertEquals(available?.instanceId, 2);
+    assertEquals(parseClaim(available!.displayName)?.ownerId, "owner");
+  });
+
+  it("should release abandoned claims only", async () => {
+    instances = [
+      { ...instance(1), displayName: formatClaim({ ownerId: "alive", expiresAt: new Date(Date.now() + 60_000) }) },
+      { ...instance(2), displayName: formatClaim({ ownerId: "crashed", expiresAt: new Date(Date.now() - 60_000) }) },
+      { ...instance(3), displayName: "claimed" },
+      { ...instance(4), displayName: "cluster-abc-EU-worker" },
+    ];
+
+    const released = await releaseAbandonedClaims(mock.ctx);
+
+    assertEquals(released, [2, 3]);
+    assertEquals(
+      instances.map((instance) => instance.displayName !== ""),
+      [true, false, false, true]
+    );
+  });
+});
+
+describe("Contabo product catalogue", () => {
+  it("should pick the cheapest product with enough resources", () => {
+    assertEquals(findCheapestProduct({ cpuCores: 4, ramMb: 8192, diskMb: 51200 })?.productId, "V91");
+    assertEquals(findCheapestProduct({ cpuCores: 4, ramMb: 8192, diskMb: 102400 })?.productId, "V92");
+    assertEquals(findCheapestProduct({ cpuCores: 6, ramMb: 16384 })?.productId, "V97");
+    assertEquals(findCheapestProduct({ cpuCores: 64 }), undefined);
+  });
+});
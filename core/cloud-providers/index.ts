@@ -1 +1,8 @@
-export * as ContaboProvider from './contabo.ts'
\ No newline at end of file
+export * as ContaboProvider from "./contabo.ts";
+export * as LinodeProvider from "./linode.ts";
+export {
+  DefaultResiliencePolicy,
+  ProviderRateLimitError,
+  ProviderTimeoutError,
+  type ResiliencePolicy,
+} from "./_common.ts";
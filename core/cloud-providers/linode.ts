@@ -0,0 +1,293 @@
+import { encodeBase64 } from "jsr:@std/encoding/base64";
+import { ResiliencePolicy, fetchWithRetry, parseErrorBody, resolvePolicy, waitFor } from "./_common.ts";
+
+export interface LinodeContext {
+  token: string;
+  /**
+   * Base URL of the Linode API, defaults to https://api.linode.com
+   * Can be pointed to a local mock server for testing
+   */
+  apiUrl?: string;
+  /**
+   * Overrides of DefaultResiliencePolicy
+   */
+  policy?: Partial<ResiliencePolicy>;
+}
+
+export type LinodeRegion = "eu-central" | "us-central" | "us-east" | "us-west" | "ap-south";
+
+export interface LinodeInstance {
+  id: number;
+  label: string;
+  region: LinodeRegion;
+  type: string;
+  image: string;
+  status: "running" | "offline" | "booting" | "rebooting" | "shutting_down" | "provisioning" | "deleting";
+  ipv4: string[];
+  ipv6: string;
+  tags: string[];
+  specs: {
+    vcpus: number;
+    memory: number;
+    disk: number;
+    transfer: number;
+  };
+  created: string;
+  updated: string;
+}
+
+export interface LinodeType {
+  id: string;
+  label: string;
+  class: "nanode" | "standard" | "dedicated" | "highmem" | "premium" | "gpu";
+  vcpus: number;
+  /**
+   * Memory in MB
+   */
+  memory: number;
+  /**
+   * Disk in MB
+   */
+  disk: number;
+  price: {
+    hourly: number;
+    monthly: number;
+  };
+}
+
+export interface LinodeImage {
+  /**
+   * Public images are prefixed with linode/ (e.g. linode/ubuntu24.04), private images with private/
+   */
+  id: string;
+  label: string;
+  vendor: string | null;
+  is_public: boolean;
+  deprecated: boolean;
+  status: "available" | "creating" | "pending_upload";
+  size: number;
+}
+
+export interface LinodeResourceRequirements {
+  cpuCores?: number;
+  ramMb?: number;
+  diskMb?: number;
+}
+
+export interface LinodeVpcSubnet {
+  id: number;
+  label: string;
+  ipv4: string;
+  linodes: {
+    id: number;
+    interfaces: { id: number; active: boolean }[];
+  }[];
+}
+
+export interface LinodeVpc {
+  id: number;
+  label: string;
+  description: string;
+  region: LinodeRegion;
+  subnets: LinodeVpcSubnet[];
+  created: string;
+  updated: string;
+}
+
+export interface LinodeVpcIp {
+  address: string | null;
+  active: boolean;
+  linode_id: number;
+  region: LinodeRegion;
+  subnet_id: number;
+  vpc_id: number;
+  prefix: number;
+}
+
+export interface LinodeAccount {
+  euuid: string;
+  email: string;
+}
+
+interface LinodePage<T> {
+  data: T[];
+  page: number;
+  pages: number;
+  results: number;
+}
+
+/**
+ * Error returned by the Linode API
+ */
+export class LinodeApiError extends Error {
+  override name = "LinodeApiError";
+
+  constructor(message: string, readonly status: number, readonly body?: unknown, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+const DEFAULT_API_URL = "https://api.linode.com";
+const DEFAULT_PAGE_SIZE = 100;
+
+async function request<T>(
+  ctx: LinodeContext,
+  method: "GET" | "POST" | "PUT" | "DELETE",
+  path: string,
+  options?: { query?: Record<string, string | number | undefined>; body?: unknown; filter?: Record<string, unknown> }
+): Promise<T> {
+  const url = new URL(path, ctx.apiUrl ?? DEFAULT_API_URL);
+  for (const [key, value] of Object.entries(options?.query ?? {})) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  const response = await fetchWithRetry(
+    url,
+    {
+      method,
+      headers: {
+        authorization: `Bearer ${ctx.token}`,
+        "content-type": "application/json",
+        ...(options?.filter ? { "x-filter": JSON.stringify(options.filter) } : {}),
+      },
+      body: options?.body === undefined ? undefined : JSON.stringify(options.body),
+    },
+    { policy: resolvePolicy(ctx.policy), idempotent: method !== "POST" }
+  );
+  const text = await response.text();
+  if (!response.ok) {
+    const body = parseErrorBody(text);
+    const reason = (body as { errors?: { reason: string }[] } | undefined)?.errors?.map((e) => e.reason).join(", ");
+    throw new LinodeApiError(
+      `${method} ${url.pathname} failed (${response.status}): ${reason ?? response.statusText}`,
+      response.status,
+      body
+    );
+  }
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+async function paginate<T>(ctx: LinodeContext, path: string, filter?: Record<string, unknown>): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await request<LinodePage<T>>(ctx, "GET", path, {
+      query: { page, page_size: DEFAULT_PAGE_SIZE },
+      filter,
+    });
+    items.push(...result.data);
+    if (page >= result.pages) {
+      return items;
+    }
+  }
+}
+
+export async function getAccount(ctx: LinodeContext): Promise<LinodeAccount> {
+  return await request<LinodeAccount>(ctx, "GET", "/v4/account");
+}
+
+export async function listTypes(ctx: LinodeContext): Promise<LinodeType[]> {
+  return await paginate<LinodeType>(ctx, "/v4/linode/types");
+}
+
+/**
+ * Find the cheapest instance type with at least the required resources
+ */
+export async function findCheapestType(
+  ctx: LinodeContext,
+  requirements: LinodeResourceRequirements
+): Promise<LinodeType | undefined> {
+  const types = await listTypes(ctx);
+  return types
+    .filter(
+      (type) =>
+        type.vcpus >= (requirements.cpuCores ?? 0) &&
+        type.memory >= (requirements.ramMb ?? 0) &&
+        type.disk >= (requirements.diskMb ?? 0)
+    )
+    .sort((a, b) => a.price.monthly - b.price.monthly)[0];
+}
+
+export async function listImages(ctx: LinodeContext): Promise<LinodeImage[]> {
+  return await paginate<LinodeImage>(ctx, "/v4/images");
+}
+
+export async function listInstances(ctx: LinodeContext, options?: { tag?: string }): Promise<LinodeInstance[]> {
+  const { tag } = options ?? {};
+  return await paginate<LinodeInstance>(ctx, "/v4/linode/instances", tag ? { tags: tag } : undefined);
+}
+
+export async function getInstance(ctx: LinodeContext, instanceId: number): Promise<LinodeInstance> {
+  try {
+    return await request<LinodeInstance>(ctx, "GET", `/v4/linode/instances/${instanceId}`);
+  } catch (error: unknown) {
+    throw new Error(`Failed to get instance`, { cause: error });
+  }
+}
+
+export async function createInstance(
+  ctx: LinodeContext,
+  options: {
+    label: string;
+    region: LinodeRegion;
+    type: string;
+    image: string;
+    tags: string[];
+    authorizedKeys: string[];
+    rootPass: string;
+    vpcSubnetId: number;
+    /**
+     * cloud-init user-data, served through the metadata service to cloud-init compatible images
+     */
+    userData?: string;
+  }
+): Promise<number> {
+  const { label, region, type, image, tags, authorizedKeys, rootPass, vpcSubnetId, userData } = options;
+  const instance = await request<LinodeInstance>(ctx, "POST", "/v4/linode/instances", {
+    body: {
+      label,
+      region,
+      type,
+      image,
+      tags,
+      authorized_keys: authorizedKeys,
+      root_pass: rootPass,
+      booted: true,
+      ...(userData ? { metadata: { user_data: encodeBase64(userData) } } : {}),
+      interfaces: [
+        { purpose: "public" },
+        { purpose: "vpc", subnet_id: vpcSubnetId, ipv4: { nat_1_1: "any" } },
+      ],
+    },
+  });
+  await waitFor(
+    `instance ${instance.id} to be running`,
+    async () => (await getInstance(ctx, instance.id)).status === "running",
+    resolvePolicy(ctx.policy)
+  );
+  return instance.id;
+}
+
+export async function deleteInstance(ctx: LinodeContext, instanceId: number): Promise<void> {
+  await request(ctx, "DELETE", `/v4/linode/instances/${instanceId}`);
+}
+
+export async function listVpcs(ctx: LinodeContext, options?: { label?: string }): Promise<LinodeVpc[]> {
+  const { label } = options ?? {};
+  return await paginate<LinodeVpc>(ctx, "/v4/vpcs", label ? { label } : undefined);
+}
+
+export async function getVpc(ctx: LinodeContext, vpcId: number): Promise<LinodeVpc> {
+  return await request<LinodeVpc>(ctx, "GET", `/v4/vpcs/${vpcId}`);
+}
+
+export async function createVpc(
+  ctx: LinodeContext,
+  options: { label: string; region: LinodeRegion; subnets: { label: string; ipv4: string }[] }
+): Promise<LinodeVpc> {
+  return await request<LinodeVpc>(ctx, "POST", "/v4/vpcs", { body: options });
+}
+
+export async function listVpcIps(ctx: LinodeContext, vpcId: number): Promise<LinodeVpcIp[]> {
+  return await paginate<LinodeVpcIp>(ctx, `/v4/vpcs/${vpcId}/ips`);
+}
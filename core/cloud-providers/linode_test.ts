@@ -0,0 +1,33 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { LinodeApiError, LinodeContext, getInstance } from "./linode.ts";
+
+describe("Linode API client", () => {
+  let server: Deno.HttpServer<Deno.NetAddr>;
+  let ctx: LinodeContext;
+
+  beforeEach(() => {
+    // a proxy in front of the API answering with an HTML page
+    server = Deno.serve({ port: 0, onListen: () => {} }, () =>
+      new Response("<html><body>502 Bad Gateway</body></html>", {
+        status: 502,
+        statusText: "Bad Gateway",
+        headers: { "content-type": "text/html" },
+      })
+    );
+    ctx = { token: "token", apiUrl: `http://localhost:${server.addr.port}`, policy: { retries: 0 } };
+  });
+
+  afterEach(async () => {
+    await server.shutdown();
+  });
+
+  it("should throw a structured error on error responses that are not JSON", async () => {
+    const error = await assertRejects(() => getInstance(ctx, 1), Error);
+
+    assertInstanceOf(error.cause, LinodeApiError);
+    assertEquals(error.cause.status, 502);
+    assertEquals(error.cause.body, "<html><body>502 Bad Gateway</body></html>");
+    assertEquals(error.cause.message, "GET /v4/linode/instances/1 failed (502): Bad Gateway");
+  });
+});
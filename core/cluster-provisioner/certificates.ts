@@ -0,0 +1,299 @@
+import { API_SERVER_READY_COMMAND } from "./upgrade.ts";
+
+/**
+ * Certificates kubeadm can renew, kubeconfig files embed the client certificate of their user
+ */
+export const RENEWABLE_CERTIFICATES = [
+  "admin.conf",
+  "super-admin.conf",
+  "apiserver",
+  "apiserver-etcd-client",
+  "apiserver-kubelet-client",
+  "front-proxy-client",
+  "controller-manager.conf",
+  "scheduler.conf",
+  "etcd-server",
+  "etcd-peer",
+  "etcd-healthcheck-client",
+] as const;
+
+export type CertificateName = (typeof RENEWABLE_CERTIFICATES)[number];
+
+/**
+ * Certificates of the etcd members, the only ones on external etcd nodes
+ */
+export const ETCD_CERTIFICATES: CertificateName[] = ["etcd-server", "etcd-peer", "etcd-healthcheck-client"];
+
+/**
+ * Control plane static pods, in the order they restart: etcd before the API server using it, the API server before
+ * the components reaching it
+ */
+export const STATIC_PODS = ["etcd", "kube-apiserver", "kube-controller-manager", "kube-scheduler"] as const;
+
+export type StaticPod = (typeof STATIC_PODS)[number];
+
+/**
+ * Static pods loading each certificate at startup, the others are read by clients on every use
+ */
+const CERTIFICATE_USERS: Record<CertificateName, StaticPod[]> = {
+  "admin.conf": [],
+  "super-admin.conf": [],
+  apiserver: ["kube-apiserver"],
+  "apiserver-etcd-client": ["kube-apiserver"],
+  "apiserver-kubelet-client": ["kube-apiserver"],
+  "front-proxy-client": ["kube-apiserver"],
+  "controller-manager.conf": ["kube-controller-manager"],
+  "scheduler.conf": ["kube-scheduler"],
+  "etcd-server": ["etcd"],
+  "etcd-peer": ["etcd"],
+  "etcd-healthcheck-client": [],
+};
+
+export interface CertificateExpiration {
+  name: string;
+  expiresAt: Date;
+  /**
+   * CA the certificate is signed with, unset for the CAs themselves
+   */
+  certificateAuthority?: string;
+  isCertificateAuthority: boolean;
+  /**
+   * kubeadm cannot renew certificates whose CA key is not on the node
+   */
+  externallyManaged: boolean;
+}
+
+export interface NodeCertificates {
+  nodeId: string;
+  publicIp: string;
+  certificates: CertificateExpiration[];
+}
+
+/**
+ * Certificates expiring sooner are flagged in the report
+ */
+export const CERTIFICATE_EXPIRY_WARNING_DAYS = 30;
+
+const PKI_DIR = "/etc/kubernetes/pki";
+
+const MANIFESTS_DIR = "/etc/kubernetes/manifests";
+const CRICTL = "crictl --runtime-endpoint unix:///run/containerd/containerd.sock";
+
+export const getPkiPath = (file: string) => `${PKI_DIR}/${file}`;
+
+/**
+ * Shell command printing the expiry of the certificates of the node as JSON
+ * @param configuration kubeadm configuration file of the node, for etcd nodes which have no cluster to read it from
+ */
+export function checkExpirationCommand(configuration?: string): string {
+  return `kubeadm certs check-expiration -o json${configuration ? ` --config ${configuration}` : ""}`;
+}
+
+interface CertificateExpirationInfo {
+  certificates?: CertificateExpirationItem[];
+  certificateAuthorities?: CertificateExpirationItem[];
+}
+
+interface CertificateExpirationItem {
+  name: string;
+  expirationDate: string;
+  certificateAuthority?: string;
+  externallyManaged?: boolean;
+  missing?: boolean;
+}
+
+/**
+ * Parse the output of `kubeadm certs check-expiration -o json`, certificates missing from the node are left out
+ */
+export function parseCertificateExpiration(output: string): CertificateExpiration[] {
+  const info: CertificateExpirationInfo = JSON.parse(output);
+  const parse = (item: CertificateExpirationItem, isCertificateAuthority: boolean): CertificateExpiration => ({
+    name: item.name,
+    expiresAt: new Date(item.expirationDate),
+    ...(item.certificateAuthority ? { certificateAuthority: item.certificateAuthority } : {}),
+    isCertificateAuthority,
+    externallyManaged: !!item.externallyManaged,
+  });
+  return [
+    ...(info.certificates ?? []).filter((item) => !item.missing).map((item) => parse(item, false)),
+    ...(info.certificateAuthorities ?? []).filter((item) => !item.missing).map((item) => parse(item, true)),
+  ];
+}
+
+/**
+ * Report the certificates of every node, soonest expiry first
+ */
+export function formatCertificateReport(reports: NodeCertificates[], now = new Date()): string {
+  const width = Math.max(0, ...reports.flatMap((report) => report.certificates.map(({ name }) => name.length)));
+  return reports
+    .map((report) => {
+      const lines = [...report.certificates]
+        .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+        .map((certificate) => {
+          const days = Math.floor((certificate.expiresAt.getTime() - now.getTime()) / 86_400_000);
+          const flag = days < 0 ? "!" : days < CERTIFICATE_EXPIRY_WARNING_DAYS ? "~" : " ";
+          const expiry = days < 0 ? "expired" : `${days} days left`;
+          const date = certificate.expiresAt.toISOString().slice(0, 10);
+          const ca = certificate.isCertificateAuthority ? ", CA" : "";
+          const external = certificate.externallyManaged ? ", externally managed" : "";
+          return `${flag} ${certificate.name.padEnd(width)}  ${date} (${expiry}${ca}${external})`;
+        });
+      return [report.publicIp, ...lines].join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Static pods to restart once the certificates are renewed, in restart order
+ */
+export function getStaticPodsToRestart(names: CertificateName[]): StaticPod[] {
+  return STATIC_PODS.filter((pod) => names.some((name) => CERTIFICATE_USERS[name].includes(pod)));
+}
+
+/**
+ * Shell command renewing the certificates with the CA of the node
+ * @param configuration kubeadm configuration file of the node, for etcd nodes which have no cluster to read it from
+ */
+export function renewCertificatesCommand(names: CertificateName[] | "all", configuration?: string): string {
+  const config = configuration ? ` --config ${configuration}` : "";
+  if (names === "all") {
+    return `kubeadm certs renew all${config}`;
+  }
+  return names.map((name) => `kubeadm certs renew ${name}${config}`).join(" && ");
+}
+
+/**
+ * Shell command restarting a static pod and waiting for it to run again
+ * The kubelet only restarts static pods whose manifest changes, the manifest is moved out until the pod stops.
+ * @param sedScript applied to the manifest before it is moved back
+ */
+export function restartStaticPodCommand(pod: StaticPod, sedScript?: string): string {
+  const manifest = `${MANIFESTS_DIR}/${pod}.yaml`;
+  const parked = `/etc/kubernetes/${pod}.yaml.restarting`;
+  const running = `[ -n "$(${CRICTL} ps -q --state running --name '^${pod}$')" ]`;
+  // the API server runs before it serves, it has to be ready before the next component restarts
+  const ready = pod === "kube-apiserver" ? `${running} && ${API_SERVER_READY_COMMAND} >/dev/null` : running;
+  return [
+    `mv ${manifest} ${parked}`,
+    `for attempt in $(seq 60); do ${running} || break; sleep 2; done`,
+    ...(sedScript ? [`sed -i '${sedScript}' ${parked}`] : []),
+    `mv ${parked} ${manifest}`,
+    `for attempt in $(seq 90); do ${ready} && exit 0; sleep 2; done`,
+    "exit 1",
+  ].join("; ");
+}
+
+/**
+ * Phases of a CA rotation, each one runs on the whole cluster before the next one starts:
+ * - `trust`: a new CA is created, every component and kubelet trusts both the current and the new CA
+ * - `reissue`: the new CA signs every certificate and kubelet credential, the previous CA is still trusted
+ * - `finalize`: the previous CA is no longer trusted
+ * Pods using in-cluster credentials are restarted by the user between phases, their service account token carries
+ * the trusted CAs of the time they started.
+ */
+export const CA_ROTATION_PHASES = ["trust", "reissue", "finalize"] as const;
+
+export type CaRotationPhase = (typeof CA_ROTATION_PHASES)[number];
+
+/**
+ * CA created by the trust phase, signing certificates from the reissue phase
+ */
+export const NEXT_CA_FILES = ["ca-next.crt", "ca-next.key"];
+
+/**
+ * Current and new CA, trusted during the rotation
+ */
+export const CA_BUNDLE_FILE = "ca-bundle.crt";
+
+/**
+ * Kubeconfig files of the control plane components, their embedded CA has to verify the API server certificate
+ */
+export const CONTROL_PLANE_KUBECONFIGS = [
+  "admin.conf",
+  "super-admin.conf",
+  "controller-manager.conf",
+  "scheduler.conf",
+];
+
+export const KUBELET_KUBECONFIG = "kubelet.conf";
+
+/**
+ * Shell command creating the new CA on the first control plane, unless a previous run created it
+ * The CA matches the ones kubeadm generates: RSA 2048, CN kubernetes, valid for 10 years
+ */
+export function createNextCaCommand(): string {
+  const [certificate, key] = NEXT_CA_FILES.map((file) => `${PKI_DIR}/${file}`);
+  return [
+    `if [ ! -f ${key} ]; then`,
+    `openssl genrsa -out ${key} 2048 &&`,
+    `openssl req -x509 -new -key ${key} -subj /CN=kubernetes -days 3650 -out ${certificate}`,
+    `-addext 'basicConstraints=critical,CA:TRUE'`,
+    `-addext 'keyUsage=critical,digitalSignature,keyEncipherment,keyCertSign';`,
+    `fi`,
+  ].join(" ");
+}
+
+/**
+ * Shell command writing the bundle of the current and the new CA on a control plane
+ */
+export function createCaBundleCommand(): string {
+  return `cat ${PKI_DIR}/ca.crt ${PKI_DIR}/ca-next.crt > ${PKI_DIR}/${CA_BUNDLE_FILE}`;
+}
+
+/**
+ * Shell command making the new CA the signing CA of a control plane, the previous one is kept until the rotation ends
+ */
+export function promoteNextCaCommand(): string {
+  return [
+    `if [ -f ${PKI_DIR}/ca-next.key ]; then`,
+    `mv ${PKI_DIR}/ca.crt ${PKI_DIR}/ca-previous.crt && mv ${PKI_DIR}/ca.key ${PKI_DIR}/ca-previous.key &&`,
+    `mv ${PKI_DIR}/ca-next.crt ${PKI_DIR}/ca.crt && mv ${PKI_DIR}/ca-next.key ${PKI_DIR}/ca.key;`,
+    `fi`,
+  ].join(" ");
+}
+
+/**
+ * Shell command removing the CA files of the rotation from a node
+ */
+export function removeRotationFilesCommand(): string {
+  const files = ["ca-previous.crt", "ca-previous.key", CA_BUNDLE_FILE];
+  return `rm -f ${files.map((file) => `${PKI_DIR}/${file}`).join(" ")}`;
+}
+
+/**
+ * sed script pointing the client CA flags of the API server and the controller manager at the CA file
+ * The signing CA of the controller manager is left as is, it has to be a single certificate
+ */
+export function caFlagsSedScript(caFile: string): string {
+  return `s#--client-ca-file=.*#--client-ca-file=${caFile}#;s#--root-ca-file=.*#--root-ca-file=${caFile}#`;
+}
+
+/**
+ * Shell command embedding the CA file in the given kubeconfig files of the node, the ones missing are skipped
+ */
+export function embedCaCommand(caFile: string, kubeconfigs: string[]): string {
+  return [
+    `ca="$(base64 -w0 ${caFile})";`,
+    `for file in ${kubeconfigs.map((file) => `/etc/kubernetes/${file}`).join(" ")}; do`,
+    `if [ -f "$file" ]; then sed -i "s#certificate-authority-data: .*#certificate-authority-data: $ca#" "$file"; fi;`,
+    `done`,
+  ].join(" ");
+}
+
+/**
+ * Shell command pointing the kubelet at the CA verifying the clients of its API, the kubelet restarts to load it
+ * along with its kubeconfig
+ */
+export function restartKubeletWithCaCommand(caFile: string): string {
+  const kubeletConfiguration = "/var/lib/kubelet/config.yaml";
+  return `sed -i 's#^clientCAFile: .*#clientCAFile: ${caFile}#' ${kubeletConfiguration} && systemctl restart kubelet`;
+}
+
+/**
+ * Shell command replacing the kubelet credentials of the node with the kubeconfig read from stdin
+ * The client certificates rotated by the kubelet are removed, it would keep using them over the kubeconfig.
+ * The kubeconfig holds a private key, it must never be part of the command line
+ */
+export function writeKubeletKubeconfigCommand(): string {
+  return "rm -f /var/lib/kubelet/pki/kubelet-client-* && umask 077 && cat > /etc/kubernetes/kubelet.conf";
+}
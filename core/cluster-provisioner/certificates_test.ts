@@ -0,0 +1,115 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import {
+  formatCertificateReport,
+  getStaticPodsToRestart,
+  parseCertificateExpiration,
+  renewCertificatesCommand,
+  restartStaticPodCommand,
+  writeKubeletKubeconfigCommand,
+} from "./certificates.ts";
+
+const CHECK_EXPIRATION = JSON.stringify({
+  kind: "CertificateExpirationInfo",
+  apiVersion: "output.kubeadm.k8s.io/v1alpha2",
+  certificates: [
+    {
+      name: "admin.conf",
+      expirationDate: "2027-01-10T09:00:00Z",
+      residualTime: 7_000_000_000_000_000,
+      certificateAuthority: "ca",
+      externallyManaged: false,
+    },
+    { name: "apiserver", expirationDate: "2026-11-01T09:00:00Z", certificateAuthority: "ca", externallyManaged: false },
+    { name: "etcd-server", expirationDate: "", certificateAuthority: "etcd-ca", missing: true },
+  ],
+  certificateAuthorities: [{ name: "ca", expirationDate: "2035-01-08T09:00:00Z", externallyManaged: false }],
+});
+
+describe("Certificates", () => {
+  it("should parse the expiry reported by kubeadm, leaving out missing certificates", () => {
+    assertEquals(parseCertificateExpiration(CHECK_EXPIRATION), [
+      {
+        name: "admin.conf",
+        expiresAt: new Date("2027-01-10T09:00:00Z"),
+        certificateAuthority: "ca",
+        isCertificateAuthority: false,
+        externallyManaged: false,
+      },
+      {
+        name: "apiserver",
+        expiresAt: new Date("2026-11-01T09:00:00Z"),
+        certificateAuthority: "ca",
+        isCertificateAuthority: false,
+        externallyManaged: false,
+      },
+      {
+        name: "ca",
+        expiresAt: new Date("2035-01-08T09:00:00Z"),
+        isCertificateAuthority: true,
+        externallyManaged: false,
+      },
+    ]);
+  });
+
+  it("should report the certificates expiring first and flag the ones expiring soon", () => {
+    const certificates = parseCertificateExpiration(CHECK_EXPIRATION);
+
+    const report = formatCertificateReport(
+      [{ nodeId: "n1", publicIp: "203.0.113.1", certificates }],
+      new Date("2026-10-19T09:00:00Z")
+    );
+
+    assertEquals(report.split("\n"), [
+      "203.0.113.1",
+      "~ apiserver   2026-11-01 (13 days left)",
+      "  admin.conf  2027-01-10 (83 days left)",
+      "  ca          2035-01-08 (3003 days left, CA)",
+    ]);
+    assertStringIncludes(
+      formatCertificateReport([{ nodeId: "n1", publicIp: "203.0.113.1", certificates }], new Date("2027-01-01")),
+      "! apiserver   2026-11-01 (expired)"
+    );
+  });
+
+  it("should restart the static pods using the renewed certificates in order", () => {
+    assertEquals(getStaticPodsToRestart(["scheduler.conf", "apiserver", "etcd-peer", "admin.conf"]), [
+      "etcd",
+      "kube-apiserver",
+      "kube-scheduler",
+    ]);
+    assertEquals(getStaticPodsToRestart(["admin.conf", "etcd-healthcheck-client"]), []);
+    assertEquals(
+      renewCertificatesCommand(["etcd-server", "etcd-peer"], "/etc/kubernetes/kubeadm-etcd.yaml"),
+      "kubeadm certs renew etcd-server --config /etc/kubernetes/kubeadm-etcd.yaml && " +
+        "kubeadm certs renew etcd-peer --config /etc/kubernetes/kubeadm-etcd.yaml"
+    );
+    assertEquals(renewCertificatesCommand("all"), "kubeadm certs renew all");
+  });
+
+  it("should edit the manifest of a static pod while it is stopped", () => {
+    const command = restartStaticPodCommand("kube-controller-manager", "s#--root-ca-file=.*#--root-ca-file=ca.crt#");
+
+    assertEquals(
+      command.split("; ")[0],
+      "mv /etc/kubernetes/manifests/kube-controller-manager.yaml " +
+        "/etc/kubernetes/kube-controller-manager.yaml.restarting"
+    );
+    assertStringIncludes(
+      command,
+      "sleep 2; done; " +
+        "sed -i 's#--root-ca-file=.*#--root-ca-file=ca.crt#' " +
+        "/etc/kubernetes/kube-controller-manager.yaml.restarting; " +
+        "mv /etc/kubernetes/kube-controller-manager.yaml.restarting " +
+        "/etc/kubernetes/manifests/kube-controller-manager.yaml"
+    );
+    assertStringIncludes(restartStaticPodCommand("kube-apiserver"), "https://127.0.0.1:6443/readyz");
+  });
+
+  it("should read kubelet credentials from stdin", () => {
+    assertEquals(
+      writeKubeletKubeconfigCommand(),
+      "rm -f /var/lib/kubelet/pki/kubelet-client-* && umask 077 && cat > /etc/kubernetes/kubelet.conf"
+    );
+  });
+});
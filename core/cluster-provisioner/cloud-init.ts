@@ -0,0 +1,125 @@
+import { stringify } from "jsr:@std/yaml";
+
+export interface CloudInitOptions {
+  /**
+   * Kubernetes version the node will join, kubeadm, kubelet and kubectl are pinned to it
+   */
+  k8sVersion: string;
+  /**
+   * Version of the containerd package, defaults to the version shipped by the distribution
+   * The package is held in both cases so that unattended upgrades never restart the runtime
+   */
+  containerdVersion?: string;
+  /**
+   * Public SSH keys authorized for root, on top of the ones registered by the provider
+   */
+  sshAuthorizedKeys?: string[];
+}
+
+/**
+ * Kernel modules and sysctls required by containerd and kube-proxy, checked again by the preflight checks
+ */
+export const KERNEL_MODULES = ["overlay", "br_netfilter"];
+
+export const SYSCTLS = {
+  "net.bridge.bridge-nf-call-iptables": 1,
+  "net.bridge.bridge-nf-call-ip6tables": 1,
+  "net.ipv4.ip_forward": 1,
+};
+
+const KUBERNETES_KEYRING = "/etc/apt/keyrings/kubernetes-apt-keyring.gpg";
+
+/**
+ * pkgs.k8s.io hosts one repository per minor version, packages are suffixed with their build revision
+ */
+function getKubernetesRepository(k8sVersion: string) {
+  const version = k8sVersion.replace(/^v/, "");
+  const minor = version.split(".").slice(0, 2).join(".");
+  if (!/^\d+\.\d+\.\d+$/.test(version)) {
+    throw new Error(`Invalid Kubernetes version ${k8sVersion}, expected <major>.<minor>.<patch>`);
+  }
+  return {
+    url: `https://pkgs.k8s.io/core:/stable:/v${minor}/deb/`,
+    packageVersion: `${version}-1.1`,
+  };
+}
+
+/**
+ * Shell commands fetching the signing key of the repository then adding it to the apt sources
+ * The source is only written once its keyring exists, apt fails on a `signed-by` keyring that is missing
+ */
+const addKubernetesRepositoryCommands = (repository: ReturnType<typeof getKubernetesRepository>) => [
+  `curl -fsSL ${repository.url}Release.key | gpg --dearmor --yes -o ${KUBERNETES_KEYRING}`,
+  `echo 'deb [signed-by=${KUBERNETES_KEYRING}] ${repository.url} /' > /etc/apt/sources.list.d/kubernetes.list`,
+];
+
+const KUBE_PACKAGES = ["kubelet", "kubeadm", "kubectl"] as const;
+
+export type KubePackage = (typeof KUBE_PACKAGES)[number];
+
+/**
+ * Shell command moving the node to the repository of the Kubernetes version and installing the packages from it
+ * The packages are held again afterwards, like on a bootstrapped node
+ */
+export function installKubePackagesCommand(k8sVersion: string, packages: KubePackage[]): string {
+  const repository = getKubernetesRepository(k8sVersion);
+  return [
+    ...addKubernetesRepositoryCommands(repository),
+    "apt-get update",
+    `apt-mark unhold ${packages.join(" ")}`,
+    `apt-get install -y ${packages.map((name) => `${name}=${repository.packageVersion}`).join(" ")}`,
+    `apt-mark hold ${packages.join(" ")}`,
+  ].join(" && ");
+}
+
+/**
+ * Render the cloud-init user-data bootstrapping a node up to the point where `kubeadm init` or `kubeadm join` can run:
+ * swap disabled, kernel modules and sysctls set, containerd and the kube packages installed and held
+ */
+export function renderCloudInit(options: CloudInitOptions): string {
+  const { k8sVersion, containerdVersion, sshAuthorizedKeys = [] } = options;
+  const repository = getKubernetesRepository(k8sVersion);
+  const kubePackages = KUBE_PACKAGES;
+  const containerdPackage = containerdVersion ? `containerd=${containerdVersion}` : "containerd";
+
+  const config = {
+    package_update: true,
+    packages: ["apt-transport-https", "ca-certificates", "curl", "gpg", "nftables"],
+    ...(sshAuthorizedKeys.length > 0 ? { ssh_authorized_keys: sshAuthorizedKeys } : {}),
+    write_files: [
+      {
+        path: "/etc/modules-load.d/kubernetes.conf",
+        content: KERNEL_MODULES.map((module) => `${module}\n`).join(""),
+      },
+      {
+        path: "/etc/sysctl.d/99-kubernetes.conf",
+        content: Object.entries(SYSCTLS)
+          .map(([key, value]) => `${key} = ${value}\n`)
+          .join(""),
+      },
+    ],
+    runcmd: [
+      // kubelet refuses to start with swap enabled
+      "swapoff -a",
+      "sed -i '/\\sswap\\s/ s/^#*/#/' /etc/fstab",
+      ...KERNEL_MODULES.map((module) => `modprobe ${module}`),
+      "sysctl --system",
+      "mkdir -p -m 755 /etc/apt/keyrings",
+      ...addKubernetesRepositoryCommands(repository),
+      "apt-get update",
+      [
+        "apt-get install -y",
+        containerdPackage,
+        ...kubePackages.map((name) => `${name}=${repository.packageVersion}`),
+      ].join(" "),
+      ["apt-mark hold", "containerd", ...kubePackages].join(" "),
+      // kubelet uses the systemd cgroup driver since 1.22, containerd has to match it
+      "mkdir -p /etc/containerd",
+      "containerd config default | sed 's/SystemdCgroup = false/SystemdCgroup = true/' > /etc/containerd/config.toml",
+      "systemctl restart containerd",
+      "systemctl enable --now kubelet",
+    ],
+  };
+
+  return `#cloud-config\n${stringify(config)}`;
+}
@@ -0,0 +1,100 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { parse } from "jsr:@std/yaml";
+import { installKubePackagesCommand, renderCloudInit } from "./cloud-init.ts";
+
+interface CloudConfig {
+  ssh_authorized_keys?: string[];
+  write_files: { path: string; content: string }[];
+  runcmd: string[];
+}
+
+const render = (...args: Parameters<typeof renderCloudInit>) => {
+  const userData = renderCloudInit(...args);
+  return { userData, config: parse(userData) as CloudConfig };
+};
+
+describe("cloud-init rendering", () => {
+  it("should render a cloud-config document", () => {
+    const { userData } = render({ k8sVersion: "1.31.4" });
+
+    assertEquals(userData.split("\n")[0], "#cloud-config");
+  });
+
+  it("should install and hold the kube packages of the Kubernetes version", () => {
+    const { config } = render({ k8sVersion: "v1.30.8" });
+
+    const repository = config.runcmd.find((command) => command.endsWith("/etc/apt/sources.list.d/kubernetes.list"))!;
+    assertStringIncludes(repository, "https://pkgs.k8s.io/core:/stable:/v1.30/deb/ /");
+    assertEquals(
+      config.runcmd.find((command) => command.startsWith("apt-get install")),
+      "apt-get install -y containerd kubelet=1.30.8-1.1 kubeadm=1.30.8-1.1 kubectl=1.30.8-1.1"
+    );
+    assertEquals(
+      config.runcmd.find((command) => command.startsWith("apt-mark hold")),
+      "apt-mark hold containerd kubelet kubeadm kubectl"
+    );
+  });
+
+  it("should only add the repository once its keyring exists", () => {
+    const { config } = render({ k8sVersion: "1.31.4" });
+
+    const index = (suffix: string) => config.runcmd.findIndex((command) => command.endsWith(suffix));
+    const keyring = index("/etc/apt/keyrings/kubernetes-apt-keyring.gpg");
+    const source = index("/etc/apt/sources.list.d/kubernetes.list");
+    assertEquals(config.write_files.some((file) => file.path.startsWith("/etc/apt/")), false);
+    assertEquals(keyring >= 0 && keyring < source, true);
+    assertEquals(config.runcmd[source + 1], "apt-get update");
+  });
+
+  it("should switch the repository to the minor version when upgrading packages", () => {
+    const command = installKubePackagesCommand("1.32.0", ["kubelet", "kubectl"]).split(" && ");
+
+    assertEquals(
+      command[1],
+      "echo 'deb [signed-by=/etc/apt/keyrings/kubernetes-apt-keyring.gpg] " +
+        "https://pkgs.k8s.io/core:/stable:/v1.32/deb/ /' > /etc/apt/sources.list.d/kubernetes.list"
+    );
+    assertEquals(command.slice(3), [
+      "apt-mark unhold kubelet kubectl",
+      "apt-get install -y kubelet=1.32.0-1.1 kubectl=1.32.0-1.1",
+      "apt-mark hold kubelet kubectl",
+    ]);
+  });
+
+  it("should pin containerd when a version is given", () => {
+    const { config } = render({ k8sVersion: "1.31.4", containerdVersion: "1.7.24-0ubuntu1" });
+
+    assertStringIncludes(
+      config.runcmd.find((command) => command.startsWith("apt-get install"))!,
+      "containerd=1.7.24-0ubuntu1"
+    );
+  });
+
+  it("should disable swap, load kernel modules and set sysctls before installing packages", () => {
+    const { config } = render({ k8sVersion: "1.31.4" });
+
+    const modules = config.write_files.find((file) => file.path === "/etc/modules-load.d/kubernetes.conf")!;
+    const sysctls = config.write_files.find((file) => file.path === "/etc/sysctl.d/99-kubernetes.conf")!;
+    assertEquals(modules.content, "overlay\nbr_netfilter\n");
+    assertStringIncludes(sysctls.content, "net.ipv4.ip_forward = 1");
+    assertStringIncludes(sysctls.content, "net.bridge.bridge-nf-call-iptables = 1");
+    const install = config.runcmd.findIndex((command) => command.startsWith("apt-get install"));
+    for (const command of ["swapoff -a", "modprobe overlay", "modprobe br_netfilter", "sysctl --system"]) {
+      const index = config.runcmd.indexOf(command);
+      assertEquals(index >= 0 && index < install, true, `${command} should run before the install`);
+    }
+  });
+
+  it("should only authorize extra ssh keys when given", () => {
+    assertEquals(render({ k8sVersion: "1.31.4" }).config.ssh_authorized_keys, undefined);
+    assertEquals(
+      render({ k8sVersion: "1.31.4", sshAuthorizedKeys: ["ssh-ed25519 AAAA"] }).config.ssh_authorized_keys,
+      ["ssh-ed25519 AAAA"]
+    );
+  });
+
+  it("should reject invalid Kubernetes versions", () => {
+    assertThrows(() => renderCloudInit({ k8sVersion: "1.31" }), Error, "Invalid Kubernetes version");
+  });
+});
@@ -0,0 +1,226 @@
+import { stringify } from "jsr:@std/yaml";
+import { Node } from "../node-provisioners/index.ts";
+import { getKubeadmApiVersion } from "./kubeadm.ts";
+
+export interface EtcdMember {
+  name: string;
+  /**
+   * Private IP of the node, members and API servers reach etcd over the private network
+   */
+  ip: string;
+}
+
+export interface EtcdConfigurationOptions {
+  k8sVersion: string;
+  member: EtcdMember;
+  /**
+   * Every member of the etcd cluster once the member started, including itself
+   */
+  members: EtcdMember[];
+  /**
+   * `new` when the members bootstrap the cluster together, `existing` when the member joins a running cluster
+   */
+  state: "new" | "existing";
+}
+
+/**
+ * Member as listed by `etcdctl member list`
+ */
+export interface EtcdMemberStatus {
+  id: string;
+  status: string;
+  name: string;
+  peerUrl: string;
+}
+
+const PKI_DIR = "/etc/kubernetes/pki";
+
+/**
+ * Path of the kubeadm configuration rendering the certificates and the static pod of the member
+ */
+export const ETCD_CONFIGURATION_FILE = "/etc/kubernetes/kubeadm-etcd.yaml";
+
+/**
+ * Kubelet drop-in of etcd nodes, the kubelet only runs static pods since the node never joins Kubernetes
+ */
+export const ETCD_SERVICE_MANAGER_DROPIN = "/etc/systemd/system/kubelet.service.d/20-etcd-service-manager.conf";
+
+const ETCD_MANIFEST = "/etc/kubernetes/manifests/etcd.yaml";
+
+const ETCD_KUBELET_CONFIGURATION_FILE = "/etc/kubernetes/etcd-kubelet.yaml";
+
+/**
+ * CA of the etcd cluster, every member signs its own certificates with it
+ */
+export const ETCD_CA_FILES = ["etcd/ca.crt", "etcd/ca.key"];
+
+/**
+ * Files the API servers need to reach etcd, kubeadm shares them between control planes with the other certificates
+ */
+export const APISERVER_ETCD_CLIENT_FILES = ["etcd/ca.crt", "apiserver-etcd-client.crt", "apiserver-etcd-client.key"];
+
+/**
+ * Members of the external etcd cluster run on etcd-only nodes, control planes with the etcd role run the etcd
+ * stacked by kubeadm
+ */
+export const isExternalEtcdNode = (node: Pick<Node, "roles">) =>
+  node.roles.includes("etcd") && !node.roles.includes("control-plane");
+
+export const getEtcdMember = (node: Node): EtcdMember => ({
+  name: `etcd-${node.privateIp.replaceAll(".", "-")}`,
+  ip: node.privateIp,
+});
+
+export const getEtcdEndpoints = (members: EtcdMember[]) => members.map((member) => `https://${member.ip}:2379`);
+
+export const getEtcdPeerUrl = (member: EtcdMember) => `https://${member.ip}:2380`;
+
+/**
+ * Render the kubeadm configuration of a member, read by the `kubeadm init phase certs` and `etcd local` phases
+ */
+export function renderEtcdConfiguration(options: EtcdConfigurationOptions): string {
+  const { k8sVersion, member, members, state } = options;
+  const apiVersion = getKubeadmApiVersion(k8sVersion);
+  const args = {
+    name: member.name,
+    "initial-cluster": members.map((other) => `${other.name}=${getEtcdPeerUrl(other)}`).join(","),
+    "initial-cluster-state": state,
+    "listen-peer-urls": getEtcdPeerUrl(member),
+    "listen-client-urls": `https://${member.ip}:2379`,
+    "advertise-client-urls": `https://${member.ip}:2379`,
+    "initial-advertise-peer-urls": getEtcdPeerUrl(member),
+  };
+  // v1beta4 turned extra args into a list to allow repeating them
+  const extraArgs = apiVersion === "kubeadm.k8s.io/v1beta4"
+    ? Object.entries(args).map(([name, value]) => ({ name, value }))
+    : args;
+
+  return [
+    stringify({
+      apiVersion,
+      kind: "InitConfiguration",
+      nodeRegistration: { name: member.name },
+      localAPIEndpoint: { advertiseAddress: member.ip },
+    }),
+    stringify({
+      apiVersion,
+      kind: "ClusterConfiguration",
+      kubernetesVersion: k8sVersion,
+      etcd: { local: { serverCertSANs: [member.ip], peerCertSANs: [member.ip], extraArgs } },
+    }),
+  ].join("---\n");
+}
+
+/**
+ * Shell command running the kubelet standalone, it starts the etcd static pod without any API server
+ */
+export function etcdServiceManagerCommand(): string {
+  const configuration = stringify({
+    apiVersion: "kubelet.config.k8s.io/v1beta1",
+    kind: "KubeletConfiguration",
+    authentication: { anonymous: { enabled: false }, webhook: { enabled: false } },
+    authorization: { mode: "AlwaysAllow" },
+    cgroupDriver: "systemd",
+    address: "127.0.0.1",
+    containerRuntimeEndpoint: "unix:///run/containerd/containerd.sock",
+    staticPodPath: "/etc/kubernetes/manifests",
+  });
+  const dropIn = [
+    "[Service]",
+    "ExecStart=",
+    `ExecStart=/usr/bin/kubelet --config=${ETCD_KUBELET_CONFIGURATION_FILE}`,
+    "Restart=always",
+    "",
+  ].join("\n");
+  return [
+    `mkdir -p /etc/kubernetes /etc/systemd/system/kubelet.service.d`,
+    `cat > ${ETCD_KUBELET_CONFIGURATION_FILE} <<'EOF'\n${configuration}EOF`,
+    `cat > ${ETCD_SERVICE_MANAGER_DROPIN} <<'EOF'\n${dropIn}EOF`,
+    `systemctl daemon-reload`,
+    `systemctl restart kubelet`,
+  ].join("\n");
+}
+
+/**
+ * Shell command creating the etcd CA and the client certificate of the API servers, run on the first member
+ */
+export function createEtcdCaCommand(): string {
+  return "kubeadm init phase certs etcd-ca && kubeadm init phase certs apiserver-etcd-client";
+}
+
+/**
+ * Shell command printing the given files of the PKI as a base64 archive, see extractPkiCommand
+ */
+export function archivePkiCommand(files: string[]): string {
+  return `tar -C ${PKI_DIR} -cz ${files.join(" ")} | base64 -w0`;
+}
+
+/**
+ * Shell command writing the files of an archive printed by archivePkiCommand, the archive is read from stdin
+ * The archive holds private keys, it must never be part of the command line
+ */
+export function extractPkiCommand(): string {
+  return `mkdir -p ${PKI_DIR} && base64 -d | tar -C ${PKI_DIR} -xz`;
+}
+
+/**
+ * Shell command signing the certificates of the member with the etcd CA and writing its static pod
+ */
+export function startEtcdMemberCommand(configuration: string): string {
+  const phases = ["certs etcd-server", "certs etcd-peer", "certs etcd-healthcheck-client", "etcd local"];
+  const commands = [
+    `mkdir -p /etc/kubernetes`,
+    `cat > ${ETCD_CONFIGURATION_FILE} <<'EOF'`,
+    ...phases.map((phase) => `kubeadm init phase ${phase} --config ${ETCD_CONFIGURATION_FILE}`),
+  ];
+  // the here-document starts on the line after the commands
+  return `${commands.join(" && ")}\n${configuration}EOF`;
+}
+
+/**
+ * Shell command running etcdctl in the etcd container of the member, authenticated with its healthcheck certificate
+ */
+export function etcdctlCommand(member: EtcdMember, args: string): string {
+  return [
+    `crictl --runtime-endpoint unix:///run/containerd/containerd.sock exec`,
+    `"$(crictl --runtime-endpoint unix:///run/containerd/containerd.sock ps -q --name '^etcd$' | head -1)"`,
+    `etcdctl --endpoints=https://${member.ip}:2379`,
+    `--cacert=${PKI_DIR}/etcd/ca.crt`,
+    `--cert=${PKI_DIR}/etcd/healthcheck-client.crt`,
+    `--key=${PKI_DIR}/etcd/healthcheck-client.key`,
+    args,
+  ].join(" ");
+}
+
+/**
+ * Shell command waiting for the member to run the etcd of its static pod manifest and to be healthy
+ * etcdctl ships in the etcd image, its version tells that the kubelet replaced the container
+ */
+export function waitForEtcdMemberCommand(member: EtcdMember): string {
+  const manifestVersion = `sed -n 's#.*image: .*/etcd:\\([0-9.]*\\).*#\\1#p' ${ETCD_MANIFEST}`;
+  const ready = [
+    `${etcdctlCommand(member, "version")} | grep -q "etcdctl version: $version"`,
+    etcdctlCommand(member, "endpoint health"),
+  ].join(" && ");
+  return `version="$(${manifestVersion})"; for attempt in $(seq 60); do ${ready} && exit 0; sleep 5; done; exit 1`;
+}
+
+/**
+ * Parse the output of `etcdctl member list`
+ * e.g. `8e9e05c52164694d, started, etcd-10-0-0-2, https://10.0.0.2:2380, https://10.0.0.2:2379, false`
+ */
+export function parseEtcdMemberList(output: string): EtcdMemberStatus[] {
+  return output
+    .split("\n")
+    .map((line) => line.split(",").map((field) => field.trim()))
+    .filter((fields) => fields.length >= 4)
+    .map(([id, status, name, peerUrl]) => ({ id, status, name, peerUrl }));
+}
+
+/**
+ * Shell command pointing the API server of a control plane at the given etcd members, the kubelet restarts it
+ */
+export function setApiServerEtcdServersCommand(members: EtcdMember[]): string {
+  const servers = getEtcdEndpoints(members).join(",");
+  return `sed -i 's#--etcd-servers=.*#--etcd-servers=${servers}#' /etc/kubernetes/manifests/kube-apiserver.yaml`;
+}
@@ -0,0 +1,97 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { parse } from "jsr:@std/yaml";
+import {
+  extractPkiCommand,
+  getEtcdMember,
+  isExternalEtcdNode,
+  parseEtcdMemberList,
+  renderEtcdConfiguration,
+  startEtcdMemberCommand,
+} from "./etcd.ts";
+
+interface EtcdClusterConfiguration {
+  etcd: { local: { serverCertSANs: string[]; extraArgs: unknown } };
+}
+
+const members = [
+  { name: "etcd-10-0-0-2", ip: "10.0.0.2" },
+  { name: "etcd-10-0-0-3", ip: "10.0.0.3" },
+];
+
+const clusterConfigurationOf = (configuration: string) =>
+  parse(configuration.split("---\n")[1]) as EtcdClusterConfiguration;
+
+describe("etcd", () => {
+  it("should only run external etcd on etcd-only nodes", () => {
+    assertEquals(isExternalEtcdNode({ roles: ["etcd"] }), true);
+    assertEquals(isExternalEtcdNode({ roles: ["control-plane", "etcd"] }), false);
+    assertEquals(isExternalEtcdNode({ roles: ["worker"] }), false);
+    assertEquals(
+      getEtcdMember({
+        clusterId: "abc",
+        id: "n1",
+        publicIp: "203.0.113.2",
+        privateIp: "10.0.0.2",
+        networkId: "net",
+        networkCIDR: "10.0.0.0/24",
+        roles: ["etcd"],
+      }),
+      members[0]
+    );
+  });
+
+  it("should render the member arguments as a list from kubeadm v1beta4", () => {
+    const configuration = renderEtcdConfiguration({
+      k8sVersion: "1.31.4",
+      member: members[1],
+      members,
+      state: "existing",
+    });
+
+    const { etcd } = clusterConfigurationOf(configuration);
+    assertEquals(etcd.local.serverCertSANs, ["10.0.0.3"]);
+    const args = etcd.local.extraArgs as { name: string; value: string }[];
+    assertEquals(Object.fromEntries(args.map(({ name, value }) => [name, value])), {
+      name: "etcd-10-0-0-3",
+      "initial-cluster": "etcd-10-0-0-2=https://10.0.0.2:2380,etcd-10-0-0-3=https://10.0.0.3:2380",
+      "initial-cluster-state": "existing",
+      "listen-peer-urls": "https://10.0.0.3:2380",
+      "listen-client-urls": "https://10.0.0.3:2379",
+      "advertise-client-urls": "https://10.0.0.3:2379",
+      "initial-advertise-peer-urls": "https://10.0.0.3:2380",
+    });
+  });
+
+  it("should render the member arguments as a map before kubeadm v1beta4", () => {
+    const configuration = renderEtcdConfiguration({ k8sVersion: "1.30.8", member: members[0], members, state: "new" });
+
+    assertStringIncludes(configuration, "apiVersion: kubeadm.k8s.io/v1beta3");
+    const args = clusterConfigurationOf(configuration).etcd.local.extraArgs as Record<string, string>;
+    assertEquals(args.name, "etcd-10-0-0-2");
+    assertEquals(args["initial-cluster-state"], "new");
+  });
+
+  it("should read the PKI from stdin", () => {
+    assertEquals(extractPkiCommand(), "mkdir -p /etc/kubernetes/pki && base64 -d | tar -C /etc/kubernetes/pki -xz");
+  });
+
+  it("should pass the configuration in a here-document", () => {
+    const command = startEtcdMemberCommand("kind: InitConfiguration\n");
+    assertEquals(command.split("\n").slice(1), ["kind: InitConfiguration", "EOF"]);
+    assertStringIncludes(command, "kubeadm init phase etcd local --config /etc/kubernetes/kubeadm-etcd.yaml");
+  });
+
+  it("should parse the member list of etcdctl", () => {
+    const output = [
+      "8e9e05c52164694d, started, etcd-10-0-0-2, https://10.0.0.2:2380, https://10.0.0.2:2379, false",
+      "91bc3c398fb3c146, unstarted, , https://10.0.0.3:2380, , false",
+      "",
+    ].join("\n");
+
+    assertEquals(parseEtcdMemberList(output), [
+      { id: "8e9e05c52164694d", status: "started", name: "etcd-10-0-0-2", peerUrl: "https://10.0.0.2:2380" },
+      { id: "91bc3c398fb3c146", status: "unstarted", name: "", peerUrl: "https://10.0.0.3:2380" },
+    ]);
+  });
+});
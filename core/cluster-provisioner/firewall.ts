@@ -0,0 +1,148 @@
+import { NodeRoles } from "../node-provisioners/index.ts";
+
+export interface FirewallOptions {
+  roles: NodeRoles;
+  /**
+   * Private networks of the cluster nodes, the only sources allowed to reach cluster ports
+   */
+  privateCIDRs: string[];
+  /**
+   * Public IPs of the cluster nodes outside of the private network of the node
+   * Nodes in other regions only share the public network, they are trusted like the private networks
+   */
+  peerIps?: string[];
+  /**
+   * Ports of the ingress controller, public on workers
+   */
+  ingressPorts?: number[];
+}
+
+/**
+ * nftables table owned by the provisioner, kube-proxy and the CNI keep their own tables
+ */
+export const FIREWALL_TABLE = "cluster_firewall";
+
+/**
+ * Ruleset file on the nodes, included from /etc/nftables.conf so that it survives reboots
+ */
+export const FIREWALL_FILE = "/etc/nftables.cluster.nft";
+
+const DEFAULT_INGRESS_PORTS = [80, 443];
+
+type PortRange = number | `${number}-${number}`;
+
+interface RolePorts {
+  publicTcp: PortRange[];
+  privateTcp: PortRange[];
+  privateUdp: PortRange[];
+}
+
+/**
+ * Ports opened on every node: ssh publicly, kubelet and the CNI overlays privately
+ * calico uses BGP (179), IP-in-IP and VXLAN (4789), flannel uses VXLAN (8472)
+ */
+const COMMON_PORTS: RolePorts = {
+  publicTcp: [22],
+  privateTcp: [179, 10250],
+  privateUdp: [4789, 8472],
+};
+
+/**
+ * kubeadm stacks etcd on control planes, they serve etcd even without the etcd role
+ */
+const ROLE_PORTS: Record<NodeRoles[number], RolePorts> = {
+  "control-plane": { publicTcp: [6443], privateTcp: [6443, "2379-2380", 10257, 10259], privateUdp: [] },
+  etcd: { publicTcp: [], privateTcp: ["2379-2380"], privateUdp: [] },
+  worker: { publicTcp: [], privateTcp: [10256, "30000-32767"], privateUdp: ["30000-32767"] },
+};
+
+// interfaces of pod traffic, pods reach the kubelet and host ports of their node
+const CNI_INTERFACES = ["cali*", "cni0", "flannel.1", "tunl0", "vxlan.calico"];
+
+const unique = <T>(values: T[]) => [...new Set(values)];
+
+const formatPorts = (ports: PortRange[]) => (ports.length === 1 ? String(ports[0]) : `{ ${ports.join(", ")} }`);
+
+/**
+ * Render the nftables ruleset of a node
+ * Inbound traffic is dropped unless it is ssh, a public port of the node roles,
+ * or cluster traffic from a private network
+ * Outbound and forwarded traffic are left to kube-proxy and the CNI
+ */
+export function renderFirewall(options: FirewallOptions): string {
+  const { roles, privateCIDRs, peerIps = [], ingressPorts = DEFAULT_INGRESS_PORTS } = options;
+  if (privateCIDRs.length === 0) {
+    throw new Error("At least one private network is required to render the firewall");
+  }
+  const ports = [COMMON_PORTS, ...roles.map((role) => ROLE_PORTS[role])];
+  const publicTcp = unique([
+    ...ports.flatMap((port) => port.publicTcp),
+    ...(roles.includes("worker") ? ingressPorts : []),
+  ]);
+  const privateTcp = unique(ports.flatMap((port) => port.privateTcp));
+  const privateUdp = unique(ports.flatMap((port) => port.privateUdp));
+  const sources = ["@private_networks", ...(peerIps.length > 0 ? ["@cluster_peers"] : [])];
+
+  const rules = [
+    `iif "lo" accept`,
+    `ct state established,related accept`,
+    `ct state invalid drop`,
+    `meta l4proto { icmp, ipv6-icmp } accept`,
+    ...CNI_INTERFACES.map((name) => `iifname "${name}" accept`),
+    `tcp dport ${formatPorts(publicTcp)} accept`,
+    ...sources.flatMap((source) => [
+      `ip saddr ${source} tcp dport ${formatPorts(privateTcp)} accept`,
+      ...(privateUdp.length > 0 ? [`ip saddr ${source} udp dport ${formatPorts(privateUdp)} accept`] : []),
+      `ip saddr ${source} ip protocol 4 accept`,
+    ]),
+  ];
+  const peers = peerIps.length > 0
+    ? [`  set cluster_peers {`, `    type ipv4_addr`, `    elements = { ${unique(peerIps).join(", ")} }`, `  }`, ``]
+    : [];
+
+  return [
+    // declaring the table first lets the delete succeed on the first run
+    `table inet ${FIREWALL_TABLE}`,
+    `delete table inet ${FIREWALL_TABLE}`,
+    `table inet ${FIREWALL_TABLE} {`,
+    `  set private_networks {`,
+    `    type ipv4_addr`,
+    `    flags interval`,
+    `    elements = { ${unique(privateCIDRs).join(", ")} }`,
+    `  }`,
+    ``,
+    ...peers,
+    `  chain input {`,
+    `    type filter hook input priority filter; policy drop;`,
+    ...rules.map((rule) => `    ${rule}`),
+    `  }`,
+    `}`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * Shell command writing the ruleset on the node, loading it and loading it again on boot
+ */
+export function applyFirewallCommand(ruleset: string): string {
+  const include = `include "${FIREWALL_FILE}"`;
+  const commands = [
+    `cat > ${FIREWALL_FILE} <<'EOF'`,
+    `nft -f ${FIREWALL_FILE}`,
+    `(grep -qxF '${include}' /etc/nftables.conf || echo '${include}' >> /etc/nftables.conf)`,
+    `systemctl enable nftables`,
+  ];
+  // the here-document starts on the line after the commands
+  return `${commands.join(" && ")}\n${ruleset}EOF`;
+}
+
+/**
+ * Shell command removing the ruleset from a node leaving the cluster
+ */
+export function removeFirewallCommand(): string {
+  return [
+    `(nft delete table inet ${FIREWALL_TABLE} 2>/dev/null || true)`,
+    `rm -f ${FIREWALL_FILE}`,
+    `(! [ -f /etc/nftables.conf ] || sed -i '\\|include "${FIREWALL_FILE}"|d' /etc/nftables.conf)`,
+  ].join(" && ");
+}
@@ -0,0 +1,89 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { FIREWALL_FILE, applyFirewallCommand, renderFirewall } from "./firewall.ts";
+
+const getRules = (ruleset: string) =>
+  ruleset
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.endsWith("accept") || line.endsWith("drop"));
+
+describe("Firewall rendering", () => {
+  it("should only expose ssh and the API server of control planes publicly", () => {
+    const rules = getRules(renderFirewall({ roles: ["control-plane"], privateCIDRs: ["10.0.0.0/24"] }));
+
+    assertEquals(rules.find((rule) => rule.startsWith("tcp dport")), "tcp dport { 22, 6443 } accept");
+    assertEquals(
+      rules.find((rule) => rule.startsWith("ip saddr @private_networks tcp")),
+      "ip saddr @private_networks tcp dport { 179, 10250, 6443, 2379-2380, 10257, 10259 } accept"
+    );
+  });
+
+  it("should expose the ingress ports of workers and keep NodePorts private", () => {
+    const rules = getRules(renderFirewall({ roles: ["worker"], privateCIDRs: ["10.0.0.0/24"] }));
+
+    assertEquals(rules.find((rule) => rule.startsWith("tcp dport")), "tcp dport { 22, 80, 443 } accept");
+    assertEquals(
+      rules.find((rule) => rule.startsWith("ip saddr @private_networks tcp")),
+      "ip saddr @private_networks tcp dport { 179, 10250, 10256, 30000-32767 } accept"
+    );
+    assertEquals(
+      rules.find((rule) => rule.startsWith("ip saddr @private_networks udp")),
+      "ip saddr @private_networks udp dport { 4789, 8472, 30000-32767 } accept"
+    );
+  });
+
+  it("should merge the ports of every role of the node", () => {
+    const rules = getRules(
+      renderFirewall({ roles: ["etcd", "worker"], privateCIDRs: ["10.0.0.0/24"], ingressPorts: [8443] })
+    );
+
+    assertEquals(rules.find((rule) => rule.startsWith("tcp dport")), "tcp dport { 22, 8443 } accept");
+    assertStringIncludes(rules.find((rule) => rule.startsWith("ip saddr @private_networks tcp"))!, "2379-2380");
+  });
+
+  it("should drop everything else and only trust the private networks of the cluster", () => {
+    const ruleset = renderFirewall({ roles: ["worker"], privateCIDRs: ["10.0.0.0/24", "10.0.1.0/24", "10.0.0.0/24"] });
+
+    assertStringIncludes(ruleset, "elements = { 10.0.0.0/24, 10.0.1.0/24 }");
+    assertStringIncludes(ruleset, "type filter hook input priority filter; policy drop;");
+    assertEquals(
+      getRules(ruleset).filter((rule) => rule.includes("saddr") && !rule.includes("@private_networks")),
+      []
+    );
+    assertThrows(() => renderFirewall({ roles: ["worker"], privateCIDRs: [] }), Error, "private network");
+  });
+
+  it("should trust the public IPs of the cluster nodes in other regions like the private networks", () => {
+    const ruleset = renderFirewall({
+      roles: ["worker"],
+      privateCIDRs: ["10.0.0.0/24", "10.0.1.0/24"],
+      peerIps: ["198.51.100.7", "198.51.100.8"],
+    });
+
+    assertStringIncludes(ruleset, "elements = { 198.51.100.7, 198.51.100.8 }");
+    assertEquals(
+      getRules(ruleset).filter((rule) => rule.includes("@cluster_peers")),
+      [
+        "ip saddr @cluster_peers tcp dport { 179, 10250, 10256, 30000-32767 } accept",
+        "ip saddr @cluster_peers udp dport { 4789, 8472, 30000-32767 } accept",
+        "ip saddr @cluster_peers ip protocol 4 accept",
+      ]
+    );
+    assertEquals(renderFirewall({ roles: ["worker"], privateCIDRs: ["10.0.0.0/24"] }).includes("cluster_peers"), false);
+  });
+
+  it("should replace the ruleset of the node and load it on boot", () => {
+    const ruleset = renderFirewall({ roles: ["worker"], privateCIDRs: ["10.0.0.0/24"] });
+
+    const [commands, ...document] = applyFirewallCommand(ruleset).split("\n");
+
+    assertStringIncludes(commands, `cat > ${FIREWALL_FILE} <<'EOF' && nft -f ${FIREWALL_FILE}`);
+    assertStringIncludes(commands, `include "${FIREWALL_FILE}"`);
+    assertEquals(document.join("\n"), `${ruleset}EOF`);
+    assertEquals(ruleset.split("\n").slice(0, 2), [
+      "table inet cluster_firewall",
+      "delete table inet cluster_firewall",
+    ]);
+  });
+});
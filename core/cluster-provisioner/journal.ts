@@ -0,0 +1,113 @@
+import { randomUUID } from "node:crypto";
+import { Operation, OperationStep, OperationType, StateStore } from "../state/index.ts";
+
+export interface Journal {
+  /**
+   * Run a named step and record its input, output and status
+   * A step completed by a previous run of the operation is not run again, its recorded output is returned
+   * @param execute receives `retry: true` when a previous run started the step without completing it,
+   *  the step may have to undo its partial changes first
+   */
+  step<T>(name: string, input: unknown, execute: (attempt: { retry: boolean }) => Promise<T>): Promise<T>;
+}
+
+/**
+ * The operation cannot be resumed, it does not exist or already completed
+ */
+export class OperationNotResumableError extends Error {
+  override name = "OperationNotResumableError";
+}
+
+export async function startOperation(
+  store: StateStore,
+  options: { type: OperationType; clusterId: string; input: Record<string, unknown> }
+): Promise<Operation> {
+  const now = new Date();
+  const operation: Operation = {
+    id: randomUUID(),
+    ...options,
+    status: "running",
+    steps: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+  await store.saveOperation(operation);
+  return operation;
+}
+
+/**
+ * Load an interrupted or failed operation to run it again
+ */
+export async function loadResumableOperation(store: StateStore, operationId: string): Promise<Operation> {
+  const operation = await store.getOperation(operationId);
+  if (!operation) {
+    throw new OperationNotResumableError(`Operation ${operationId} not found`);
+  }
+  if (operation.status === "completed") {
+    throw new OperationNotResumableError(`Operation ${operationId} already completed`);
+  }
+  return operation;
+}
+
+/**
+ * Run the operation, recording every step in its journal
+ * Completed steps of a previous run are skipped, the first step that did not complete runs again
+ */
+export async function runOperation<T>(
+  store: StateStore,
+  operation: Operation,
+  run: (journal: Journal) => Promise<T>
+): Promise<T> {
+  const save = () => store.saveOperation({ ...operation, updatedAt: new Date() });
+  const updateStep = (name: string, update: Partial<OperationStep>) => {
+    operation.steps = operation.steps.map((step) => (step.name === name ? { ...step, ...update } : step));
+  };
+  const journal: Journal = {
+    async step<S>(name: string, input: unknown, execute: (attempt: { retry: boolean }) => Promise<S>): Promise<S> {
+      const previous = operation.steps.find((step) => step.name === name);
+      if (previous?.status === "completed") {
+        return previous.output as S;
+      }
+      const step: OperationStep = { name, status: "running", input, startedAt: new Date() };
+      operation.steps = previous
+        ? operation.steps.map((other) => (other.name === name ? step : other))
+        : [...operation.steps, step];
+      await save();
+      try {
+        const output = await execute({ retry: !!previous });
+        updateStep(name, { status: "completed", output, completedAt: new Date() });
+        await save();
+        return output;
+      } catch (error) {
+        updateStep(name, { status: "failed", error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+    },
+  };
+
+  operation.status = "running";
+  delete operation.error;
+  await save();
+  try {
+    const result = await run(journal);
+    operation.status = "completed";
+    await save();
+    return result;
+  } catch (error) {
+    operation.status = "failed";
+    operation.error = error instanceof Error ? error.message : String(error);
+    await save();
+    throw error;
+  }
+}
+
+/**
+ * One line per step, e.g. `[completed] kubeadm-init`, followed by the error of the operation when it failed
+ */
+export function formatOperationStatus(operation: Operation): string {
+  const completed = operation.steps.filter((step) => step.status === "completed").length;
+  return [
+    `Operation ${operation.id} (${operation.type}) ${operation.status}, ${completed} step(s) completed`,
+    ...operation.steps.map((step) => `[${step.status}] ${step.name}${step.error ? `: ${step.error}` : ""}`),
+  ].join("\n");
+}
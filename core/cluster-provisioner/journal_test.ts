@@ -0,0 +1,94 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { StateStore, createMemoryStateStore } from "../state/index.ts";
+import {
+  Journal,
+  OperationNotResumableError,
+  formatOperationStatus,
+  loadResumableOperation,
+  runOperation,
+  startOperation,
+} from "./journal.ts";
+
+describe("Operation journal", () => {
+  let store: StateStore;
+
+  beforeEach(() => {
+    store = createMemoryStateStore();
+  });
+
+  it("should record the input, output and status of every step", async () => {
+    const operation = await startOperation(store, { type: "add-node", clusterId: "abc", input: { roles: ["worker"] } });
+
+    const result = await runOperation(store, operation, async (journal) => {
+      const node = await journal.step("provision-node", { region: "europe" }, () => Promise.resolve({ id: "n1" }));
+      await journal.step("join", { nodeId: node.id }, () => Promise.resolve());
+      return node.id;
+    });
+
+    assertEquals(result, "n1");
+    const journal = (await store.getOperation(operation.id))!;
+    assertEquals(journal.status, "completed");
+    assertEquals(
+      journal.steps.map(({ name, status, input, output }) => ({ name, status, input, output })),
+      [
+        { name: "provision-node", status: "completed", input: { region: "europe" }, output: { id: "n1" } },
+        { name: "join", status: "completed", input: { nodeId: "n1" }, output: undefined },
+      ]
+    );
+    await assertRejects(() => loadResumableOperation(store, operation.id), OperationNotResumableError, "completed");
+  });
+
+  it("should resume from the step that did not complete", async () => {
+    const runs: string[] = [];
+    const steps = (failJoin: boolean) => async (journal: Journal) => {
+      const node = await journal.step("provision-node", {}, () => {
+        runs.push("provision-node");
+        return Promise.resolve({ id: "n1" });
+      });
+      await journal.step("join", {}, ({ retry }) => {
+        runs.push(retry ? "join (retry)" : "join");
+        return failJoin ? Promise.reject(new Error("token expired")) : Promise.resolve();
+      });
+      return node;
+    };
+    const operation = await startOperation(store, { type: "add-node", clusterId: "abc", input: {} });
+
+    await assertRejects(() => runOperation(store, operation, steps(true)), Error, "token expired");
+
+    const failed = await loadResumableOperation(store, operation.id);
+    assertEquals(failed.status, "failed");
+    assertEquals(
+      formatOperationStatus(failed).split("\n").slice(1),
+      ["[completed] provision-node", "[failed] join: token expired"]
+    );
+
+    assertEquals(await runOperation(store, failed, steps(false)), { id: "n1" });
+    assertEquals(runs, ["provision-node", "join", "join (retry)"]);
+    const resumed = (await store.getOperation(operation.id))!;
+    assertEquals(resumed.status, "completed");
+    assertEquals(resumed.error, undefined);
+    assertEquals(
+      resumed.steps.map((step) => step.name),
+      ["provision-node", "join"]
+    );
+  });
+
+  it("should treat steps left running by a dead process as interrupted", async () => {
+    const operation = await startOperation(store, { type: "init-cluster", clusterId: "abc", input: {} });
+    // the process dies during the step, nothing records its end
+    await new Promise<void>((started) => {
+      runOperation(store, operation, (journal) => journal.step("kubeadm-init", {}, () => new Promise(() => started())));
+    });
+
+    const interrupted = await loadResumableOperation(store, operation.id);
+    assertEquals(interrupted.status, "running");
+    assertEquals(interrupted.steps.map((step) => step.status), ["running"]);
+
+    let retried = false;
+    await runOperation(store, interrupted, (journal) =>
+      journal.step("kubeadm-init", {}, ({ retry }) => Promise.resolve(void (retried = retry)))
+    );
+    assertEquals(retried, true);
+  });
+});
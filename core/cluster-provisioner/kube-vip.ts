@@ -0,0 +1,114 @@
+import { isIPv4 } from "node:net";
+import { stringify } from "jsr:@std/yaml";
+
+export const KUBE_VIP_VERSION = "v0.8.7";
+
+/**
+ * Static pod manifest of kube-vip, started by the kubelet of every control plane
+ */
+export const KUBE_VIP_MANIFEST = "/etc/kubernetes/manifests/kube-vip.yaml";
+
+export interface KubeVipOptions {
+  vip: string;
+  /**
+   * Interface of the private network, the VIP is announced with ARP on it
+   */
+  interface: string;
+  /**
+   * Kubeconfig used for leader election, the admin.conf written by kubeadm 1.29+ has no rights until
+   * kubeadm init completes so the first control plane starts with super-admin.conf
+   */
+  kubeconfig?: "/etc/kubernetes/admin.conf" | "/etc/kubernetes/super-admin.conf";
+}
+
+const toNumber = (ip: string) => ip.split(".").reduce((number, octet) => number * 256 + Number(octet), 0);
+const toIp = (number: number) => [24, 16, 8, 0].map((shift) => Math.floor(number / 2 ** shift) % 256).join(".");
+
+export function isInCidr(ip: string, cidr: string): boolean {
+  const [network, prefix] = cidr.split("/");
+  const size = 2 ** (32 - Number(prefix));
+  return isIPv4(ip) && Math.floor(toNumber(ip) / size) === Math.floor(toNumber(network) / size);
+}
+
+/**
+ * Last usable address of the private network, providers hand out private IPs from the start of the range
+ */
+export function getDefaultVip(networkCIDR: string): string {
+  const [network, prefix] = networkCIDR.split("/");
+  const size = 2 ** (32 - Number(prefix));
+  if (!isIPv4(network) || size < 4) {
+    throw new Error(`Cannot allocate a VIP in network ${networkCIDR}`);
+  }
+  return toIp(Math.floor(toNumber(network) / size) * size + size - 2);
+}
+
+/**
+ * Command printing the route to the VIP, e.g. `10.0.0.254 dev eth1 src 10.0.0.1 uid 0`
+ */
+export const routeToVipCommand = (vip: string) => `ip -o route get ${vip}`;
+
+export function parseRouteInterface(output: string): string {
+  const [, name] = output.match(/\bdev (\S+)/) ?? [];
+  if (!name) {
+    throw new Error(`No interface found in route ${output.trim()}`);
+  }
+  return name;
+}
+
+/**
+ * Render the static pod announcing the VIP of the API server from the leader control plane
+ */
+export function renderKubeVipManifest(options: KubeVipOptions): string {
+  const { vip, kubeconfig = "/etc/kubernetes/admin.conf" } = options;
+  const env = {
+    vip_arp: "true",
+    port: "6443",
+    vip_interface: options.interface,
+    vip_cidr: "32",
+    cp_enable: "true",
+    cp_namespace: "kube-system",
+    vip_leaderelection: "true",
+    vip_leasename: "plndr-cp-lock",
+    vip_leaseduration: "5",
+    vip_renewdeadline: "3",
+    vip_retryperiod: "1",
+    address: vip,
+  };
+  return stringify({
+    apiVersion: "v1",
+    kind: "Pod",
+    metadata: { name: "kube-vip", namespace: "kube-system" },
+    spec: {
+      containers: [
+        {
+          name: "kube-vip",
+          image: `ghcr.io/kube-vip/kube-vip:${KUBE_VIP_VERSION}`,
+          imagePullPolicy: "IfNotPresent",
+          args: ["manager"],
+          env: Object.entries(env).map(([name, value]) => ({ name, value })),
+          securityContext: { capabilities: { add: ["NET_ADMIN", "NET_RAW"] } },
+          volumeMounts: [{ name: "kubeconfig", mountPath: "/etc/kubernetes/admin.conf" }],
+        },
+      ],
+      hostAliases: [{ hostnames: ["kubernetes"], ip: "127.0.0.1" }],
+      hostNetwork: true,
+      volumes: [{ name: "kubeconfig", hostPath: { path: kubeconfig } }],
+    },
+  });
+}
+
+/**
+ * Shell command writing the manifest, the kubelet starts the pod on its own
+ */
+export function deployKubeVipCommand(manifest: string): string {
+  // the here-document starts on the line after the commands
+  return `mkdir -p /etc/kubernetes/manifests && cat > ${KUBE_VIP_MANIFEST} <<'EOF'\n${manifest}EOF`;
+}
+
+/**
+ * kubeadm 1.29 split the cluster-admin rights out of admin.conf
+ */
+export function usesSuperAdminConf(k8sVersion: string): boolean {
+  const [major, minor] = k8sVersion.replace(/^v/, "").split(".").map(Number);
+  return major > 1 || minor >= 29;
+}
@@ -0,0 +1,39 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { parse } from "jsr:@std/yaml";
+import { getDefaultVip, isInCidr, parseRouteInterface, renderKubeVipManifest, usesSuperAdminConf } from "./kube-vip.ts";
+
+interface KubeVipPod {
+  spec: {
+    containers: { env: { name: string; value: string }[] }[];
+    volumes: { hostPath: { path: string } }[];
+  };
+}
+
+describe("kube-vip", () => {
+  it("should allocate the last usable address of the private network", () => {
+    assertEquals(getDefaultVip("10.0.0.0/24"), "10.0.0.254");
+    assertEquals(getDefaultVip("10.0.16.0/20"), "10.0.31.254");
+    assertThrows(() => getDefaultVip("10.0.0.1/32"), Error, "Cannot allocate a VIP");
+    assertEquals(isInCidr("10.0.31.254", "10.0.16.0/20"), true);
+    assertEquals(isInCidr("10.0.32.1", "10.0.16.0/20"), false);
+    assertEquals(isInCidr("api.example.com", "10.0.16.0/20"), false);
+  });
+
+  it("should announce the VIP on the interface of the private network", () => {
+    assertEquals(parseRouteInterface("10.0.0.254 dev eth1 src 10.0.0.1 uid 0\n    cache"), "eth1");
+    assertThrows(() => parseRouteInterface("RTNETLINK answers: Network is unreachable"), Error, "No interface");
+
+    const pod = parse(renderKubeVipManifest({ vip: "10.0.0.254", interface: "eth1" })) as KubeVipPod;
+    const env = Object.fromEntries(pod.spec.containers[0].env.map(({ name, value }) => [name, value]));
+    assertEquals(env.address, "10.0.0.254");
+    assertEquals(env.vip_interface, "eth1");
+    assertEquals(env.cp_enable, "true");
+    assertEquals(pod.spec.volumes[0].hostPath.path, "/etc/kubernetes/admin.conf");
+  });
+
+  it("should start the first control plane with super-admin.conf since Kubernetes 1.29", () => {
+    assertEquals(usesSuperAdminConf("1.28.15"), false);
+    assertEquals(usesSuperAdminConf("v1.29.0"), true);
+  });
+});
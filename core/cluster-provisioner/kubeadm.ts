@@ -0,0 +1,239 @@
+import { stringify } from "jsr:@std/yaml";
+
+export interface NodeTaint {
+  key: string;
+  value?: string;
+  effect: "NoSchedule" | "PreferNoSchedule" | "NoExecute";
+}
+
+/**
+ * Arguments of the command printed by `kubeadm token create --print-join-command`
+ */
+export interface JoinCommand {
+  apiServerEndpoint: string;
+  token: string;
+  caCertHashes: string[];
+  /**
+   * Only set for control plane joins
+   */
+  certificateKey?: string;
+}
+
+export interface InitConfigurationOptions {
+  k8sVersion: string;
+  /**
+   * Private IP of the first control plane, see JoinConfigurationOptions
+   */
+  nodeIp: string;
+}
+
+export interface JoinConfigurationOptions {
+  k8sVersion: string;
+  join: JoinCommand;
+  /**
+   * Private IP of the node, registered by the kubelet and advertised by the API server and etcd of control planes
+   * The firewall only accepts cluster traffic from the private networks
+   */
+  nodeIp: string;
+  /**
+   * Join as a control plane, requires the certificate key
+   */
+  controlPlane?: boolean;
+  labels?: Record<string, string>;
+  /**
+   * Taints registered with the node, kubeadm taints control planes when none are given
+   */
+  taints?: NodeTaint[];
+}
+
+export interface ClusterConfigurationOptions {
+  k8sVersion: string;
+  /**
+   * Address of the API server used by the nodes, `<host>:<port>`
+   */
+  controlPlaneEndpoint: string;
+  podCidr: string;
+  serviceCidr: string;
+  /**
+   * Extra names and addresses of the API server certificate
+   */
+  certSANs: string[];
+  /**
+   * Client URLs of an external etcd cluster, kubeadm stacks etcd on the control planes when unset
+   */
+  etcdEndpoints?: string[];
+}
+
+/**
+ * Path of the JoinConfiguration on the joining node
+ */
+export const JOIN_CONFIGURATION_FILE = "/etc/kubernetes/kubeadm-join.yaml";
+
+/**
+ * Path of the ClusterConfiguration on the control planes
+ */
+export const CLUSTER_CONFIGURATION_FILE = "/etc/kubernetes/kubeadm-config.yaml";
+
+export function parseJoinCommand(command: string): JoinCommand {
+  const [kubeadm, join, apiServerEndpoint, ...args] = command.trim().split(/\s+/);
+  if (kubeadm !== "kubeadm" || join !== "join" || !apiServerEndpoint) {
+    throw new Error(`Invalid join command, expected kubeadm join <endpoint> [flags]`);
+  }
+  const flag = (name: string) => args.flatMap((arg, index) => (arg === `--${name}` ? [args[index + 1]] : []));
+  const [token] = flag("token");
+  const caCertHashes = flag("discovery-token-ca-cert-hash");
+  if (!token || caCertHashes.length === 0) {
+    throw new Error("Invalid join command, the token and the CA certificate hash are required");
+  }
+  const [certificateKey] = flag("certificate-key");
+  return { apiServerEndpoint, token, caCertHashes, ...(certificateKey ? { certificateKey } : {}) };
+}
+
+/**
+ * kubeadm 1.31 introduced v1beta4, earlier versions only read v1beta3
+ */
+export function getKubeadmApiVersion(k8sVersion: string): "kubeadm.k8s.io/v1beta3" | "kubeadm.k8s.io/v1beta4" {
+  const [major, minor] = k8sVersion.replace(/^v/, "").split(".").map(Number);
+  return major > 1 || minor >= 31 ? "kubeadm.k8s.io/v1beta4" : "kubeadm.k8s.io/v1beta3";
+}
+
+// v1beta4 turned extra args into a list to allow repeating them
+const renderExtraArgs = (apiVersion: string, args: Record<string, string>) =>
+  apiVersion === "kubeadm.k8s.io/v1beta4" ? Object.entries(args).map(([name, value]) => ({ name, value })) : args;
+
+/**
+ * Render the kubeadm InitConfiguration of the first control plane, only read by `kubeadm init`
+ */
+export function renderInitConfiguration(options: InitConfigurationOptions): string {
+  const apiVersion = getKubeadmApiVersion(options.k8sVersion);
+  return stringify({
+    apiVersion,
+    kind: "InitConfiguration",
+    localAPIEndpoint: { advertiseAddress: options.nodeIp },
+    nodeRegistration: { kubeletExtraArgs: renderExtraArgs(apiVersion, { "node-ip": options.nodeIp }) },
+  });
+}
+
+/**
+ * Render the kubeadm ClusterConfiguration, shared by every control plane through the kubeadm-config ConfigMap
+ */
+export function renderClusterConfiguration(options: ClusterConfigurationOptions): string {
+  return stringify({
+    apiVersion: getKubeadmApiVersion(options.k8sVersion),
+    kind: "ClusterConfiguration",
+    kubernetesVersion: options.k8sVersion,
+    controlPlaneEndpoint: options.controlPlaneEndpoint,
+    networking: { podSubnet: options.podCidr, serviceSubnet: options.serviceCidr },
+    apiServer: { certSANs: [...new Set(options.certSANs)] },
+    ...(options.etcdEndpoints
+      ? {
+          etcd: {
+            external: {
+              endpoints: options.etcdEndpoints,
+              caFile: "/etc/kubernetes/pki/etcd/ca.crt",
+              certFile: "/etc/kubernetes/pki/apiserver-etcd-client.crt",
+              keyFile: "/etc/kubernetes/pki/apiserver-etcd-client.key",
+            },
+          },
+        }
+      : {}),
+  });
+}
+
+/**
+ * Render the kubeadm JoinConfiguration of a node, registering it with its labels and taints
+ */
+export function renderJoinConfiguration(options: JoinConfigurationOptions): string {
+  const { k8sVersion, join, nodeIp, controlPlane = false, labels = {}, taints } = options;
+  if (controlPlane && !join.certificateKey) {
+    throw new Error("A certificate key is required to join a control plane");
+  }
+  const apiVersion = getKubeadmApiVersion(k8sVersion);
+  // yaml cannot represent undefined values
+  const nodeTaints = taints?.map(({ key, value, effect }) =>
+    value !== undefined ? { key, value, effect } : { key, effect }
+  );
+  const nodeLabels = Object.entries(labels)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(",");
+  const kubeletExtraArgs = renderExtraArgs(apiVersion, {
+    "node-ip": nodeIp,
+    ...(nodeLabels ? { "node-labels": nodeLabels } : {}),
+  });
+
+  const configuration = {
+    apiVersion,
+    kind: "JoinConfiguration",
+    discovery: {
+      bootstrapToken: {
+        apiServerEndpoint: join.apiServerEndpoint,
+        token: join.token,
+        caCertHashes: join.caCertHashes,
+      },
+    },
+    nodeRegistration: {
+      kubeletExtraArgs,
+      ...(nodeTaints ? { taints: nodeTaints } : {}),
+    },
+    ...(controlPlane
+      ? { controlPlane: { localAPIEndpoint: { advertiseAddress: nodeIp }, certificateKey: join.certificateKey } }
+      : {}),
+  };
+  return stringify(configuration);
+}
+
+function withConfigurationFile(file: string, configuration: string, command: string): string {
+  const commands = [`mkdir -p /etc/kubernetes`, `cat > ${file} <<'EOF'`, command];
+  // the here-document starts on the line after the commands
+  return `${commands.join(" && ")}\n${configuration}EOF`;
+}
+
+/**
+ * Shell command writing the JoinConfiguration on the node and joining the cluster with it
+ */
+export function joinWithConfigurationCommand(configuration: string): string {
+  return withConfigurationFile(
+    JOIN_CONFIGURATION_FILE,
+    configuration,
+    `kubeadm join --config ${JOIN_CONFIGURATION_FILE}`
+  );
+}
+
+/**
+ * Shell command writing the InitConfiguration and ClusterConfiguration on the first control plane and initializing
+ * the cluster with them
+ */
+export function initWithConfigurationCommand(configuration: string): string {
+  return withConfigurationFile(
+    CLUSTER_CONFIGURATION_FILE,
+    configuration,
+    `kubeadm init --config ${CLUSTER_CONFIGURATION_FILE} --upload-certs`
+  );
+}
+
+/**
+ * Shell command replacing the ClusterConfiguration stored in the cluster, read by the control planes that join next
+ */
+export function uploadClusterConfigurationCommand(configuration: string): string {
+  return withConfigurationFile(
+    CLUSTER_CONFIGURATION_FILE,
+    configuration,
+    `kubeadm init phase upload-config kubeadm --config ${CLUSTER_CONFIGURATION_FILE}`
+  );
+}
+
+/**
+ * Shell command printing a kubeconfig for the user, its client certificate is signed by the CA of the control plane
+ */
+export function kubeconfigUserCommand(configuration: string, clientName: string, organization: string): string {
+  return withConfigurationFile(
+    CLUSTER_CONFIGURATION_FILE,
+    configuration,
+    `kubeadm kubeconfig user --config ${CLUSTER_CONFIGURATION_FILE} --client-name ${clientName} --org ${organization}`
+  );
+}
+
+/**
+ * Shell command publishing the CA of admin.conf in the cluster-info ConfigMap, read by the nodes that join next
+ */
+export const UPDATE_CLUSTER_INFO_COMMAND = "kubeadm init phase bootstrap-token --kubeconfig /etc/kubernetes/admin.conf";
@@ -0,0 +1,160 @@
+import { assertEquals, assertStringIncludes, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { parse } from "jsr:@std/yaml";
+import { FAKE_CERTIFICATE_KEY, FAKE_JOIN_COMMAND } from "../ssh/fake.ts";
+import {
+  CLUSTER_CONFIGURATION_FILE,
+  JOIN_CONFIGURATION_FILE,
+  initWithConfigurationCommand,
+  joinWithConfigurationCommand,
+  parseJoinCommand,
+  renderClusterConfiguration,
+  renderInitConfiguration,
+  renderJoinConfiguration,
+  uploadClusterConfigurationCommand,
+} from "./kubeadm.ts";
+
+interface JoinConfiguration {
+  apiVersion: string;
+  kind: string;
+  discovery: { bootstrapToken: Record<string, unknown> };
+  nodeRegistration: Record<string, unknown>;
+  controlPlane?: { localAPIEndpoint: { advertiseAddress: string }; certificateKey: string };
+}
+
+const render = (...args: Parameters<typeof renderJoinConfiguration>) =>
+  parse(renderJoinConfiguration(...args)) as JoinConfiguration;
+
+describe("kubeadm JoinConfiguration", () => {
+  const join = parseJoinCommand(FAKE_JOIN_COMMAND);
+
+  it("should read the join command printed by kubeadm", () => {
+    assertEquals(join, {
+      apiServerEndpoint: "203.0.113.1:6443",
+      token: "abcdef.0123456789abcdef",
+      caCertHashes: ["sha256:0000000000000000000000000000000000000000000000000000000000000000"],
+    });
+    assertEquals(
+      parseJoinCommand(`${FAKE_JOIN_COMMAND} --control-plane --certificate-key ${FAKE_CERTIFICATE_KEY}`).certificateKey,
+      FAKE_CERTIFICATE_KEY
+    );
+    assertThrows(() => parseJoinCommand("kubeadm join 203.0.113.1:6443"), Error, "token");
+  });
+
+  it("should register the labels and taints of the node", () => {
+    const configuration = render({
+      k8sVersion: "1.31.4",
+      join,
+      nodeIp: "10.0.0.2",
+      labels: { pool: "ingress", "node.kubernetes.io/exclude-from-external-load-balancers": "false" },
+      taints: [{ key: "dedicated", value: "ingress", effect: "NoSchedule" }, { key: "spot", effect: "NoExecute" }],
+    });
+
+    assertEquals(configuration.apiVersion, "kubeadm.k8s.io/v1beta4");
+    assertEquals(configuration.kind, "JoinConfiguration");
+    assertEquals(configuration.discovery.bootstrapToken, {
+      apiServerEndpoint: join.apiServerEndpoint,
+      token: join.token,
+      caCertHashes: join.caCertHashes,
+    });
+    assertEquals(configuration.nodeRegistration, {
+      kubeletExtraArgs: [
+        { name: "node-ip", value: "10.0.0.2" },
+        { name: "node-labels", value: "pool=ingress,node.kubernetes.io/exclude-from-external-load-balancers=false" },
+      ],
+      taints: [
+        { key: "dedicated", value: "ingress", effect: "NoSchedule" },
+        { key: "spot", effect: "NoExecute" },
+      ],
+    });
+    assertEquals(configuration.controlPlane, undefined);
+  });
+
+  it("should use v1beta3 before Kubernetes 1.31", () => {
+    const configuration = render({
+      k8sVersion: "1.30.8",
+      join,
+      nodeIp: "10.0.0.2",
+      labels: { pool: "batch" },
+      taints: [],
+    });
+
+    assertEquals(configuration.apiVersion, "kubeadm.k8s.io/v1beta3");
+    assertEquals(configuration.nodeRegistration, {
+      kubeletExtraArgs: { "node-ip": "10.0.0.2", "node-labels": "pool=batch" },
+      taints: [],
+    });
+  });
+
+  it("should join control planes with the certificate key, advertising their private IP", () => {
+    const configuration = render({
+      k8sVersion: "1.31.4",
+      join: { ...join, certificateKey: FAKE_CERTIFICATE_KEY },
+      nodeIp: "10.0.0.2",
+      controlPlane: true,
+    });
+
+    assertEquals(configuration.controlPlane, {
+      localAPIEndpoint: { advertiseAddress: "10.0.0.2" },
+      certificateKey: FAKE_CERTIFICATE_KEY,
+    });
+    // kubeadm applies its control plane taint when none are given
+    assertEquals(configuration.nodeRegistration, { kubeletExtraArgs: [{ name: "node-ip", value: "10.0.0.2" }] });
+    assertThrows(
+      () => render({ k8sVersion: "1.31.4", join, nodeIp: "10.0.0.2", controlPlane: true }),
+      Error,
+      "certificate key"
+    );
+  });
+
+  it("should write the configuration before joining", () => {
+    const configuration = renderJoinConfiguration({ k8sVersion: "1.31.4", join, nodeIp: "10.0.0.2" });
+
+    const [command, ...document] = joinWithConfigurationCommand(configuration).split("\n");
+
+    assertStringIncludes(command, `cat > ${JOIN_CONFIGURATION_FILE} <<'EOF' && kubeadm join --config`);
+    assertEquals(document.join("\n"), `${configuration}EOF`);
+  });
+});
+
+describe("kubeadm ClusterConfiguration", () => {
+  const options = {
+    k8sVersion: "1.31.4",
+    controlPlaneEndpoint: "10.0.0.254:6443",
+    podCidr: "10.244.0.0/16",
+    serviceCidr: "10.96.0.0/12",
+    certSANs: ["10.0.0.254", "203.0.113.1", "10.0.0.1", "203.0.113.1"],
+  };
+
+  it("should point the nodes at the endpoint and list every address in the certificate", () => {
+    assertEquals(parse(renderClusterConfiguration(options)), {
+      apiVersion: "kubeadm.k8s.io/v1beta4",
+      kind: "ClusterConfiguration",
+      kubernetesVersion: "1.31.4",
+      controlPlaneEndpoint: "10.0.0.254:6443",
+      networking: { podSubnet: "10.244.0.0/16", serviceSubnet: "10.96.0.0/12" },
+      apiServer: { certSANs: ["10.0.0.254", "203.0.113.1", "10.0.0.1"] },
+    });
+  });
+
+  it("should advertise the API server and register the kubelet on the private IP of the first control plane", () => {
+    assertEquals(parse(renderInitConfiguration({ k8sVersion: "1.31.4", nodeIp: "10.0.0.1" })), {
+      apiVersion: "kubeadm.k8s.io/v1beta4",
+      kind: "InitConfiguration",
+      localAPIEndpoint: { advertiseAddress: "10.0.0.1" },
+      nodeRegistration: { kubeletExtraArgs: [{ name: "node-ip", value: "10.0.0.1" }] },
+    });
+    const v1beta3 = parse(renderInitConfiguration({ k8sVersion: "1.30.8", nodeIp: "10.0.0.1" })) as JoinConfiguration;
+    assertEquals(v1beta3.nodeRegistration, { kubeletExtraArgs: { "node-ip": "10.0.0.1" } });
+  });
+
+  it("should init the cluster and upload changes from the same file", () => {
+    const configuration = renderClusterConfiguration(options);
+
+    const [init] = initWithConfigurationCommand(configuration).split("\n");
+    const [upload] = uploadClusterConfigurationCommand(configuration).split("\n");
+
+    assertStringIncludes(init, `kubeadm init --config ${CLUSTER_CONFIGURATION_FILE} --upload-certs`);
+    assertStringIncludes(upload, `kubeadm init phase upload-config kubeadm --config ${CLUSTER_CONFIGURATION_FILE}`);
+  });
+});
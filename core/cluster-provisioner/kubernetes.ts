@@ -1,26 +1,130 @@
-import { Node, NodeProvisioner, NodeRoles } from "../node-provisioners/index.ts";
-import { exec, sh } from "../../api/utils.ts";
+import { Node, NodeImage, NodeProvisioner, NodeRegion, NodeResources, NodeRoles } from "../node-provisioners/index.ts";
+import { DefaultNodeRegion, validateNodeImage } from "../node-provisioners/_common.ts";
+import { sh } from "../../api/utils.ts";
+import { CommandExecutor, SshTarget, createSshExecutor, quote } from "../ssh/index.ts";
+import {
+  SshKeyPair,
+  ensureClusterSshKey,
+  generateSshKeyPair,
+  getClusterKeyPath,
+  loadSshKeyPair,
+  promoteSshKeyPair,
+  removeSshKeyPair,
+} from "../ssh/keys.ts";
+import { Cluster, ClusterEvent, Operation, StateStore, createJsonStateStore } from "../state/index.ts";
 import { hash, randomUUID } from "node:crypto";
+import { isIPv4 } from "node:net";
+import {
+  CA_BUNDLE_FILE,
+  CA_ROTATION_PHASES,
+  CONTROL_PLANE_KUBECONFIGS,
+  CaRotationPhase,
+  CertificateName,
+  ETCD_CERTIFICATES,
+  KUBELET_KUBECONFIG,
+  NEXT_CA_FILES,
+  NodeCertificates,
+  RENEWABLE_CERTIFICATES,
+  STATIC_PODS,
+  caFlagsSedScript,
+  checkExpirationCommand,
+  createCaBundleCommand,
+  createNextCaCommand,
+  embedCaCommand,
+  getPkiPath,
+  getStaticPodsToRestart,
+  parseCertificateExpiration,
+  promoteNextCaCommand,
+  removeRotationFilesCommand,
+  renewCertificatesCommand,
+  restartKubeletWithCaCommand,
+  restartStaticPodCommand,
+  writeKubeletKubeconfigCommand,
+} from "./certificates.ts";
+import { installKubePackagesCommand, renderCloudInit } from "./cloud-init.ts";
+import {
+  APISERVER_ETCD_CLIENT_FILES,
+  ETCD_CA_FILES,
+  ETCD_CONFIGURATION_FILE,
+  ETCD_SERVICE_MANAGER_DROPIN,
+  archivePkiCommand,
+  createEtcdCaCommand,
+  etcdServiceManagerCommand,
+  etcdctlCommand,
+  extractPkiCommand,
+  getEtcdEndpoints,
+  getEtcdMember,
+  getEtcdPeerUrl,
+  isExternalEtcdNode,
+  parseEtcdMemberList,
+  renderEtcdConfiguration,
+  setApiServerEtcdServersCommand,
+  startEtcdMemberCommand,
+  waitForEtcdMemberCommand,
+} from "./etcd.ts";
+import { applyFirewallCommand, removeFirewallCommand, renderFirewall } from "./firewall.ts";
+import {
+  JoinCommand,
+  NodeTaint,
+  UPDATE_CLUSTER_INFO_COMMAND,
+  initWithConfigurationCommand,
+  kubeconfigUserCommand,
+  joinWithConfigurationCommand,
+  parseJoinCommand,
+  renderClusterConfiguration,
+  renderInitConfiguration,
+  renderJoinConfiguration,
+  uploadClusterConfigurationCommand,
+} from "./kubeadm.ts";
+import {
+  KubeVipOptions,
+  deployKubeVipCommand,
+  getDefaultVip,
+  isInCidr,
+  parseRouteInterface,
+  renderKubeVipManifest,
+  routeToVipCommand,
+  usesSuperAdminConf,
+} from "./kube-vip.ts";
+import {
+  PreflightError,
+  PreflightReport,
+  evaluatePreflight,
+  formatPreflightReport,
+  preflightCommand,
+} from "./preflight.ts";
+import { loadResumableOperation, runOperation, startOperation } from "./journal.ts";
+import { ClusterPlan, ClusterSpec, formatClusterPlan, planClusterChanges } from "./spec.ts";
+import {
+  API_SERVER_READY_COMMAND,
+  KubernetesNodeStatus,
+  RESTART_KUBELET_COMMAND,
+  UPGRADE_NODE_COMMAND,
+  checkUpgrade,
+  drainNodeCommand,
+  uncordonNodeCommand,
+  upgradeApplyCommand,
+  waitForNodeUpgradeCommand,
+} from "./upgrade.ts";
 
 export interface ClusterContext<NodeProvisionerContext = unknown> {
-  nodeProvisioner: NodeProvisioner;
+  nodeProvisioner: NodeProvisioner<NodeProvisionerContext>;
   nodeProvisionerContext: NodeProvisionerContext;
+  /**
+   * Runs commands on the nodes, defaults to ssh with the key of the cluster
+   */
+  executor?: CommandExecutor;
+  /**
+   * Directory of the per-cluster SSH keys, defaults to DEFAULT_SSH_KEY_DIR
+   */
+  sshKeyDir?: string;
+  /**
+   * Persists the clusters and their history, defaults to a JSON store in DEFAULT_STATE_FILE
+   */
+  stateStore?: StateStore;
 }
 
-export interface Cluster {
-  id: string;
-  name: string;
-  domainName: string;
-  k8sVersion: string;
-  cni: "calico" | "flannel";
-  podCidr: string;
-  serviceCidr: string;
-  controlPlaneEndpoint: string;
-  nodes: Node[];
-  kubeconfig?: string;
-  createdAt: Date;
-  updatedAt: Date;
-}
+export type { Cluster };
 
 export interface InitClusterOptions {
   domainName: string;
@@ -28,55 +132,312 @@ export interface InitClusterOptions {
   cni?: "calico" | "flannel";
   podCidr?: string;
   serviceCidr?: string;
+  /**
+   * Minimum resources of the first control plane node, defaults to the control-plane role defaults
+   */
+  resources?: NodeResources;
+  /**
+   * Image of the first control plane node, must support the Kubernetes version
+   */
+  image?: NodeImage;
+  /**
+   * Region of the first control plane node, defaults to DefaultNodeRegion
+   */
+  region?: NodeRegion;
+  /**
+   * Host of the API server used by the nodes, either a DNS name resolving to the control planes or an address
+   * of the private network of the first control plane announced by kube-vip
+   * Defaults to the last address of that private network
+   */
+  controlPlaneEndpoint?: string;
+  /**
+   * Dedicated etcd nodes, provisioned in the region of the control plane
+   * kubeadm stacks etcd on the control planes when unset
+   */
+  etcd?: {
+    /**
+     * Number of members, odd to tolerate the loss of (count - 1) / 2 of them
+     */
+    count: number;
+    resources?: NodeResources;
+    image?: NodeImage;
+  };
 }
 
 export interface AddNodeOptions {
   nodeProvisioner: NodeProvisioner;
   clusterId: string;
   roles: NodeRoles;
+  /**
+   * Minimum resources of the node, defaults to the largest defaults of its roles
+   */
+  resources?: NodeResources;
+  /**
+   * Image of the node, must support the Kubernetes version
+   */
+  image?: NodeImage;
+  /**
+   * Kubernetes version of the cluster, used to validate the image and pin the kube packages of the node
+   * Defaults to the version stored for the cluster
+   */
+  k8sVersion?: string;
+  /**
+   * Region of the node, defaults to the region of the control plane node
+   * Each region gets its own private network
+   */
+  region?: NodeRegion;
+  /**
+   * Pool the node belongs to
+   */
+  pool?: string;
+  /**
+   * Kubernetes labels of the node, also stored with the node metadata
+   */
+  labels?: Record<string, string>;
+  /**
+   * Kubernetes taints of the node, control planes get the kubeadm control plane taint when none are given
+   */
+  taints?: NodeTaint[];
+}
+
+/**
+ * Group of identical nodes, e.g. ingress, batch or high-memory workers
+ */
+export interface NodePool {
+  name: string;
+  roles: NodeRoles;
+  /**
+   * Minimum resources of the pool nodes, picks the provider product
+   */
+  resources?: NodeResources;
+  /**
+   * Defaults to the region of the control plane node
+   */
+  region?: NodeRegion;
+  image?: NodeImage;
+  labels?: Record<string, string>;
+  taints?: NodeTaint[];
+  /**
+   * Desired number of nodes
+   */
+  count: number;
+}
+
+export interface NodePoolOptions {
+  clusterId: string;
+  pool: NodePool;
+  /**
+   * Kubernetes version of the cluster, see AddNodeOptions
+   */
+  k8sVersion?: string;
+}
+
+const DEFAULT_K8S_VERSION = "1.31.4";
+
+// files left by kubeadm reset, including the kubelet drop-in of etcd nodes
+const RESET_FILES_COMMAND =
+  `rm -rf /etc/kubernetes /var/lib/kubelet /var/lib/etcd /etc/cni/net.d ${ETCD_SERVICE_MANAGER_DROPIN}`;
+
+// shared so that updates from concurrent operations are serialized
+const defaultStateStore = createJsonStateStore();
+
+/**
+ * Store of the context, or the JSON store shared by every caller of the process
+ * Callers without a store of their own share the default one, the whole process goes through its single lock
+ */
+export const getStateStore = (ctx: Pick<ClusterContext, "stateStore"> = {}) => ctx.stateStore ?? defaultStateStore;
+
+/**
+ * Wait for the cloud-init bootstrap to finish, hosts without cloud-init are expected to be installed already
+ */
+async function waitForBootstrap(ctx: ClusterContext, node: Node): Promise<void> {
+  await executeSSH(ctx, node, "if command -v cloud-init >/dev/null; then cloud-init status --wait; fi");
 }
 
 export function generateClusterId(): string {
-  return hash("sha2", randomUUID(), "hex");
+  return hash("sha256", randomUUID(), "hex");
 }
 
 export async function initCluster(ctx: ClusterContext, options: InitClusterOptions): Promise<string> {
-  const { k8sVersion = "1.31.4", cni = "calico", podCidr = "10.244.0.0/16", serviceCidr = "10.96.0.0/12" } = options;
-
-  // Provision a control plane node
-  const controlPlaneNode = await ctx.nodeProvisioner.provisionNode(ctx.nodeProvisionerContext, {
-    mode: "manual",
-    region: "europe",
+  validateNodeImage(options.k8sVersion ?? DEFAULT_K8S_VERSION, options.image);
+  if (options.etcd) {
+    validateNodeImage(options.k8sVersion ?? DEFAULT_K8S_VERSION, options.etcd.image);
+    if (!Number.isInteger(options.etcd.count) || options.etcd.count < 1) {
+      throw new Error(`Invalid number of etcd nodes ${options.etcd.count}, expected a positive integer`);
+    }
+  }
+  const operation = await startOperation(getStateStore(ctx), {
+    type: "init-cluster",
     clusterId: generateClusterId(),
-    roles: ["control-plane"],
+    input: { ...options },
   });
+  return await runInitCluster(ctx, operation);
+}
 
-  // Initialize the cluster with kubeadm
-  await executeSSH(
-    controlPlaneNode.publicIp,
-    sh`kubeadm init --kubernetes-version=${k8sVersion} \
-      --pod-network-cidr=${podCidr} \
-      --service-cidr=${serviceCidr} \
-      --control-plane-endpoint=${controlPlaneNode.publicIp}:6443 \
-      --upload-cert`
-  );
+async function runInitCluster(ctx: ClusterContext, operation: Operation): Promise<string> {
+  const options = operation.input as unknown as InitClusterOptions;
+  const { k8sVersion = DEFAULT_K8S_VERSION, cni = "calico", podCidr = "10.244.0.0/16", serviceCidr = "10.96.0.0/12" } = options;
+  const { clusterId } = operation;
+  const region = options.region ?? DefaultNodeRegion;
 
-  // Install CNI
-  if (cni === "calico") {
-    await executeSSH(
-      controlPlaneNode.publicIp,
-      sh`kubectl --kubeconfig=/etc/kubernetes/admin.conf apply -f https://docs.projectcalico.org/manifests/calico.yaml`
+  return await runOperation(getStateStore(ctx), operation, async (journal) => {
+    // Provision the etcd nodes first, the control plane cannot start without them
+    const etcd = options.etcd;
+    const etcdNodes = etcd
+      ? await journal.step("provision-etcd", { region, ...etcd }, async ({ retry }) => {
+          // the nodes of an interrupted attempt are already tagged with the cluster id
+          const nodes = retry ? await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId }) : [];
+          const provisioned = nodes.filter(isExternalEtcdNode);
+          const sshKey = await ensureClusterSshKey(clusterId, ctx.sshKeyDir);
+          while (provisioned.length < etcd.count) {
+            const node = await ctx.nodeProvisioner.provisionNode(ctx.nodeProvisionerContext, {
+              mode: "manual",
+              region,
+              clusterId,
+              roles: ["etcd"],
+              resources: etcd.resources,
+              image: etcd.image,
+              userData: renderCloudInit({ k8sVersion }),
+              sshPublicKey: sshKey.publicKey,
+            });
+            provisioned.push(node);
+          }
+          return provisioned;
+        })
+      : [];
+
+    // Provision a control plane node, only reachable with the key of the new cluster
+    const controlPlaneNode = await journal.step(
+      "provision-control-plane",
+      { region, resources: options.resources, image: options.image },
+      async ({ retry }) => {
+        // the node of an interrupted attempt is already tagged with the cluster id
+        const nodes = retry ? await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId }) : [];
+        const provisioned = nodes.find((node) => node.roles.includes("control-plane"));
+        if (provisioned) {
+          return provisioned;
+        }
+        const sshKey = await ensureClusterSshKey(clusterId, ctx.sshKeyDir);
+        return await ctx.nodeProvisioner.provisionNode(ctx.nodeProvisionerContext, {
+          mode: "manual",
+          region,
+          clusterId,
+          roles: ["control-plane"],
+          resources: options.resources,
+          image: options.image,
+          userData: renderCloudInit({ k8sVersion }),
+          sshPublicKey: sshKey.publicKey,
+        });
+      }
     );
-  } else if (cni === "flannel") {
-    await executeSSH(
-      controlPlaneNode.publicIp,
-      sh`kubectl --kubeconfig=/etc/kubernetes/admin.conf apply -f https://raw.githubusercontent.com/flannel-io/flannel/master/Documentation/kube-flannel.yml`
+    await journal.step("wait-for-bootstrap", { nodeId: controlPlaneNode.id }, () =>
+      waitForBootstrap(ctx, controlPlaneNode)
     );
-  }
 
-  // const kubeconfig = await executeSSH(controlPlaneNode.publicIp, "cat /etc/kubernetes/admin.conf");
+    // The members bootstrap the etcd cluster together, a retry starts over from clean nodes
+    if (etcdNodes.length > 0) {
+      await journal.step("start-etcd", { nodeIds: etcdNodes.map((node) => node.id) }, async ({ retry }) => {
+        for (const node of etcdNodes) {
+          await waitForBootstrap(ctx, node);
+          if (retry) {
+            await executeSSH(ctx, node, "kubeadm reset -f");
+          }
+        }
+        await startEtcdCluster(ctx, etcdNodes, k8sVersion);
+      });
+    }
+
+    // The endpoint must outlive the first control plane, nodes never reach a control plane by its own address
+    const endpointHost = options.controlPlaneEndpoint ?? getDefaultVip(controlPlaneNode.networkCIDR);
+    const apiServerVip = isIPv4(endpointHost) ? endpointHost : undefined;
+    if (apiServerVip && !isInCidr(apiServerVip, controlPlaneNode.networkCIDR)) {
+      throw new Error(`VIP ${apiServerVip} is not in the private network ${controlPlaneNode.networkCIDR}`);
+    }
+    const controlPlaneEndpoint = `${endpointHost}:6443`;
+
+    // Initialize the cluster with kubeadm
+    const initInput = { k8sVersion, podCidr, serviceCidr, controlPlaneEndpoint };
+    await journal.step("kubeadm-init", initInput, async ({ retry }) => {
+      // kubeadm refuses to init over the leftovers of an interrupted init, the reset also removes kube-vip
+      if (retry) {
+        await executeSSH(ctx, controlPlaneNode, "kubeadm reset -f");
+      }
+      // kubeadm init waits for the API server on the VIP, kube-vip has to announce it first
+      const kubeVip = apiServerVip ? await getKubeVipOptions(ctx, controlPlaneNode, apiServerVip) : undefined;
+      const superAdmin = usesSuperAdminConf(k8sVersion);
+      if (kubeVip) {
+        const kubeconfig = superAdmin ? "/etc/kubernetes/super-admin.conf" : undefined;
+        const manifest = renderKubeVipManifest({ ...kubeVip, kubeconfig });
+        await executeSSH(ctx, controlPlaneNode, deployKubeVipCommand(manifest));
+      }
+      // the API server authenticates to etcd with the client certificate signed by the etcd CA
+      if (etcdNodes.length > 0) {
+        await copyPki(ctx, etcdNodes[0], controlPlaneNode, APISERVER_ETCD_CLIENT_FILES);
+      }
+      const configuration = renderClusterConfiguration({
+        k8sVersion,
+        controlPlaneEndpoint,
+        podCidr,
+        serviceCidr,
+        certSANs: getCertSANs(endpointHost, [controlPlaneNode]),
+        etcdEndpoints: etcdNodes.length > 0 ? getEtcdEndpoints(etcdNodes.map(getEtcdMember)) : undefined,
+      });
+      const initConfiguration = renderInitConfiguration({ k8sVersion, nodeIp: controlPlaneNode.privateIp });
+      await executeSSH(
+        ctx,
+        controlPlaneNode,
+        initWithConfigurationCommand([initConfiguration, configuration].join("---\n"))
+      );
+      // super-admin.conf is not meant to stay in use, admin.conf has the rights kube-vip needs once init is done
+      if (kubeVip && superAdmin) {
+        await executeSSH(ctx, controlPlaneNode, deployKubeVipCommand(renderKubeVipManifest(kubeVip)));
+      }
+    });
+
+    // Install CNI
+    await journal.step("install-cni", { cni }, async () => {
+      if (cni === "calico") {
+        await executeSSH(
+          ctx,
+          controlPlaneNode,
+          sh`kubectl --kubeconfig=/etc/kubernetes/admin.conf apply -f https://docs.projectcalico.org/manifests/calico.yaml`
+        );
+      } else if (cni === "flannel") {
+        await executeSSH(
+          ctx,
+          controlPlaneNode,
+          sh`kubectl --kubeconfig=/etc/kubernetes/admin.conf apply -f https://raw.githubusercontent.com/flannel-io/flannel/master/Documentation/kube-flannel.yml`
+        );
+      }
+    });
+
+    await journal.step("apply-firewall", {}, () => applyFirewall(ctx, clusterId));
 
-  return controlPlaneNode.clusterId;
+    // Remember the settings of the cluster, later operations read them back
+    // the kubeconfig is not a step output, it stays out of the journal
+    await journal.step("save-cluster", {}, async () => {
+      const kubeconfig = await readAdminKubeconfig(ctx, controlPlaneNode, { controlPlaneEndpoint, apiServerVip });
+      const now = new Date();
+      await getStateStore(ctx).saveCluster({
+        id: clusterId,
+        name: options.domainName,
+        domainName: options.domainName,
+        k8sVersion,
+        cni,
+        podCidr,
+        serviceCidr,
+        controlPlaneEndpoint,
+        ...(apiServerVip ? { apiServerVip } : {}),
+        nodes: [controlPlaneNode, ...etcdNodes],
+        kubeconfig,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await getStateStore(ctx).addEvent({ clusterId, type: "cluster-created", at: now });
+    });
+
+    return clusterId;
+  });
 }
 
 export async function deleteCluster(ctx: ClusterContext, clusterId: string): Promise<void> {
@@ -90,10 +451,11 @@ export async function deleteCluster(ctx: ClusterContext, clusterId: string): Pro
     nodes.map(async (node) => {
       try {
         // Run kubeadm reset on the node
-        await executeSSH(node.publicIp, "kubeadm reset -f");
+        await executeSSH(ctx, node, "kubeadm reset -f");
 
         // Clean up any remaining Kubernetes files
-        await executeSSH(node.publicIp, sh`rm -rf /etc/kubernetes /var/lib/kubelet /var/lib/etcd /etc/cni/net.d`);
+        await executeSSH(ctx, node, RESET_FILES_COMMAND);
+        await executeSSH(ctx, node, removeFirewallCommand());
 
         // Deprovision the node
         await ctx.nodeProvisioner.deprovisionNode(ctx.nodeProvisionerContext, node.id);
@@ -102,54 +464,188 @@ export async function deleteCluster(ctx: ClusterContext, clusterId: string): Pro
       }
     })
   );
+
+  await getStateStore(ctx).deleteCluster(clusterId);
+  await getStateStore(ctx).addEvent({ clusterId, type: "cluster-deleted", at: new Date() });
 }
 
 export async function addNode(ctx: ClusterContext, options: AddNodeOptions): Promise<Node> {
-  const { nodeProvisioner, clusterId, roles } = options;
-
-  // Get all nodes
-  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, {
-    clusterId,
+  const cluster = await getStateStore(ctx).getCluster(options.clusterId);
+  if (cluster?.caRotation) {
+    throw new Error(`Cluster ${options.clusterId} is rotating its CA, finalize the rotation before adding nodes`);
+  }
+  validateNodeImage(options.k8sVersion ?? cluster?.k8sVersion ?? DEFAULT_K8S_VERSION, options.image);
+  validateNodeLabels(options.labels);
+  if (isExternalEtcdNode(options) && options.roles.length > 1) {
+    throw new Error("etcd nodes outside of the control planes cannot have other roles");
+  }
+  // the provisioner cannot be stored, a resumed operation uses the provisioner of its context
+  const { nodeProvisioner, ...input } = options;
+  const operation = await startOperation(getStateStore(ctx), {
+    type: "add-node",
+    clusterId: options.clusterId,
+    input,
   });
+  return await runAddNode(ctx, operation, nodeProvisioner);
+}
 
-  // Find a control plane node to get the join command from
-  const controlPlaneNode = nodes.find((node) => node.roles.includes("control-plane"));
+async function runAddNode(
+  ctx: ClusterContext,
+  operation: Operation,
+  nodeProvisioner = ctx.nodeProvisioner
+): Promise<Node> {
+  const options = operation.input as unknown as Omit<AddNodeOptions, "nodeProvisioner">;
+  const { clusterId, roles, resources, image } = options;
+  const cluster = await getStateStore(ctx).getCluster(clusterId);
+  const k8sVersion = options.k8sVersion ?? cluster?.k8sVersion ?? DEFAULT_K8S_VERSION;
 
-  if (!controlPlaneNode) {
-    throw new Error("No control plane node found in the cluster");
-  }
+  return await runOperation(getStateStore(ctx), operation, async (journal) => {
+    // Get all nodes
+    const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, {
+      clusterId,
+    });
 
-  // Provision a new node
-  const newNode = await nodeProvisioner.provisionNode(ctx.nodeProvisionerContext, {
-    mode: "manual",
-    region: "europe",
-    clusterId: clusterId,
-    roles: roles,
-  });
+    // Find a control plane node to get the join command from
+    const controlPlaneNode = nodes.find((node) => node.roles.includes("control-plane"));
 
-  // Get the join command from the control plane
-  let joinCommand: string;
+    if (!controlPlaneNode) {
+      throw new Error("No control plane node found in the cluster");
+    }
 
-  if (roles.includes("control-plane")) {
-    // Get the control plane join command with certificate key
-    const certKey = await executeSSH(
-      controlPlaneNode.publicIp,
-      "kubeadm init phase upload-certs --upload-certs | tail -1"
+    // Provision a new node
+    const region = options.region ?? controlPlaneNode.region ?? DefaultNodeRegion;
+    const newNode = await journal.step(
+      "provision-node",
+      { region, roles, resources, image, pool: options.pool },
+      async ({ retry }) => {
+        // the node of an interrupted attempt is provisioned but missing from the stored cluster
+        const provisioned =
+          retry && cluster
+            ? nodes.find(
+                (node) =>
+                  !cluster.nodes.some((member) => member.id === node.id) &&
+                  node.pool === options.pool &&
+                  node.roles.join() === roles.join()
+              )
+            : undefined;
+        if (provisioned) {
+          return provisioned;
+        }
+        const sshKey = await ensureClusterSshKey(clusterId, ctx.sshKeyDir);
+        return await nodeProvisioner.provisionNode(ctx.nodeProvisionerContext, {
+          mode: "manual",
+          region,
+          clusterId: clusterId,
+          roles: roles,
+          resources,
+          image,
+          pool: options.pool,
+          labels: options.labels,
+          userData: renderCloudInit({ k8sVersion }),
+          sshPublicKey: sshKey.publicKey,
+        });
+      }
     );
+    await journal.step("wait-for-bootstrap", { nodeId: newNode.id }, () => waitForBootstrap(ctx, newNode));
 
-    joinCommand = await executeSSH(
-      controlPlaneNode.publicIp,
-      `kubeadm token create --print-join-command --certificate-key ${certKey}`
-    );
-  } else {
-    // Get the worker join command
-    joinCommand = await executeSSH(controlPlaneNode.publicIp, "kubeadm token create --print-join-command");
-  }
+    // Check the node before joining, a failed join leaves kubeadm state behind on the node
+    await journal.step("preflight", { nodeId: newNode.id }, async () => {
+      const report = await checkNode(ctx, newNode, { k8sVersion, image });
+      if (!report.passed) {
+        throw new PreflightError(
+          `Node ${newNode.publicIp} failed the preflight checks and was not joined:\n${formatPreflightReport(report)}`,
+          report
+        );
+      }
+      for (const check of report.checks.filter((check) => check.status === "warning")) {
+        console.warn(`Preflight warning on node ${newNode.publicIp}: ${check.name}: ${check.message}`);
+      }
+      return report;
+    });
+
+    // A joining control plane generates its API server certificate from the ClusterConfiguration of the cluster
+    if (roles.includes("control-plane") && cluster) {
+      await journal.step("upload-cluster-configuration", { nodeId: newNode.id }, async () => {
+        const configuration = renderStoredClusterConfiguration(cluster, [...cluster.nodes, newNode]);
+        await executeSSH(ctx, controlPlaneNode, uploadClusterConfigurationCommand(configuration));
+      });
+    }
+
+    // etcd nodes never join Kubernetes, they join the etcd cluster and the API servers start using them
+    if (isExternalEtcdNode(newNode)) {
+      if (!cluster?.nodes.some(isExternalEtcdNode)) {
+        throw new Error(`Cluster ${clusterId} runs etcd on its control planes, it has no external etcd to join`);
+      }
+      const etcdNodes = cluster.nodes.filter(isExternalEtcdNode);
+      await journal.step("join-etcd", { nodeId: newNode.id }, async ({ retry }) => {
+        if (retry) {
+          await executeSSH(ctx, newNode, "kubeadm reset -f");
+        }
+        await joinEtcdCluster(ctx, newNode, etcdNodes, k8sVersion);
+      });
+      await journal.step("update-etcd-endpoints", { nodeId: newNode.id }, () =>
+        updateEtcdEndpoints(ctx, cluster, [...cluster.nodes, newNode])
+      );
+    } else {
+      // Tokens and certificate keys expire, they are created again when the join is retried
+      const joinInput = { nodeId: newNode.id, labels: options.labels, taints: options.taints };
+      await journal.step("join", joinInput, async ({ retry }) => {
+        if (retry) {
+          await executeSSH(ctx, newNode, "kubeadm reset -f");
+        }
+
+        // Get the join command from the control plane
+        let join: JoinCommand;
+
+        if (roles.includes("control-plane")) {
+          // Get the control plane join command with certificate key
+          const certKey = await executeSSH(
+            ctx,
+            controlPlaneNode,
+            "kubeadm init phase upload-certs --upload-certs | tail -1"
+          );
 
-  // Join the node to the cluster
-  await executeSSH(newNode.publicIp, joinCommand);
+          const joinCommand = await executeSSH(
+            ctx,
+            controlPlaneNode,
+            `kubeadm token create --print-join-command --certificate-key ${certKey}`
+          );
+          join = { ...parseJoinCommand(joinCommand), certificateKey: certKey };
+        } else {
+          // Get the worker join command
+          join = parseJoinCommand(await executeSSH(ctx, controlPlaneNode, "kubeadm token create --print-join-command"));
+        }
 
-  return newNode;
+        // Join the node to the cluster, registered with its labels and taints
+        const configuration = renderJoinConfiguration({
+          k8sVersion,
+          join,
+          nodeIp: newNode.privateIp,
+          controlPlane: roles.includes("control-plane"),
+          labels: options.labels,
+          taints: options.taints,
+        });
+        await executeSSH(ctx, newNode, joinWithConfigurationCommand(configuration));
+
+        // kubeadm join refuses a non-empty manifests directory, kube-vip is deployed once the node joined
+        if (roles.includes("control-plane") && cluster?.apiServerVip) {
+          const kubeVip = await getKubeVipOptions(ctx, newNode, cluster.apiServerVip);
+          await executeSSH(ctx, newNode, deployKubeVipCommand(renderKubeVipManifest(kubeVip)));
+        }
+      });
+    }
+
+    // The node may bring a new private network, every node has to accept its traffic
+    await journal.step("apply-firewall", {}, () => applyFirewall(ctx, clusterId));
+
+    await journal.step("record-node", { nodeId: newNode.id }, () =>
+      updateClusterState(ctx, { clusterId, type: "node-added", nodeId: newNode.id }, (cluster) => {
+        cluster.nodes.push(newNode);
+      })
+    );
+
+    return newNode;
+  });
 }
 
 export async function removeNode(ctx: ClusterContext, clusterId: string, nodeId: string): Promise<void> {
@@ -173,31 +669,892 @@ export async function removeNode(ctx: ClusterContext, clusterId: string, nodeId:
     throw new Error("Cannot remove the only control plane node");
   }
 
-  // Drain the node
-  await executeSSH(
-    controlPlaneNode.publicIp,
-    `kubectl --kubeconfig=/etc/kubernetes/admin.conf drain ${nodeToRemove.publicIp} --ignore-daemonsets --delete-emptydir-data --force`
-  );
+  if (isExternalEtcdNode(nodeToRemove)) {
+    await removeEtcdMember(ctx, clusterId, nodeToRemove);
+  } else {
+    // node names are picked by the kubelet, kubectl is run on a control plane that stays
+    const kubernetesNodes = await getKubernetesNodes(ctx, [
+      controlPlaneNode,
+      ...nodes.filter((node) => node.id !== controlPlaneNode.id),
+    ]);
+    // a node that never joined has nothing to drain
+    const name = kubernetesNodes.get(nodeToRemove.id)?.name;
+    if (name) {
+      // Drain the node
+      await executeSSH(
+        ctx,
+        controlPlaneNode,
+        `kubectl --kubeconfig=/etc/kubernetes/admin.conf drain ${name} --ignore-daemonsets --delete-emptydir-data --force`
+      );
 
-  // Delete the node from Kubernetes
-  await executeSSH(
-    controlPlaneNode.publicIp,
-    `kubectl --kubeconfig=/etc/kubernetes/admin.conf delete node ${nodeToRemove.publicIp}`
-  );
+      // Delete the node from Kubernetes
+      await executeSSH(ctx, controlPlaneNode, `kubectl --kubeconfig=/etc/kubernetes/admin.conf delete node ${name}`);
+    }
+  }
 
   // Reset the node
   try {
-    await executeSSH(nodeToRemove.publicIp, "kubeadm reset -f");
-    await executeSSH(nodeToRemove.publicIp, sh`rm -rf /etc/kubernetes /var/lib/kubelet /var/lib/etcd /etc/cni/net.d`);
+    await executeSSH(ctx, nodeToRemove, "kubeadm reset -f");
+    await executeSSH(ctx, nodeToRemove, RESET_FILES_COMMAND);
+    await executeSSH(ctx, nodeToRemove, removeFirewallCommand());
   } catch (error) {
     console.error(`Error resetting node ${nodeToRemove.id}: ${error}`);
   }
 
   // Deprovision the node
   await ctx.nodeProvisioner.deprovisionNode(ctx.nodeProvisionerContext, nodeToRemove.id);
+
+  // Stop accepting traffic from the private network of the node when it was the last one there
+  await applyFirewall(ctx, clusterId);
+
+  await updateClusterState(ctx, { clusterId, type: "node-removed", nodeId }, (cluster) => {
+    cluster.nodes = cluster.nodes.filter((node) => node.id !== nodeId);
+  });
+}
+
+/**
+ * Upgrade the cluster to a Kubernetes version, one node at a time: the etcd nodes, the first control plane with
+ * `kubeadm upgrade apply`, the other control planes and then the workers with `kubeadm upgrade node`
+ * Nodes are drained before their kubelet restarts and uncordoned once it reports the version and is ready.
+ * The upgrade stops at the first failure, leaving the failed node cordoned, and continues with resumeOperation
+ */
+export async function upgradeCluster(ctx: ClusterContext, clusterId: string, k8sVersion: string): Promise<void> {
+  const cluster = await getStateStore(ctx).getCluster(clusterId);
+  if (!cluster) {
+    throw new Error(`Cluster ${clusterId} is not recorded in the state store`);
+  }
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const kubernetesNodes = await getKubernetesNodes(ctx, nodes);
+  const unregistered = nodes.filter((node) => !isExternalEtcdNode(node) && !kubernetesNodes.has(node.id));
+  if (unregistered.length > 0) {
+    throw new Error(
+      `Cannot upgrade while nodes are not registered in Kubernetes: ${unregistered
+        .map((node) => node.publicIp)
+        .join(", ")}`
+    );
+  }
+  checkUpgrade({ from: cluster.k8sVersion, to: k8sVersion, nodes: [...kubernetesNodes.values()] });
+
+  const operation = await startOperation(getStateStore(ctx), {
+    type: "upgrade-cluster",
+    clusterId,
+    input: { clusterId, k8sVersion },
+  });
+  await runUpgradeCluster(ctx, operation);
+}
+
+async function runUpgradeCluster(ctx: ClusterContext, operation: Operation): Promise<void> {
+  const { clusterId, k8sVersion } = operation.input as { clusterId: string; k8sVersion: string };
+
+  await runOperation(getStateStore(ctx), operation, async (journal) => {
+    const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+    const kubernetesNodes = await getKubernetesNodes(ctx, nodes);
+    const etcdNodes = nodes.filter(isExternalEtcdNode);
+    const controlPlanes = nodes.filter((node) => node.roles.includes("control-plane"));
+    const workers = nodes.filter((node) => !isExternalEtcdNode(node) && !node.roles.includes("control-plane"));
+    // kubectl runs on the first control plane, upgraded first
+    const [firstControlPlane] = controlPlanes;
+
+    // etcd is upgraded before the API servers using it, like kubeadm does for stacked etcd
+    for (const node of etcdNodes) {
+      await journal.step(`upgrade-etcd-${node.publicIp}`, { nodeId: node.id }, async () => {
+        await executeSSH(ctx, node, installKubePackagesCommand(k8sVersion, ["kubeadm", "kubelet"]));
+        await executeSSH(ctx, node, RESTART_KUBELET_COMMAND);
+        // the certificates are kept, only the static pod changes to the etcd of the version
+        const configuration = renderEtcdConfiguration({
+          k8sVersion,
+          member: getEtcdMember(node),
+          members: etcdNodes.map(getEtcdMember),
+          state: "existing",
+        });
+        await executeSSH(ctx, node, startEtcdMemberCommand(configuration));
+        await executeSSH(ctx, node, waitForEtcdMemberCommand(getEtcdMember(node)));
+      });
+    }
+
+    for (const node of [...controlPlanes, ...workers]) {
+      const role = node.roles.includes("control-plane") ? "control-plane" : "worker";
+      await journal.step(`upgrade-${role}-${node.publicIp}`, { nodeId: node.id }, async () => {
+        const name = kubernetesNodes.get(node.id)!.name;
+        await executeSSH(ctx, node, installKubePackagesCommand(k8sVersion, ["kubeadm"]));
+        await executeSSH(
+          ctx,
+          node,
+          node === firstControlPlane ? upgradeApplyCommand(k8sVersion) : UPGRADE_NODE_COMMAND
+        );
+        if (role === "control-plane") {
+          await executeSSH(ctx, node, API_SERVER_READY_COMMAND);
+        }
+        await executeSSH(ctx, firstControlPlane, drainNodeCommand(name));
+        await executeSSH(ctx, node, installKubePackagesCommand(k8sVersion, ["kubelet", "kubectl"]));
+        await executeSSH(ctx, node, RESTART_KUBELET_COMMAND);
+        await executeSSH(ctx, firstControlPlane, waitForNodeUpgradeCommand(name, k8sVersion));
+        await executeSSH(ctx, firstControlPlane, uncordonNodeCommand(name));
+      });
+    }
+
+    await journal.step("record-version", { k8sVersion }, () =>
+      updateClusterState(ctx, { clusterId, type: "cluster-upgraded", k8sVersion }, (cluster) => {
+        cluster.k8sVersion = k8sVersion;
+      })
+    );
+  });
+}
+
+/**
+ * Diff the spec against the nodes listed by the provisioner and the nodes registered in Kubernetes
+ * @param clusterId cluster the spec applies to, unset to plan the creation of the cluster
+ */
+export async function planCluster(ctx: ClusterContext, spec: ClusterSpec, clusterId?: string): Promise<ClusterPlan> {
+  if (!clusterId) {
+    return planClusterChanges(spec, { nodes: [], registeredNodeIds: [] });
+  }
+  const cluster = await getStateStore(ctx).getCluster(clusterId);
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const registeredNodeIds = await getRegisteredNodeIds(ctx, nodes);
+  return planClusterChanges(spec, { clusterId, cluster, nodes, registeredNodeIds });
+}
+
+/**
+ * Run the actions of the plan one at a time, stopping at the first failure
+ * Running it again after a failure plans the remaining actions
+ * @returns the id of the cluster, created when no cluster id is given
+ */
+export async function applyClusterSpec(ctx: ClusterContext, spec: ClusterSpec, clusterId?: string): Promise<string> {
+  let plan = await planCluster(ctx, spec, clusterId);
+  if (plan.conflicts.length > 0) {
+    throw new Error(formatClusterPlan(plan));
+  }
+  if (!clusterId) {
+    clusterId = await initCluster(ctx, {
+      domainName: spec.domainName,
+      k8sVersion: spec.k8sVersion,
+      cni: spec.cni,
+      podCidr: spec.podCidr,
+      serviceCidr: spec.serviceCidr,
+      region: spec.region,
+      controlPlaneEndpoint: spec.controlPlaneEndpoint,
+      resources: spec.controlPlane.resources,
+      image: spec.controlPlane.image,
+      etcd: spec.etcd.count > 0 ? spec.etcd : undefined,
+    });
+    plan = await planCluster(ctx, spec, clusterId);
+  }
+
+  for (const action of plan.actions) {
+    switch (action.type) {
+      case "init-cluster":
+        break;
+      case "deprovision-node":
+        await ctx.nodeProvisioner.deprovisionNode(ctx.nodeProvisionerContext, action.nodeId);
+        break;
+      case "add-node": {
+        const pool = spec.pools.find((pool) => pool.name === action.pool);
+        const defaults = isExternalEtcdNode(action) ? spec.etcd : spec.controlPlane;
+        await addNode(ctx, {
+          nodeProvisioner: ctx.nodeProvisioner,
+          clusterId,
+          roles: action.roles,
+          resources: pool ? pool.resources : defaults.resources,
+          image: pool ? pool.image : defaults.image,
+          region: pool?.region ?? spec.region,
+          pool: pool?.name,
+          labels: pool?.labels,
+          taints: pool?.taints,
+        });
+        break;
+      }
+      case "remove-node":
+        await removeNode(ctx, clusterId, action.nodeId);
+        break;
+      case "apply-addon":
+        await applyAddon(ctx, clusterId, action);
+        break;
+      case "delete-addon":
+        await deleteAddon(ctx, clusterId, action.name);
+        break;
+    }
+  }
+  return clusterId;
+}
+
+/**
+ * Apply the manifest of an addon with kubectl and remember it with the cluster
+ */
+export async function applyAddon(
+  ctx: ClusterContext,
+  clusterId: string,
+  addon: { name: string; manifest: string }
+): Promise<void> {
+  const controlPlaneNode = await getControlPlaneNode(ctx, clusterId);
+  await executeSSH(
+    ctx,
+    controlPlaneNode,
+    `kubectl --kubeconfig=/etc/kubernetes/admin.conf apply -f ${quote(addon.manifest)}`
+  );
+  await updateClusterState(ctx, { clusterId, type: "addon-applied", addon: addon.name }, (cluster) => {
+    cluster.addons = { ...cluster.addons, [addon.name]: addon.manifest };
+  });
+}
+
+/**
+ * Delete the resources of an addon applied with applyAddon
+ */
+export async function deleteAddon(ctx: ClusterContext, clusterId: string, name: string): Promise<void> {
+  const manifest = (await getStateStore(ctx).getCluster(clusterId))?.addons?.[name];
+  if (!manifest) {
+    throw new Error(`Addon ${name} not found in cluster ${clusterId}`);
+  }
+  const controlPlaneNode = await getControlPlaneNode(ctx, clusterId);
+  await executeSSH(
+    ctx,
+    controlPlaneNode,
+    `kubectl --kubeconfig=/etc/kubernetes/admin.conf delete --ignore-not-found -f ${quote(manifest)}`
+  );
+  await updateClusterState(ctx, { clusterId, type: "addon-deleted", addon: name }, (cluster) => {
+    const { [name]: _deleted, ...addons } = cluster.addons ?? {};
+    cluster.addons = addons;
+  });
+}
+
+/**
+ * Continue an interrupted or failed operation from its first step that did not complete
+ * @returns the journal of the operation once it completed
+ */
+export async function resumeOperation(ctx: ClusterContext, operationId: string): Promise<Operation> {
+  const operation = await loadResumableOperation(getStateStore(ctx), operationId);
+  switch (operation.type) {
+    case "init-cluster":
+      await runInitCluster(ctx, operation);
+      break;
+    case "add-node":
+      await runAddNode(ctx, operation);
+      break;
+    case "upgrade-cluster":
+      await runUpgradeCluster(ctx, operation);
+      break;
+  }
+  return (await getStateStore(ctx).getOperation(operationId))!;
+}
+
+/**
+ * Journal of an operation, telling which steps completed and where it stopped
+ */
+export async function getOperationStatus(ctx: ClusterContext, operationId: string): Promise<Operation> {
+  const operation = await getStateStore(ctx).getOperation(operationId);
+  if (!operation) {
+    throw new Error(`Operation ${operationId} not found`);
+  }
+  return operation;
+}
+
+/**
+ * Operations of the cluster, or of every cluster, e.g. to find the operations left running by a crash
+ */
+export async function listOperations(ctx: ClusterContext, clusterId?: string): Promise<Operation[]> {
+  return await getStateStore(ctx).listOperations(clusterId);
+}
+
+/**
+ * Render and apply the firewall of every node of the cluster
+ * Cluster ports only accept traffic from the private networks of the cluster nodes and from the public IPs of the
+ * nodes in other private networks, both change as nodes join or leave
+ */
+export async function applyFirewall(ctx: ClusterContext, clusterId: string): Promise<void> {
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const privateCIDRs = [...new Set(nodes.map((node) => node.networkCIDR))];
+  await Promise.all(
+    nodes.map((node) => {
+      const peerIps = nodes.filter((other) => other.networkCIDR !== node.networkCIDR).map((other) => other.publicIp);
+      return executeSSH(ctx, node, applyFirewallCommand(renderFirewall({ roles: node.roles, privateCIDRs, peerIps })));
+    })
+  );
+}
+
+/**
+ * Run the preflight checks of a node about to join its cluster
+ * The API server is reached through a control plane sharing the private network of the node, when there is one
+ */
+export async function checkNode(
+  ctx: ClusterContext,
+  node: Node,
+  options: { k8sVersion?: string; image?: NodeImage } = {}
+): Promise<PreflightReport> {
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId: node.clusterId });
+  const controlPlanes = nodes.filter((other) => other.roles.includes("control-plane") && other.id !== node.id);
+  const controlPlaneNode =
+    controlPlanes.find((other) => other.networkCIDR === node.networkCIDR) ?? controlPlanes[0];
+  if (!controlPlaneNode) {
+    throw new Error("No control plane node found in the cluster");
+  }
+  const apiServerEndpoint =
+    controlPlaneNode.networkCIDR === node.networkCIDR ? `${controlPlaneNode.privateIp}:6443` : undefined;
+
+  const controlPlaneTime = Number(await executeSSH(ctx, controlPlaneNode, "date +%s"));
+  const output = await executeSSH(ctx, node, preflightCommand({ apiServerEndpoint }));
+  const cluster = await getStateStore(ctx).getCluster(node.clusterId);
+  return evaluatePreflight(output, {
+    k8sVersion: options.k8sVersion ?? cluster?.k8sVersion ?? DEFAULT_K8S_VERSION,
+    roles: node.roles,
+    image: options.image,
+    apiServerEndpoint,
+    controlPlaneTime,
+  });
+}
+
+/**
+ * Provision and join the nodes of a new pool
+ */
+export async function createNodePool(ctx: ClusterContext, options: NodePoolOptions): Promise<Node[]> {
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId: options.clusterId });
+  if (nodes.some((node) => node.pool === options.pool.name)) {
+    throw new Error(`Node pool ${options.pool.name} already exists in cluster ${options.clusterId}`);
+  }
+  return await resizeNodePool(ctx, options);
+}
+
+/**
+ * Add or remove nodes until the pool has its desired count
+ * Nodes with the highest index are removed first
+ * @returns the nodes of the pool
+ */
+export async function resizeNodePool(ctx: ClusterContext, options: NodePoolOptions): Promise<Node[]> {
+  const { clusterId, pool, k8sVersion } = options;
+  validateNodePool(pool);
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const poolNodes = nodes.filter((node) => node.pool === pool.name).sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+  // nodes join one at a time, kubeadm does not support concurrent control plane joins
+  while (poolNodes.length < pool.count) {
+    poolNodes.push(
+      await addNode(ctx, {
+        nodeProvisioner: ctx.nodeProvisioner,
+        clusterId,
+        roles: pool.roles,
+        resources: pool.resources,
+        image: pool.image,
+        k8sVersion,
+        region: pool.region,
+        pool: pool.name,
+        labels: pool.labels,
+        taints: pool.taints,
+      })
+    );
+  }
+  while (poolNodes.length > pool.count) {
+    await removeNode(ctx, clusterId, poolNodes.pop()!.id);
+  }
+  return poolNodes;
+}
+
+export async function deleteNodePool(ctx: ClusterContext, clusterId: string, name: string): Promise<void> {
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const poolNodes = nodes.filter((node) => node.pool === name);
+  if (poolNodes.length === 0) {
+    throw new Error(`Node pool ${name} not found in cluster ${clusterId}`);
+  }
+  for (const node of poolNodes) {
+    await removeNode(ctx, clusterId, node.id);
+  }
+}
+
+/**
+ * Expiry of the kubeadm certificates of every control plane and external etcd node
+ */
+export async function getCertificateExpiration(ctx: ClusterContext, clusterId: string): Promise<NodeCertificates[]> {
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const certificateNodes = nodes.filter((node) => node.roles.includes("control-plane") || isExternalEtcdNode(node));
+  return await Promise.all(
+    certificateNodes.map(async (node) => {
+      const configuration = isExternalEtcdNode(node) ? ETCD_CONFIGURATION_FILE : undefined;
+      const output = await executeSSH(ctx, node, checkExpirationCommand(configuration));
+      return { nodeId: node.id, publicIp: node.publicIp, certificates: parseCertificateExpiration(output) };
+    })
+  );
+}
+
+/**
+ * Renew the certificates of the cluster with its CAs, one node at a time: the external etcd nodes, then the control
+ * planes. The static pods using a renewed certificate restart in order and have to run again before the next one
+ * restarts, the stored kubeconfig is refreshed when admin.conf is renewed.
+ * @param names certificates to renew, all of them by default
+ */
+export async function renewCertificates(
+  ctx: ClusterContext,
+  clusterId: string,
+  names: CertificateName[] | "all" = "all"
+): Promise<void> {
+  const unknown = names === "all" ? [] : names.filter((name) => !RENEWABLE_CERTIFICATES.includes(name));
+  if (names !== "all" && (names.length === 0 || unknown.length > 0)) {
+    throw new Error(
+      `Invalid certificates ${unknown.join(", ")}, expected some of: ${RENEWABLE_CERTIFICATES.join(", ")}`
+    );
+  }
+  const cluster = await getStateStore(ctx).getCluster(clusterId);
+  if (!cluster) {
+    throw new Error(`Cluster ${clusterId} is not recorded in the state store`);
+  }
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const etcdNodes = nodes.filter(isExternalEtcdNode);
+  const controlPlanes = nodes.filter((node) => node.roles.includes("control-plane"));
+  const renewed = names === "all" ? [...RENEWABLE_CERTIFICATES] : names;
+  // the certificates of an external etcd are on its nodes, the control planes have none
+  const etcdCertificates = renewed.filter((name) => ETCD_CERTIFICATES.includes(name));
+  const controlPlaneCertificates =
+    etcdNodes.length > 0 ? renewed.filter((name) => !etcdCertificates.includes(name)) : renewed;
+
+  for (const node of etcdCertificates.length > 0 ? etcdNodes : []) {
+    await executeSSH(ctx, node, renewCertificatesCommand(etcdCertificates, ETCD_CONFIGURATION_FILE));
+    for (const pod of getStaticPodsToRestart(etcdCertificates)) {
+      await executeSSH(ctx, node, restartStaticPodCommand(pod));
+    }
+  }
+  for (const node of controlPlaneCertificates.length > 0 ? controlPlanes : []) {
+    await executeSSH(ctx, node, renewCertificatesCommand(names === "all" ? "all" : controlPlaneCertificates));
+    for (const pod of getStaticPodsToRestart(controlPlaneCertificates)) {
+      await executeSSH(ctx, node, restartStaticPodCommand(pod));
+    }
+  }
+
+  const kubeconfig = renewed.includes("admin.conf")
+    ? await readAdminKubeconfig(ctx, controlPlanes[0], cluster)
+    : undefined;
+  await updateClusterState(ctx, { clusterId, type: "certificates-renewed" }, (cluster) => {
+    if (kubeconfig) {
+      cluster.kubeconfig = kubeconfig;
+    }
+  });
+}
+
+/**
+ * Run a phase of the rotation of the cluster CA, the phases run in the order of CA_ROTATION_PHASES
+ * External etcd nodes are not involved, etcd has its own CA. Nodes cannot be added until the rotation is finalized.
+ */
+export async function rotateClusterCa(ctx: ClusterContext, clusterId: string, phase: CaRotationPhase): Promise<void> {
+  const cluster = await getStateStore(ctx).getCluster(clusterId);
+  if (!cluster) {
+    throw new Error(`Cluster ${clusterId} is not recorded in the state store`);
+  }
+  const expected = CA_ROTATION_PHASES[cluster.caRotation ? CA_ROTATION_PHASES.indexOf(cluster.caRotation) + 1 : 0];
+  if (phase !== expected) {
+    throw new Error(
+      `The CA rotation of cluster ${clusterId} ${
+        cluster.caRotation ? `completed the ${cluster.caRotation} phase` : "has not started"
+      }, run the ${expected} phase next`
+    );
+  }
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const controlPlanes = nodes.filter((node) => node.roles.includes("control-plane"));
+  const workers = nodes.filter((node) => !isExternalEtcdNode(node) && !node.roles.includes("control-plane"));
+  const [firstControlPlane] = controlPlanes;
+  const ca = getPkiPath("ca.crt");
+  const bundle = getPkiPath(CA_BUNDLE_FILE);
+  // the etcd of the control planes uses its own CA
+  const restartedPods = STATIC_PODS.filter((pod) => pod !== "etcd");
+
+  switch (phase) {
+    case "trust":
+      await executeSSH(ctx, firstControlPlane, createNextCaCommand());
+      for (const node of controlPlanes) {
+        if (node !== firstControlPlane) {
+          await copyPki(ctx, firstControlPlane, node, NEXT_CA_FILES);
+        }
+        await executeSSH(ctx, node, createCaBundleCommand());
+        await executeSSH(ctx, node, embedCaCommand(bundle, [...CONTROL_PLANE_KUBECONFIGS, KUBELET_KUBECONFIG]));
+        for (const pod of restartedPods) {
+          await executeSSH(ctx, node, restartStaticPodCommand(pod, caFlagsSedScript(bundle)));
+        }
+        await executeSSH(ctx, node, restartKubeletWithCaCommand(bundle));
+      }
+      for (const node of workers) {
+        await copyPki(ctx, firstControlPlane, node, [CA_BUNDLE_FILE]);
+        await executeSSH(ctx, node, embedCaCommand(bundle, [KUBELET_KUBECONFIG]));
+        await executeSSH(ctx, node, restartKubeletWithCaCommand(bundle));
+      }
+      break;
+    case "reissue": {
+      for (const node of controlPlanes) {
+        await executeSSH(ctx, node, promoteNextCaCommand());
+        // kubeadm renews kubeconfig files embedding its CA
+        await executeSSH(ctx, node, embedCaCommand(ca, CONTROL_PLANE_KUBECONFIGS));
+        await executeSSH(ctx, node, renewCertificatesCommand("all"));
+        await executeSSH(ctx, node, embedCaCommand(bundle, CONTROL_PLANE_KUBECONFIGS));
+        for (const pod of restartedPods) {
+          await executeSSH(ctx, node, restartStaticPodCommand(pod));
+        }
+      }
+      // kubelets authenticate with a client certificate signed by the new CA
+      const kubernetesNodes = await getKubernetesNodes(ctx, nodes);
+      const configuration = renderStoredClusterConfiguration(cluster, nodes);
+      for (const node of [...controlPlanes, ...workers]) {
+        const name = kubernetesNodes.get(node.id)?.name;
+        if (!name) {
+          throw new Error(`Node ${node.publicIp} is not registered in Kubernetes, its kubelet cannot be reissued`);
+        }
+        const kubeconfig = await executeSSH(
+          ctx,
+          firstControlPlane,
+          kubeconfigUserCommand(configuration, `system:node:${name}`, "system:nodes")
+        );
+        await executeSSH(ctx, node, writeKubeletKubeconfigCommand(), kubeconfig);
+        await executeSSH(ctx, node, embedCaCommand(bundle, [KUBELET_KUBECONFIG]));
+        await executeSSH(ctx, node, restartKubeletWithCaCommand(bundle));
+      }
+      break;
+    }
+    case "finalize":
+      for (const node of controlPlanes) {
+        await executeSSH(ctx, node, embedCaCommand(ca, [...CONTROL_PLANE_KUBECONFIGS, KUBELET_KUBECONFIG]));
+        for (const pod of restartedPods) {
+          await executeSSH(ctx, node, restartStaticPodCommand(pod, caFlagsSedScript(ca)));
+        }
+        await executeSSH(ctx, node, restartKubeletWithCaCommand(ca));
+      }
+      for (const node of workers) {
+        await copyPki(ctx, firstControlPlane, node, ["ca.crt"]);
+        await executeSSH(ctx, node, embedCaCommand(ca, [KUBELET_KUBECONFIG]));
+        await executeSSH(ctx, node, restartKubeletWithCaCommand(ca));
+      }
+      // nodes joining next verify the control plane with the new CA
+      await executeSSH(ctx, firstControlPlane, UPDATE_CLUSTER_INFO_COMMAND);
+      for (const node of [...controlPlanes, ...workers]) {
+        await executeSSH(ctx, node, removeRotationFilesCommand());
+      }
+      break;
+  }
+
+  // admin.conf trusts the CAs of the phase, its client certificate is reissued with the new CA
+  const kubeconfig = await readAdminKubeconfig(ctx, firstControlPlane, cluster);
+  await updateClusterState(ctx, { clusterId, type: "ca-rotated", caRotationPhase: phase }, (cluster) => {
+    cluster.kubeconfig = kubeconfig;
+    if (phase === "finalize") {
+      delete cluster.caRotation;
+    } else {
+      cluster.caRotation = phase;
+    }
+  });
+}
+
+/**
+ * Replace the SSH key of the cluster on every node, then revoke the previous key on the nodes and at the provider
+ * The new key is authorized and verified on every node before anything is revoked,
+ * when a node cannot be reached with it the rotation is undone and the previous key stays in use
+ */
+export async function rotateSshKeys(ctx: ClusterContext, clusterId: string): Promise<SshKeyPair> {
+  const privateKeyPath = getClusterKeyPath(clusterId, ctx.sshKeyDir);
+  const previous = await loadSshKeyPair(privateKeyPath);
+  if (!previous) {
+    throw new Error(`No SSH key found for cluster ${clusterId} at ${privateKeyPath}`);
+  }
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const next = await generateSshKeyPair(`${privateKeyPath}.next`, `cluster-${clusterId}`);
+
+  // Authorize the new key next to the previous one, and log in with it
+  const authorized: Node[] = [];
+  try {
+    for (const node of nodes) {
+      authorized.push(node);
+      await executeSSH(ctx, node, authorizeSshKeyCommand(next.publicKey));
+      await executeSSH(ctx, { ...node, identityFile: next.privateKeyPath }, "true");
+    }
+  } catch (error) {
+    await Promise.allSettled(authorized.map((node) => executeSSH(ctx, node, revokeSshKeyCommand(next.publicKey))));
+    await removeSshKeyPair(next.privateKeyPath);
+    throw new Error(`Failed to rotate the SSH key of cluster ${clusterId}, the previous key is still in use`, {
+      cause: error,
+    });
+  }
+
+  // Every node accepts the new key, it becomes the key of the cluster
+  const sshKey = await promoteSshKeyPair(next, privateKeyPath);
+  const revocations = await Promise.allSettled(
+    nodes.map((node) => executeSSH(ctx, node, revokeSshKeyCommand(previous.publicKey)))
+  );
+  await ctx.nodeProvisioner.revokeSshKey?.(ctx.nodeProvisionerContext, { clusterId, publicKey: previous.publicKey });
+  const unrevoked = nodes.filter((_, index) => revocations[index].status === "rejected");
+  if (unrevoked.length > 0) {
+    throw new Error(
+      `Rotated the SSH key of cluster ${clusterId} but the previous key is still authorized on ${unrevoked
+        .map((node) => node.publicIp)
+        .join(", ")}`
+    );
+  }
+  return sshKey;
 }
 
 // Helper functions
-async function executeSSH(host: string, command: string): Promise<string> {
-  return await exec(`ssh -o StrictHostKeyChecking=no root@${host} '${command}'`);
+/**
+ * Bootstrap the etcd cluster, the first member creates the CA the others sign their certificates with
+ */
+async function startEtcdCluster(ctx: ClusterContext, etcdNodes: Node[], k8sVersion: string): Promise<void> {
+  const members = etcdNodes.map(getEtcdMember);
+  const [first] = etcdNodes;
+  await executeSSH(ctx, first, createEtcdCaCommand());
+  for (const node of etcdNodes) {
+    if (node !== first) {
+      await copyPki(ctx, first, node, ETCD_CA_FILES);
+    }
+    await executeSSH(ctx, node, etcdServiceManagerCommand());
+    const configuration = renderEtcdConfiguration({
+      k8sVersion,
+      member: getEtcdMember(node),
+      members,
+      state: "new",
+    });
+    await executeSSH(ctx, node, startEtcdMemberCommand(configuration));
+  }
+}
+
+/**
+ * Add the node to the running etcd cluster, the member is announced before it starts
+ */
+async function joinEtcdCluster(ctx: ClusterContext, node: Node, etcdNodes: Node[], k8sVersion: string) {
+  const [peer] = etcdNodes;
+  const member = getEtcdMember(node);
+  const memberList = await executeSSH(ctx, peer, etcdctlCommand(getEtcdMember(peer), "member list"));
+  // a retried join finds the member announced by the previous attempt
+  if (!parseEtcdMemberList(memberList).some((status) => status.peerUrl === getEtcdPeerUrl(member))) {
+    await executeSSH(
+      ctx,
+      peer,
+      etcdctlCommand(getEtcdMember(peer), `member add ${member.name} --peer-urls=${getEtcdPeerUrl(member)}`)
+    );
+  }
+  await copyPki(ctx, peer, node, ETCD_CA_FILES);
+  await executeSSH(ctx, node, etcdServiceManagerCommand());
+  const configuration = renderEtcdConfiguration({
+    k8sVersion,
+    member,
+    members: [...etcdNodes.map(getEtcdMember), member],
+    state: "existing",
+  });
+  await executeSSH(ctx, node, startEtcdMemberCommand(configuration));
+}
+
+/**
+ * The API servers stop using the member before it leaves the etcd cluster
+ */
+async function removeEtcdMember(ctx: ClusterContext, clusterId: string, node: Node): Promise<void> {
+  const cluster = await getStateStore(ctx).getCluster(clusterId);
+  const remaining = (cluster?.nodes ?? []).filter((other) => isExternalEtcdNode(other) && other.id !== node.id);
+  if (!cluster || remaining.length === 0) {
+    throw new Error("Cannot remove the only etcd node");
+  }
+  await updateEtcdEndpoints(ctx, cluster, cluster.nodes.filter((other) => other.id !== node.id));
+
+  const [peer] = remaining;
+  const memberList = await executeSSH(ctx, peer, etcdctlCommand(getEtcdMember(peer), "member list"));
+  const status = parseEtcdMemberList(memberList).find(
+    (status) => status.peerUrl === getEtcdPeerUrl(getEtcdMember(node))
+  );
+  if (status) {
+    await executeSSH(ctx, peer, etcdctlCommand(getEtcdMember(peer), `member remove ${status.id}`));
+  }
+}
+
+/**
+ * Point the API server of every control plane at the etcd nodes, one at a time, and store the endpoints for the
+ * control planes that join next
+ */
+async function updateEtcdEndpoints(ctx: ClusterContext, cluster: Cluster, nodes: Node[]): Promise<void> {
+  const members = nodes.filter(isExternalEtcdNode).map(getEtcdMember);
+  const controlPlanes = nodes.filter((node) => node.roles.includes("control-plane"));
+  for (const controlPlane of controlPlanes) {
+    await executeSSH(ctx, controlPlane, setApiServerEtcdServersCommand(members));
+  }
+  const configuration = renderStoredClusterConfiguration(cluster, nodes);
+  await executeSSH(ctx, controlPlanes[0], uploadClusterConfigurationCommand(configuration));
+}
+
+/**
+ * Copy files of the PKI between nodes, they only transit through memory and the stdin of the extracting command
+ */
+async function copyPki(ctx: ClusterContext, from: Node, to: Node, files: string[]): Promise<void> {
+  const archive = await executeSSH(ctx, from, archivePkiCommand(files));
+  await executeSSH(ctx, to, extractPkiCommand(), archive.trim());
+}
+
+/**
+ * ClusterConfiguration of a stored cluster made of the given nodes
+ */
+function renderStoredClusterConfiguration(cluster: Cluster, nodes: Node[]): string {
+  const controlPlanes = nodes.filter((node) => node.roles.includes("control-plane"));
+  const etcdMembers = nodes.filter(isExternalEtcdNode).map(getEtcdMember);
+  return renderClusterConfiguration({
+    k8sVersion: cluster.k8sVersion,
+    controlPlaneEndpoint: cluster.controlPlaneEndpoint,
+    podCidr: cluster.podCidr,
+    serviceCidr: cluster.serviceCidr,
+    certSANs: getCertSANs(cluster.controlPlaneEndpoint.replace(/:\d+$/, ""), controlPlanes),
+    etcdEndpoints: etcdMembers.length > 0 ? getEtcdEndpoints(etcdMembers) : undefined,
+  });
+}
+
+/**
+ * Admin kubeconfig of a control plane
+ * The VIP is only reachable from the private network, clients outside of it use a control plane directly
+ */
+async function readAdminKubeconfig(
+  ctx: ClusterContext,
+  controlPlaneNode: Node,
+  cluster: Pick<Cluster, "controlPlaneEndpoint" | "apiServerVip">
+): Promise<string> {
+  const adminConf = await executeSSH(ctx, controlPlaneNode, "cat /etc/kubernetes/admin.conf");
+  return cluster.apiServerVip
+    ? adminConf.replaceAll(`https://${cluster.controlPlaneEndpoint}`, `https://${controlPlaneNode.publicIp}:6443`)
+    : adminConf;
+}
+
+/**
+ * The VIP is announced on the interface routing the private network
+ */
+async function getKubeVipOptions(ctx: ClusterContext, node: Node, vip: string): Promise<KubeVipOptions> {
+  return { vip, interface: parseRouteInterface(await executeSSH(ctx, node, routeToVipCommand(vip))) };
+}
+
+/**
+ * The endpoint and the addresses of every control plane, clients may reach any of them
+ */
+function getCertSANs(endpointHost: string, controlPlanes: Node[]): string[] {
+  return [endpointHost, ...controlPlanes.flatMap((node) => [node.publicIp, node.privateIp])];
+}
+
+async function getControlPlaneNode(ctx: ClusterContext, clusterId: string): Promise<Node> {
+  const nodes = await ctx.nodeProvisioner.listNodes(ctx.nodeProvisionerContext, { clusterId });
+  const controlPlaneNode = nodes.find((node) => node.roles.includes("control-plane"));
+  if (!controlPlaneNode) {
+    throw new Error("No control plane node found in the cluster");
+  }
+  return controlPlaneNode;
+}
+
+interface KubernetesNodeList {
+  items: {
+    metadata?: { name: string };
+    status: {
+      addresses?: { type: string; address: string }[];
+      nodeInfo?: { kubeletVersion: string };
+      conditions?: { type: string; status: string }[];
+    };
+  }[];
+}
+
+/**
+ * Nodes registered in Kubernetes, in the order of the given nodes
+ */
+async function getRegisteredNodeIds(ctx: ClusterContext, nodes: Node[]): Promise<string[]> {
+  if (!nodes.some((node) => node.roles.includes("control-plane"))) {
+    return [];
+  }
+  const registered = await getKubernetesNodes(ctx, nodes);
+  return nodes.filter((node) => registered.has(node.id)).map((node) => node.id);
+}
+
+/**
+ * Nodes registered in Kubernetes by node id, matched on their addresses since node names are picked by the kubelet
+ */
+async function getKubernetesNodes(ctx: ClusterContext, nodes: Node[]): Promise<Map<string, KubernetesNodeStatus>> {
+  const controlPlaneNode = nodes.find((node) => node.roles.includes("control-plane"));
+  if (!controlPlaneNode) {
+    throw new Error("No control plane node found in the cluster");
+  }
+  const output = await executeSSH(
+    ctx,
+    controlPlaneNode,
+    "kubectl --kubeconfig=/etc/kubernetes/admin.conf get nodes -o json"
+  );
+  const list: KubernetesNodeList = JSON.parse(output);
+  const statuses = new Map<string, KubernetesNodeStatus>();
+  for (const item of list.items) {
+    const addresses = (item.status.addresses ?? []).map(({ address }) => address);
+    const node = nodes.find((node) => addresses.includes(node.publicIp) || addresses.includes(node.privateIp));
+    if (node) {
+      statuses.set(node.id, {
+        name: item.metadata?.name ?? "",
+        kubeletVersion: item.status.nodeInfo?.kubeletVersion ?? "",
+        ready: !!item.status.conditions?.some(({ type, status }) => type === "Ready" && status === "True"),
+      });
+    }
+  }
+  return statuses;
+}
+
+/**
+ * Record an event in the history of the cluster and apply its change to the stored cluster
+ * Clusters created before the state store have no record, only their history is kept
+ */
+async function updateClusterState(
+  ctx: ClusterContext,
+  event: Omit<ClusterEvent, "at">,
+  update: (cluster: Cluster) => void
+): Promise<void> {
+  const store = getStateStore(ctx);
+  const at = new Date();
+  const cluster = await store.getCluster(event.clusterId);
+  if (cluster) {
+    update(cluster);
+    await store.saveCluster({ ...cluster, updatedAt: at });
+  }
+  await store.addEvent({ ...event, at });
+}
+
+function validateNodePool(pool: NodePool): void {
+  if (!/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/.test(pool.name)) {
+    throw new Error(`Invalid node pool name ${pool.name}, expected lowercase alphanumeric characters or dashes`);
+  }
+  if (!Number.isInteger(pool.count) || pool.count < 0) {
+    throw new Error(`Invalid size ${pool.count} for node pool ${pool.name}, expected a positive integer`);
+  }
+  if (pool.roles.length === 0) {
+    throw new Error(`Node pool ${pool.name} needs at least one role`);
+  }
+}
+
+/**
+ * kubelets may only set labels outside of the kubernetes.io and k8s.io namespaces, or in the ones reserved for them
+ */
+function validateNodeLabels(labels: Record<string, string> = {}): void {
+  for (const key of Object.keys(labels)) {
+    const prefix = key.includes("/") ? key.split("/")[0] : "";
+    const restricted = /(^|\.)(kubernetes\.io|k8s\.io)$/.test(prefix);
+    const allowed = /(^|\.)(kubelet|node)\.kubernetes\.io$/.test(prefix);
+    if (restricted && !allowed) {
+      throw new Error(`Label ${key} cannot be set by the kubelet, use a prefix outside of kubernetes.io and k8s.io`);
+    }
+  }
+}
+
+async function executeSSH(
+  ctx: ClusterContext,
+  node: SshTarget & Pick<Node, "clusterId">,
+  command: string,
+  input?: string
+): Promise<string> {
+  const executor =
+    ctx.executor ?? createSshExecutor({ identityFile: getClusterKeyPath(node.clusterId, ctx.sshKeyDir) });
+  return await executor(node, command, input);
+}
+
+// keys are matched on their base64 blob, the comment may differ between the provider and cloud-init
+const getSshKeyBlob = (publicKey: string) => publicKey.trim().split(/\s+/)[1];
+
+const AUTHORIZED_KEYS = "~/.ssh/authorized_keys";
+
+function authorizeSshKeyCommand(publicKey: string): string {
+  const blob = quote(getSshKeyBlob(publicKey));
+  return [
+    `mkdir -p -m 700 ~/.ssh`,
+    `touch ${AUTHORIZED_KEYS}`,
+    `chmod 600 ${AUTHORIZED_KEYS}`,
+    `(grep -qF ${blob} ${AUTHORIZED_KEYS} || echo ${quote(publicKey)} >> ${AUTHORIZED_KEYS})`,
+  ].join(" && ");
+}
+
+function revokeSshKeyCommand(publicKey: string): string {
+  return [
+    `if [ -f ${AUTHORIZED_KEYS} ]; then`,
+    `grep -vF ${quote(getSshKeyBlob(publicKey))} ${AUTHORIZED_KEYS} > ${AUTHORIZED_KEYS}.tmp;`,
+    `chmod 600 ${AUTHORIZED_KEYS}.tmp && mv ${AUTHORIZED_KEYS}.tmp ${AUTHORIZED_KEYS};`,
+    `fi`,
+  ].join(" ");
 }
@@ -0,0 +1,219 @@
+import { NodeImage, NodeRoles } from "../node-provisioners/index.ts";
+import { SupportedOsImages } from "../node-provisioners/_common.ts";
+import { KERNEL_MODULES, SYSCTLS } from "./cloud-init.ts";
+
+export interface PreflightOptions {
+  k8sVersion: string;
+  roles: NodeRoles;
+  /**
+   * Image the node was provisioned with, custom images only get a warning when their OS is not validated
+   */
+  image?: NodeImage;
+  /**
+   * Private address of the API server, unset when no control plane shares the private network of the node
+   */
+  apiServerEndpoint?: string;
+  /**
+   * Unix time of the control plane, in seconds, read right before the checks
+   */
+  controlPlaneTime: number;
+}
+
+export interface PreflightCheck {
+  name: string;
+  /**
+   * Failed checks stop the join, warnings are only reported
+   */
+  status: "pass" | "warning" | "fail";
+  message: string;
+}
+
+export interface PreflightReport {
+  passed: boolean;
+  checks: PreflightCheck[];
+}
+
+/**
+ * A node failed the preflight checks and was not joined, the report tells which checks failed
+ */
+export class PreflightError extends Error {
+  override name = "PreflightError";
+
+  constructor(message: string, readonly report: PreflightReport) {
+    super(message);
+  }
+}
+
+/**
+ * kubeadm supports the LTS kernels from 4.19 and the containerd releases implementing CRI v1
+ */
+const MIN_KERNEL_VERSION = "4.19";
+const MIN_CONTAINERD_VERSION = "1.6";
+
+/**
+ * TLS bootstrap and bootstrap tokens expire, a node whose clock drifts further cannot join reliably
+ */
+const MAX_CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Room for the images and the logs, the kubelet evicts pods below 10% of free disk
+ */
+const MIN_FREE_DISK_MB = 10240;
+
+/**
+ * Ports kubeadm needs free on the node, kubelet and kube-proxy on every node
+ */
+const COMMON_PORTS = [10250, 10256];
+
+const ROLE_PORTS: Record<NodeRoles[number], number[]> = {
+  "control-plane": [6443, 2379, 2380, 10257, 10259],
+  etcd: [2379, 2380],
+  worker: [],
+};
+
+const compareVersions = (a: string, b: string) => {
+  const parse = (version: string) => (version.replace(/^v/, "").match(/^[\d.]*\d/)?.[0] ?? "0").split(".").map(Number);
+  const [left, right] = [parse(a), parse(b)];
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Shell command printing the facts checked before joining, one `key=value` per line
+ */
+export function preflightCommand(options: Pick<PreflightOptions, "apiServerEndpoint">): string {
+  const [host, port] = options.apiServerEndpoint?.split(":") ?? [];
+  return [
+    `. /etc/os-release && echo "os=$ID-$VERSION_ID"`,
+    `echo "kernel=$(uname -r)"`,
+    `echo "swap=$(swapon --noheadings --show=NAME | wc -l)"`,
+    ...KERNEL_MODULES.map((module) => `echo "module.${module}=$(test -d /sys/module/${module} && echo 1 || echo 0)"`),
+    ...Object.keys(SYSCTLS).map((key) => `echo "sysctl.${key}=$(sysctl -n ${key} 2>/dev/null)"`),
+    `echo "containerd=$(containerd --version 2>/dev/null | awk '{print $3}')"`,
+    `echo "time=$(date +%s)"`,
+    `echo "diskFreeMb=$(df -Pm /var/lib | awk 'NR == 2 {print $4}')"`,
+    `echo "listening=$(ss -Htln | awk '{print $4}' | sed 's/.*://' | sort -un | paste -sd, -)"`,
+    ...(host
+      ? [`echo "apiServer=$(timeout 5 bash -c '</dev/tcp/${host}/${port}' 2>/dev/null && echo 1 || echo 0)"`]
+      : []),
+  ].join("\n");
+}
+
+/**
+ * Check the facts printed by preflightCommand against the requirements of the node roles
+ */
+export function evaluatePreflight(output: string, options: PreflightOptions): PreflightReport {
+  const facts = new Map(
+    output
+      .split("\n")
+      .filter((line) => line.includes("="))
+      .map((line) => [line.slice(0, line.indexOf("=")).trim(), line.slice(line.indexOf("=") + 1).trim()])
+  );
+  const checks: PreflightCheck[] = [];
+  const check = (name: string, status: PreflightCheck["status"], message: string) =>
+    checks.push({ name, status, message });
+
+  const os = facts.get("os") ?? "unknown";
+  const minor = options.k8sVersion.replace(/^v/, "").split(".").slice(0, 2).join(".");
+  const supportedOsImages: string[] = SupportedOsImages[minor] ?? [];
+  if (supportedOsImages.includes(os)) {
+    check("os", "pass", `${os} is supported with Kubernetes ${options.k8sVersion}`);
+  } else {
+    check(
+      "os",
+      options.image && "customImageId" in options.image ? "warning" : "fail",
+      `${os} is not validated with Kubernetes ${options.k8sVersion}, supported images: ${supportedOsImages.join(", ")}`
+    );
+  }
+
+  const kernel = facts.get("kernel") ?? "";
+  check(
+    "kernel",
+    kernel && compareVersions(kernel, MIN_KERNEL_VERSION) >= 0 ? "pass" : "fail",
+    `Kernel ${kernel || "unknown"}, at least ${MIN_KERNEL_VERSION} is required`
+  );
+
+  check(
+    "swap",
+    facts.get("swap") === "0" ? "pass" : "fail",
+    facts.get("swap") === "0" ? "Swap is disabled" : "Swap is enabled, the kubelet refuses to start with swap"
+  );
+
+  const missingModules = KERNEL_MODULES.filter((module) => facts.get(`module.${module}`) !== "1");
+  check(
+    "kernel-modules",
+    missingModules.length === 0 ? "pass" : "fail",
+    missingModules.length === 0
+      ? `Kernel modules loaded: ${KERNEL_MODULES.join(", ")}`
+      : `Kernel modules not loaded: ${missingModules.join(", ")}`
+  );
+
+  const wrongSysctls = Object.entries(SYSCTLS).filter(([key, value]) => facts.get(`sysctl.${key}`) !== String(value));
+  check(
+    "sysctls",
+    wrongSysctls.length === 0 ? "pass" : "fail",
+    wrongSysctls.length === 0
+      ? "Sysctls are set"
+      : `Sysctls not set: ${wrongSysctls.map(([key, value]) => `${key} = ${value}`).join(", ")}`
+  );
+
+  const containerd = facts.get("containerd") ?? "";
+  check(
+    "container-runtime",
+    containerd && compareVersions(containerd, MIN_CONTAINERD_VERSION) >= 0 ? "pass" : "fail",
+    containerd
+      ? `containerd ${containerd}, at least ${MIN_CONTAINERD_VERSION} is required`
+      : "containerd is not installed"
+  );
+
+  const skew = Math.abs(Number(facts.get("time") || NaN) - options.controlPlaneTime);
+  check(
+    "clock-skew",
+    skew <= MAX_CLOCK_SKEW_SECONDS ? "pass" : "fail",
+    Number.isNaN(skew)
+      ? "Could not read the time of the node"
+      : `Clock ${skew}s away from the control plane, at most ${MAX_CLOCK_SKEW_SECONDS}s are tolerated`
+  );
+
+  const diskFreeMb = Number(facts.get("diskFreeMb"));
+  check(
+    "disk",
+    diskFreeMb >= MIN_FREE_DISK_MB ? "pass" : "fail",
+    `${Number.isNaN(diskFreeMb) ? "unknown" : diskFreeMb} MB free in /var/lib, ` +
+      `at least ${MIN_FREE_DISK_MB} MB are required`
+  );
+
+  const listening = new Set((facts.get("listening") ?? "").split(",").filter(Boolean).map(Number));
+  const requiredPorts = [...new Set([...COMMON_PORTS, ...options.roles.flatMap((role) => ROLE_PORTS[role])])];
+  const busyPorts = requiredPorts.filter((port) => listening.has(port));
+  check(
+    "ports",
+    busyPorts.length === 0 ? "pass" : "fail",
+    busyPorts.length === 0
+      ? `Ports available: ${requiredPorts.join(", ")}`
+      : `Ports already in use: ${busyPorts.join(", ")}`
+  );
+
+  if (!options.apiServerEndpoint) {
+    check("api-server", "warning", "No control plane shares the private network of the node, reachability not checked");
+  } else {
+    check(
+      "api-server",
+      facts.get("apiServer") === "1" ? "pass" : "fail",
+      facts.get("apiServer") === "1"
+        ? `API server reachable at ${options.apiServerEndpoint}`
+        : `API server unreachable at ${options.apiServerEndpoint} over the private network`
+    );
+  }
+
+  return { passed: checks.every((check) => check.status !== "fail"), checks };
+}
+
+export function formatPreflightReport(report: PreflightReport): string {
+  return report.checks.map((check) => `[${check.status}] ${check.name}: ${check.message}`).join("\n");
+}
@@ -0,0 +1,94 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { fakePreflightOutput } from "../ssh/fake.ts";
+import { PreflightOptions, evaluatePreflight, formatPreflightReport, preflightCommand } from "./preflight.ts";
+
+const NOW = 1_700_000_000;
+
+const options: PreflightOptions = {
+  k8sVersion: "1.31.4",
+  roles: ["worker"],
+  apiServerEndpoint: "10.0.0.1:6443",
+  controlPlaneTime: NOW,
+};
+
+const statuses = (output: string, overrides: Partial<PreflightOptions> = {}) => {
+  const report = evaluatePreflight(output, { ...options, ...overrides });
+  return Object.fromEntries(report.checks.map((check) => [check.name, check.status]));
+};
+
+describe("Preflight checks", () => {
+  it("should pass a node bootstrapped by cloud-init", () => {
+    const report = evaluatePreflight(fakePreflightOutput({ time: String(NOW + 2) }), options);
+
+    assertEquals(report.passed, true);
+    assertEquals(report.checks.map((check) => check.name), [
+      "os",
+      "kernel",
+      "swap",
+      "kernel-modules",
+      "sysctls",
+      "container-runtime",
+      "clock-skew",
+      "disk",
+      "ports",
+      "api-server",
+    ]);
+    assertEquals(report.checks.filter((check) => check.status !== "pass"), []);
+  });
+
+  it("should fail on a node not prepared for Kubernetes", () => {
+    const report = evaluatePreflight(
+      fakePreflightOutput({
+        time: String(NOW),
+        kernel: "4.15.0-213-generic",
+        "module.br_netfilter": "0",
+        "sysctl.net.ipv4.ip_forward": "0",
+        containerd: "",
+        diskFreeMb: "2048",
+      }),
+      options
+    );
+
+    assertEquals(report.passed, false);
+    assertEquals(
+      report.checks.filter((check) => check.status === "fail").map((check) => check.name),
+      ["kernel", "kernel-modules", "sysctls", "container-runtime", "disk"]
+    );
+    const formatted = formatPreflightReport(report);
+    assertStringIncludes(formatted, "[fail] kernel-modules: Kernel modules not loaded: br_netfilter");
+    assertStringIncludes(formatted, "[fail] sysctls: Sysctls not set: net.ipv4.ip_forward = 1");
+    assertStringIncludes(formatted, "[fail] container-runtime: containerd is not installed");
+  });
+
+  it("should fail when the clock drifts from the control plane", () => {
+    assertEquals(statuses(fakePreflightOutput({ time: String(NOW - 30) }))["clock-skew"], "pass");
+    assertEquals(statuses(fakePreflightOutput({ time: String(NOW + 120) }))["clock-skew"], "fail");
+    assertEquals(statuses(fakePreflightOutput({ time: "" }))["clock-skew"], "fail");
+  });
+
+  it("should check the ports of the node roles", () => {
+    const output = fakePreflightOutput({ time: String(NOW), listening: "22,2379,6443" });
+
+    assertEquals(statuses(output)["ports"], "pass");
+    assertEquals(statuses(output, { roles: ["etcd"] })["ports"], "fail");
+    assertEquals(statuses(output, { roles: ["control-plane"] })["ports"], "fail");
+  });
+
+  it("should only warn about an unvalidated OS on custom images", () => {
+    const output = fakePreflightOutput({ time: String(NOW), os: "rocky-9.4" });
+
+    assertEquals(statuses(output)["os"], "fail");
+    assertEquals(statuses(output, { image: { customImageId: "golden" } })["os"], "warning");
+    assertEquals(evaluatePreflight(output, { ...options, image: { customImageId: "golden" } }).passed, true);
+  });
+
+  it("should check the API server over the private network when a control plane shares it", () => {
+    const unreachable = fakePreflightOutput({ time: String(NOW), apiServer: "0" });
+
+    assertEquals(statuses(unreachable)["api-server"], "fail");
+    assertEquals(statuses(unreachable, { apiServerEndpoint: undefined })["api-server"], "warning");
+    assertStringIncludes(preflightCommand(options), "</dev/tcp/10.0.0.1/6443");
+    assertEquals(preflightCommand({}).includes("/dev/tcp"), false);
+  });
+});
@@ -0,0 +1,283 @@
+import { parse } from "jsr:@std/yaml";
+import { z } from "zod";
+import { readFile } from "../../api/utils.ts";
+import { Node, NodeRegions, NodeRoles } from "../node-provisioners/index.ts";
+import { Cluster } from "../state/index.ts";
+import { isExternalEtcdNode } from "./etcd.ts";
+
+const nodeResourcesSchema = z.object({
+  cpuCores: z.number().int().positive().optional(),
+  ramMb: z.number().int().positive().optional(),
+  diskMb: z.number().int().positive().optional(),
+});
+
+const nodeImageSchema = z.union([
+  z.object({ os: z.enum(["ubuntu-22.04", "ubuntu-24.04", "debian-12"]) }),
+  z.object({ customImageId: z.string().min(1) }),
+]);
+
+const nodeTaintSchema = z.object({
+  key: z.string().min(1),
+  value: z.string().optional(),
+  effect: z.enum(["NoSchedule", "PreferNoSchedule", "NoExecute"]),
+});
+
+const nodePoolSchema = z.object({
+  name: z.string().regex(/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/, "expected lowercase alphanumeric characters or dashes"),
+  roles: z.array(z.enum(NodeRoles)).min(1),
+  count: z.number().int().min(0),
+  resources: nodeResourcesSchema.optional(),
+  region: z.enum(NodeRegions).optional(),
+  image: nodeImageSchema.optional(),
+  labels: z.record(z.string()).optional(),
+  taints: z.array(nodeTaintSchema).optional(),
+});
+
+const addonSchema = z.object({
+  name: z.string().min(1),
+  /**
+   * URL of the manifest, applied with kubectl
+   */
+  manifest: z.string().url(),
+});
+
+const uniqueNames = (items: { name: string }[]) => new Set(items.map((item) => item.name)).size === items.length;
+
+/**
+ * Desired state of a cluster, declared in a YAML file:
+ * ```yaml
+ * domainName: example.com
+ * k8sVersion: 1.31.4
+ * cni: calico
+ * controlPlane: { count: 3 }
+ * pools:
+ *   - name: ingress
+ *     roles: [worker]
+ *     count: 2
+ *     resources: { cpuCores: 4 }
+ *     labels: { example.com/pool: ingress }
+ *     taints: [{ key: dedicated, value: ingress, effect: NoSchedule }]
+ * addons:
+ *   - name: metrics-server
+ *     manifest: https://github.com/kubernetes-sigs/metrics-server/releases/latest/download/components.yaml
+ * ```
+ * Control planes and etcd nodes outside of pools are counted by `controlPlane.count` and `etcd.count`, other nodes
+ * outside of pools are left as is.
+ */
+export const clusterSpecSchema = z.object({
+  domainName: z.string().min(1),
+  k8sVersion: z.string().regex(/^v?\d+\.\d+\.\d+$/, "expected <major>.<minor>.<patch>"),
+  cni: z.enum(["calico", "flannel"]).default("calico"),
+  podCidr: z.string().default("10.244.0.0/16"),
+  serviceCidr: z.string().default("10.96.0.0/12"),
+  /**
+   * Region of the control planes, and of the pools without a region
+   */
+  region: z.enum(NodeRegions).optional(),
+  /**
+   * DNS name or VIP of the API server, see InitClusterOptions
+   */
+  controlPlaneEndpoint: z.string().min(1).optional(),
+  controlPlane: z
+    .object({
+      count: z.number().int().min(1).default(1),
+      resources: nodeResourcesSchema.optional(),
+      image: nodeImageSchema.optional(),
+    })
+    .default({}),
+  /**
+   * Dedicated etcd nodes, etcd runs on the control planes when the count is 0
+   */
+  etcd: z
+    .object({
+      count: z.number().int().min(0).default(0),
+      resources: nodeResourcesSchema.optional(),
+      image: nodeImageSchema.optional(),
+    })
+    .default({}),
+  pools: z.array(nodePoolSchema).default([]).refine(uniqueNames, "Pool names must be unique"),
+  addons: z.array(addonSchema).default([]).refine(uniqueNames, "Addon names must be unique"),
+});
+
+export type ClusterSpec = z.infer<typeof clusterSpecSchema>;
+
+export async function loadClusterSpec(specFile: string): Promise<ClusterSpec> {
+  const result = clusterSpecSchema.safeParse(parse(await readFile(specFile)));
+  if (!result.success) {
+    throw new Error(`Invalid cluster spec ${specFile}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+export type ClusterAction =
+  | { type: "init-cluster" }
+  | { type: "add-node"; roles: NodeRoles; pool?: string }
+  | { type: "remove-node"; nodeId: string; publicIp: string; pool?: string }
+  // provisioned but not registered in Kubernetes, e.g. its join failed, there is nothing to drain
+  | { type: "deprovision-node"; nodeId: string; publicIp: string }
+  | { type: "apply-addon"; name: string; manifest: string }
+  | { type: "delete-addon"; name: string; manifest: string };
+
+export interface ClusterPlan {
+  /**
+   * Unset until the cluster is created
+   */
+  clusterId?: string;
+  /**
+   * Actions converging the cluster to the spec, in the order they run
+   */
+  actions: ClusterAction[];
+  /**
+   * Differences the plan cannot converge, apply refuses to run while there are any
+   */
+  conflicts: string[];
+}
+
+export interface LiveClusterState {
+  clusterId?: string;
+  /**
+   * Stored cluster, unset when the cluster does not exist yet
+   */
+  cluster?: Cluster;
+  /**
+   * Nodes of the cluster, as listed by the provisioner
+   */
+  nodes: Node[];
+  /**
+   * Ids of the nodes registered in Kubernetes
+   */
+  registeredNodeIds: string[];
+}
+
+const SETTINGS = ["k8sVersion", "cni", "podCidr", "serviceCidr"] as const;
+
+// highest index first, the nodes added last are removed first
+const byIndexDescending = (a: Node, b: Node) => (b.index ?? 0) - (a.index ?? 0);
+
+/**
+ * Diff the spec against the live state of the cluster
+ * Nodes are added before any is removed so that the capacity never drops below the spec while converging
+ */
+export function planClusterChanges(spec: ClusterSpec, live: LiveClusterState): ClusterPlan {
+  const conflicts: string[] = [];
+  if (live.clusterId && !live.cluster) {
+    conflicts.push(`Cluster ${live.clusterId} is not recorded in the state store, its settings cannot be compared`);
+  }
+  for (const key of SETTINGS) {
+    if (live.cluster && live.cluster[key] !== spec[key]) {
+      conflicts.push(
+        key === "k8sVersion"
+          ? `k8sVersion is ${live.cluster.k8sVersion}, upgrade the cluster to ${spec.k8sVersion} before applying`
+          : `${key} is ${live.cluster[key]} and cannot be changed to ${spec[key]} on an existing cluster`
+      );
+    }
+  }
+  const endpointHost = live.cluster?.controlPlaneEndpoint.replace(/:\d+$/, "");
+  if (spec.controlPlaneEndpoint && endpointHost && endpointHost !== spec.controlPlaneEndpoint) {
+    conflicts.push(
+      `controlPlaneEndpoint is ${endpointHost} and cannot be changed to ${spec.controlPlaneEndpoint} ` +
+        "on an existing cluster"
+    );
+  }
+
+  const externalEtcd = live.nodes.some(isExternalEtcdNode);
+  if (live.cluster && externalEtcd !== spec.etcd.count > 0) {
+    conflicts.push(
+      externalEtcd
+        ? "etcd runs on dedicated nodes and cannot move to the control planes of an existing cluster"
+        : "etcd runs on the control planes and cannot move to dedicated nodes on an existing cluster"
+    );
+  }
+
+  const init: ClusterAction[] = live.clusterId ? [] : [{ type: "init-cluster" }];
+  // etcd nodes never register in Kubernetes
+  const registered = new Set(live.registeredNodeIds);
+  const isMember = (node: Node) => registered.has(node.id) || isExternalEtcdNode(node);
+  const members = live.nodes.filter(isMember);
+  const deprovisions: ClusterAction[] = live.nodes
+    .filter((node) => !isMember(node))
+    .map((node) => ({ type: "deprovision-node", nodeId: node.id, publicIp: node.publicIp }));
+
+  const adds: ClusterAction[] = [];
+  const removes: (ClusterAction & { type: "remove-node" })[] = [];
+  const converge = (current: Node[], count: number, add: ClusterAction & { type: "add-node" }) => {
+    for (let i = current.length; i < count; i++) {
+      adds.push(add);
+    }
+    for (const node of [...current].sort(byIndexDescending).slice(0, Math.max(0, current.length - count))) {
+      removes.push({ type: "remove-node", nodeId: node.id, publicIp: node.publicIp, pool: node.pool });
+    }
+  };
+
+  // a new cluster starts with the control plane provisioned by its init
+  converge(
+    members.filter((node) => !node.pool && node.roles.includes("control-plane")),
+    spec.controlPlane.count - init.length,
+    { type: "add-node", roles: ["control-plane"] }
+  );
+  // a new cluster starts with all of its etcd nodes
+  if (spec.etcd.count > 0) {
+    converge(
+      members.filter((node) => !node.pool && isExternalEtcdNode(node)),
+      init.length > 0 ? 0 : spec.etcd.count,
+      { type: "add-node", roles: ["etcd"] }
+    );
+  }
+  for (const pool of spec.pools) {
+    converge(
+      members.filter((node) => node.pool === pool.name),
+      pool.count,
+      { type: "add-node", roles: pool.roles, pool: pool.name }
+    );
+  }
+  for (const node of members.filter((node) => node.pool && !spec.pools.some((pool) => pool.name === node.pool))) {
+    removes.push({ type: "remove-node", nodeId: node.id, publicIp: node.publicIp, pool: node.pool });
+  }
+  // control planes and etcd nodes go last, after the nodes they serve
+  removes.sort((a, b) => Number(!a.pool) - Number(!b.pool));
+
+  const appliedAddons = live.cluster?.addons ?? {};
+  const addons: ClusterAction[] = [
+    ...spec.addons
+      .filter((addon) => appliedAddons[addon.name] !== addon.manifest)
+      .map((addon): ClusterAction => ({ type: "apply-addon", ...addon })),
+    ...Object.entries(appliedAddons)
+      .filter(([name]) => !spec.addons.some((addon) => addon.name === name))
+      .map(([name, manifest]): ClusterAction => ({ type: "delete-addon", name, manifest })),
+  ];
+
+  return {
+    ...(live.clusterId ? { clusterId: live.clusterId } : {}),
+    actions: [...init, ...deprovisions, ...adds, ...removes, ...addons],
+    conflicts,
+  };
+}
+
+const describeAction = (action: ClusterAction): string => {
+  switch (action.type) {
+    case "init-cluster":
+      return "+ init the cluster on a new control plane";
+    case "add-node":
+      return `+ add ${/^[aeiou]/.test(action.roles[0]) ? "an" : "a"} ${action.roles.join("/")} node${
+        action.pool ? ` to pool ${action.pool}` : ""
+      }`;
+    case "remove-node":
+      return `- drain and remove node ${action.publicIp}${action.pool ? ` from pool ${action.pool}` : ""}`;
+    case "deprovision-node":
+      return `- deprovision node ${action.publicIp}, not registered in Kubernetes`;
+    case "apply-addon":
+      return `~ apply addon ${action.name} from ${action.manifest}`;
+    case "delete-addon":
+      return `- delete addon ${action.name}`;
+  }
+};
+
+export function formatClusterPlan(plan: ClusterPlan): string {
+  if (plan.conflicts.length > 0) {
+    return ["The spec cannot be applied:", ...plan.conflicts.map((conflict) => `! ${conflict}`)].join("\n");
+  }
+  if (plan.actions.length === 0) {
+    return "The cluster matches the spec, nothing to change";
+  }
+  return ["Planned changes:", ...plan.actions.map(describeAction)].join("\n");
+}
@@ -0,0 +1,192 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { Node, NodeRoles } from "../node-provisioners/index.ts";
+import { Cluster } from "../state/index.ts";
+import { ClusterSpec, LiveClusterState, clusterSpecSchema, formatClusterPlan, planClusterChanges } from "./spec.ts";
+
+const METRICS_SERVER = "https://github.com/kubernetes-sigs/metrics-server/releases/download/v0.7.2/components.yaml";
+
+const spec = (overrides: Record<string, unknown> = {}): ClusterSpec =>
+  clusterSpecSchema.parse({ domainName: "example.com", k8sVersion: "1.31.4", ...overrides });
+
+const node = (id: string, roles: NodeRoles, index: number, pool?: string): Node => ({
+  clusterId: "abc",
+  id,
+  publicIp: `203.0.113.${index + (pool ? 10 : 1)}`,
+  privateIp: `10.0.0.${index + (pool ? 10 : 1)}`,
+  networkId: "net",
+  networkCIDR: "10.0.0.0/24",
+  roles,
+  pool,
+  index,
+});
+
+const cluster = (overrides: Partial<Cluster> = {}): Cluster => ({
+  id: "abc",
+  name: "example.com",
+  domainName: "example.com",
+  k8sVersion: "1.31.4",
+  cni: "calico",
+  podCidr: "10.244.0.0/16",
+  serviceCidr: "10.96.0.0/12",
+  controlPlaneEndpoint: "203.0.113.1:6443",
+  nodes: [],
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
+
+const live = (nodes: Node[], overrides: Partial<LiveClusterState> = {}): LiveClusterState => ({
+  clusterId: "abc",
+  cluster: cluster(),
+  nodes,
+  registeredNodeIds: nodes.map((node) => node.id),
+  ...overrides,
+});
+
+const ingress = { name: "ingress", roles: ["worker"], count: 2 };
+
+describe("Cluster spec", () => {
+  it("should plan a new cluster from its control planes, pools and addons", () => {
+    const plan = planClusterChanges(
+      spec({
+        controlPlane: { count: 3 },
+        pools: [ingress],
+        addons: [{ name: "metrics-server", manifest: METRICS_SERVER }],
+      }),
+      { nodes: [], registeredNodeIds: [] }
+    );
+
+    assertEquals(plan.conflicts, []);
+    assertEquals(formatClusterPlan(plan).split("\n"), [
+      "Planned changes:",
+      "+ init the cluster on a new control plane",
+      "+ add a control-plane node",
+      "+ add a control-plane node",
+      "+ add a worker node to pool ingress",
+      "+ add a worker node to pool ingress",
+      `~ apply addon metrics-server from ${METRICS_SERVER}`,
+    ]);
+  });
+
+  it("should have nothing to change when the cluster matches the spec", () => {
+    const nodes = [node("cp0", ["control-plane"], 0), node("i0", ["worker"], 0, "ingress")];
+
+    const plan = planClusterChanges(spec({ pools: [{ ...ingress, count: 1 }] }), live(nodes));
+
+    assertEquals(plan, { clusterId: "abc", actions: [], conflicts: [] });
+    assertEquals(formatClusterPlan(plan), "The cluster matches the spec, nothing to change");
+  });
+
+  it("should add nodes before removing the last ones added", () => {
+    const nodes = [
+      node("cp0", ["control-plane"], 0),
+      node("cp1", ["control-plane"], 1),
+      node("i0", ["worker"], 0, "ingress"),
+      node("i1", ["worker"], 1, "ingress"),
+      node("b0", ["worker"], 0, "batch"),
+    ];
+
+    const pools = [{ ...ingress, count: 1 }, { ...ingress, name: "gpu" }];
+
+    const plan = planClusterChanges(spec({ pools }), live(nodes));
+
+    assertEquals(plan.actions, [
+      { type: "add-node", roles: ["worker"], pool: "gpu" },
+      { type: "add-node", roles: ["worker"], pool: "gpu" },
+      { type: "remove-node", nodeId: "i1", publicIp: "203.0.113.11", pool: "ingress" },
+      // the batch pool is not in the spec anymore
+      { type: "remove-node", nodeId: "b0", publicIp: "203.0.113.10", pool: "batch" },
+      { type: "remove-node", nodeId: "cp1", publicIp: "203.0.113.2", pool: undefined },
+    ]);
+  });
+
+  it("should deprovision nodes that never registered in Kubernetes", () => {
+    const nodes = [node("cp0", ["control-plane"], 0), node("i0", ["worker"], 0, "ingress")];
+
+    const plan = planClusterChanges(
+      spec({ pools: [{ ...ingress, count: 1 }] }),
+      live(nodes, { registeredNodeIds: ["cp0"] })
+    );
+
+    assertEquals(plan.actions, [
+      { type: "deprovision-node", nodeId: "i0", publicIp: "203.0.113.10" },
+      { type: "add-node", roles: ["worker"], pool: "ingress" },
+    ]);
+  });
+
+  it("should apply changed addons and delete the ones removed from the spec", () => {
+    const nodes = [node("cp0", ["control-plane"], 0)];
+    const applied = {
+      "metrics-server": "https://example.com/v0.7.1.yaml",
+      dashboard: "https://example.com/dashboard.yaml",
+    };
+
+    const plan = planClusterChanges(
+      spec({ addons: [{ name: "metrics-server", manifest: METRICS_SERVER }] }),
+      live(nodes, { cluster: cluster({ addons: applied }) })
+    );
+
+    assertEquals(plan.actions, [
+      { type: "apply-addon", name: "metrics-server", manifest: METRICS_SERVER },
+      { type: "delete-addon", name: "dashboard", manifest: "https://example.com/dashboard.yaml" },
+    ]);
+  });
+
+  it("should report settings that cannot be changed on an existing cluster", () => {
+    const nodes = [node("cp0", ["control-plane"], 0)];
+
+    const plan = planClusterChanges(
+      spec({ k8sVersion: "1.32.0", cni: "flannel", controlPlaneEndpoint: "api.example.com" }),
+      live(nodes)
+    );
+
+    const formatted = formatClusterPlan(plan);
+    assertStringIncludes(formatted, "The spec cannot be applied:");
+    assertStringIncludes(formatted, "! k8sVersion is 1.31.4, upgrade the cluster to 1.32.0 before applying");
+    assertStringIncludes(formatted, "! cni is calico and cannot be changed to flannel on an existing cluster");
+    assertStringIncludes(formatted, "! controlPlaneEndpoint is 203.0.113.1 and cannot be changed to api.example.com");
+    assertEquals(planClusterChanges(spec(), live([], { cluster: undefined })).conflicts.length, 1);
+  });
+
+  it("should count etcd nodes as members although they never register in Kubernetes", () => {
+    const nodes = [node("cp0", ["control-plane"], 0), node("e0", ["etcd"], 1)];
+
+    const plan = planClusterChanges(spec({ etcd: { count: 3 } }), live(nodes, { registeredNodeIds: ["cp0"] }));
+
+    assertEquals(plan.conflicts, []);
+    assertEquals(formatClusterPlan(plan).split("\n"), ["Planned changes:", "+ add an etcd node", "+ add an etcd node"]);
+    assertEquals(
+      planClusterChanges(spec({ etcd: { count: 3 } }), { nodes: [], registeredNodeIds: [] }).actions,
+      [{ type: "init-cluster" }]
+    );
+  });
+
+  it("should refuse to move etcd between the control planes and dedicated nodes", () => {
+    const stacked = planClusterChanges(spec({ etcd: { count: 3 } }), live([node("cp0", ["control-plane"], 0)]));
+    const external = planClusterChanges(
+      spec(),
+      live([node("cp0", ["control-plane"], 0), node("e0", ["etcd"], 1)], { registeredNodeIds: ["cp0"] })
+    );
+
+    assertEquals(stacked.conflicts, [
+      "etcd runs on the control planes and cannot move to dedicated nodes on an existing cluster",
+    ]);
+    assertEquals(external.conflicts, [
+      "etcd runs on dedicated nodes and cannot move to the control planes of an existing cluster",
+    ]);
+  });
+
+  it("should refuse invalid specs", () => {
+    const invalid = (overrides: Record<string, unknown>) =>
+      !clusterSpecSchema.safeParse({ domainName: "example.com", k8sVersion: "1.31.4", ...overrides }).success;
+
+    assertEquals(invalid({}), false);
+    assertEquals(invalid({ k8sVersion: "latest" }), true);
+    assertEquals(invalid({ controlPlane: { count: 0 } }), true);
+    assertEquals(invalid({ etcd: { count: -1 } }), true);
+    assertEquals(invalid({ pools: [ingress, ingress] }), true);
+    assertEquals(invalid({ pools: [{ ...ingress, name: "Ingress" }] }), true);
+    assertEquals(invalid({ addons: [{ name: "metrics-server", manifest: "components.yaml" }] }), true);
+  });
+});
@@ -0,0 +1,123 @@
+import { SupportedOsImages } from "../node-provisioners/_common.ts";
+
+/**
+ * Node as registered in Kubernetes, read before upgrading to check the version skew and the health of the cluster
+ */
+export interface KubernetesNodeStatus {
+  name: string;
+  kubeletVersion: string;
+  ready: boolean;
+}
+
+export interface UpgradeCheckOptions {
+  /**
+   * Version the cluster runs, as stored in the state
+   */
+  from: string;
+  to: string;
+  nodes: KubernetesNodeStatus[];
+}
+
+/**
+ * The kubelet may be up to 3 minor versions older than the API server, workers wait for the control planes
+ */
+const MAX_KUBELET_SKEW = 3;
+
+const KUBECTL = "kubectl --kubeconfig=/etc/kubernetes/admin.conf";
+
+function parseVersion(version: string): [number, number, number] {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid Kubernetes version ${version}, expected <major>.<minor>.<patch>`);
+  }
+  const [, major, minor, patch] = match.map(Number);
+  return [major, minor, patch];
+}
+
+const compareVersions = (a: string, b: string) => {
+  const [x, y] = [parseVersion(a), parseVersion(b)];
+  return x[0] - y[0] || x[1] - y[1] || x[2] - y[2];
+};
+
+/**
+ * Ensure the cluster can be upgraded to the version: kubeadm upgrades one minor version at a time, never downgrades,
+ * and every kubelet has to stay within the supported skew of the upgraded API servers
+ */
+export function checkUpgrade(options: UpgradeCheckOptions): void {
+  const { from, to, nodes } = options;
+  const [major, minor] = parseVersion(to);
+  const [fromMajor, fromMinor] = parseVersion(from);
+  if (compareVersions(to, from) <= 0) {
+    throw new Error(`Cannot upgrade from ${from} to ${to}, the target version has to be newer`);
+  }
+  if (major !== fromMajor || minor > fromMinor + 1) {
+    throw new Error(
+      `Cannot upgrade from ${from} to ${to}, kubeadm upgrades one minor version at a time: ` +
+        `upgrade to ${fromMajor}.${fromMinor + 1} first`
+    );
+  }
+  if (!SupportedOsImages[`${major}.${minor}`]) {
+    throw new Error(
+      `Unsupported Kubernetes version ${to}, supported versions: ${Object.keys(SupportedOsImages).join(", ")}`
+    );
+  }
+  for (const node of nodes) {
+    const [kubeletMajor, kubeletMinor] = parseVersion(node.kubeletVersion);
+    if (kubeletMajor !== major || minor - kubeletMinor > MAX_KUBELET_SKEW) {
+      throw new Error(
+        `The kubelet of node ${node.name} runs ${node.kubeletVersion}, more than ${MAX_KUBELET_SKEW} minor versions ` +
+          `behind ${to}`
+      );
+    }
+    if (compareVersions(node.kubeletVersion, to) > 0) {
+      throw new Error(`The kubelet of node ${node.name} runs ${node.kubeletVersion}, newer than ${to}`);
+    }
+  }
+  const notReady = nodes.filter((node) => !node.ready);
+  if (notReady.length > 0) {
+    throw new Error(`Cannot upgrade while nodes are not ready: ${notReady.map((node) => node.name).join(", ")}`);
+  }
+}
+
+/**
+ * Shell command upgrading the control plane components and the cluster configuration, run on the first control plane
+ */
+export function upgradeApplyCommand(k8sVersion: string): string {
+  return `kubeadm upgrade apply v${k8sVersion.replace(/^v/, "")} --yes`;
+}
+
+/**
+ * Shell command upgrading the other control planes, or the kubelet configuration of a worker, to the version applied
+ * on the first control plane
+ */
+export const UPGRADE_NODE_COMMAND = "kubeadm upgrade node";
+
+export const RESTART_KUBELET_COMMAND = "systemctl daemon-reload && systemctl restart kubelet";
+
+/**
+ * Health of the API server of the control plane the command runs on, reached locally to bypass the endpoint
+ */
+export const API_SERVER_READY_COMMAND = "curl -fsk https://127.0.0.1:6443/readyz";
+
+/**
+ * Shell command cordoning the node and evicting its pods
+ * Pods without a controller are not deleted, the drain fails and the upgrade stops instead
+ */
+export function drainNodeCommand(name: string): string {
+  return `${KUBECTL} drain ${name} --ignore-daemonsets --delete-emptydir-data --timeout=10m`;
+}
+
+export function uncordonNodeCommand(name: string): string {
+  return `${KUBECTL} uncordon ${name}`;
+}
+
+/**
+ * Shell command waiting for the kubelet of the node to report the version and to be ready again
+ */
+export function waitForNodeUpgradeCommand(name: string, k8sVersion: string): string {
+  const version = `v${k8sVersion.replace(/^v/, "")}`;
+  return [
+    `${KUBECTL} wait node/${name} --for=jsonpath='{.status.nodeInfo.kubeletVersion}'=${version} --timeout=5m`,
+    `${KUBECTL} wait node/${name} --for=condition=Ready --timeout=5m`,
+  ].join(" && ");
+}
@@ -0,0 +1,62 @@
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { KubernetesNodeStatus, checkUpgrade, upgradeApplyCommand, waitForNodeUpgradeCommand } from "./upgrade.ts";
+
+const node = (name: string, kubeletVersion: string, ready = true): KubernetesNodeStatus => ({
+  name,
+  kubeletVersion,
+  ready,
+});
+
+describe("Cluster upgrade", () => {
+  it("should upgrade to the next minor version or a newer patch", () => {
+    const nodes = [node("control-plane-0", "v1.31.4"), node("worker-0", "v1.31.4")];
+
+    checkUpgrade({ from: "1.31.4", to: "1.32.0", nodes });
+    checkUpgrade({ from: "1.31.4", to: "v1.31.5", nodes });
+    assertThrows(() => checkUpgrade({ from: "1.31.4", to: "1.31.4", nodes }), Error, "has to be newer");
+    assertThrows(() => checkUpgrade({ from: "1.31.4", to: "1.30.8", nodes }), Error, "has to be newer");
+    assertThrows(
+      () => checkUpgrade({ from: "1.30.8", to: "1.32.0", nodes }),
+      Error,
+      "one minor version at a time: upgrade to 1.31 first"
+    );
+    assertThrows(() => checkUpgrade({ from: "1.32.0", to: "1.33.0", nodes }), Error, "Unsupported Kubernetes version");
+    assertThrows(() => checkUpgrade({ from: "1.31.4", to: "1.32", nodes }), Error, "Invalid Kubernetes version");
+  });
+
+  it("should keep every kubelet within the supported skew", () => {
+    // kubelets of a previous interrupted upgrade already run the target version
+    checkUpgrade({ from: "1.31.4", to: "1.32.0", nodes: [node("worker-0", "v1.29.12"), node("worker-1", "v1.32.0")] });
+
+    assertThrows(
+      () => checkUpgrade({ from: "1.31.4", to: "1.32.0", nodes: [node("worker-0", "v1.28.15")] }),
+      Error,
+      "The kubelet of node worker-0 runs v1.28.15, more than 3 minor versions behind 1.32.0"
+    );
+    assertThrows(
+      () => checkUpgrade({ from: "1.31.4", to: "1.31.5", nodes: [node("worker-0", "v1.31.6")] }),
+      Error,
+      "newer than 1.31.5"
+    );
+  });
+
+  it("should only upgrade healthy clusters", () => {
+    const nodes = [node("control-plane-0", "v1.31.4"), node("worker-0", "v1.31.4", false)];
+
+    assertThrows(
+      () => checkUpgrade({ from: "1.31.4", to: "1.32.0", nodes }),
+      Error,
+      "Cannot upgrade while nodes are not ready: worker-0"
+    );
+  });
+
+  it("should wait for the kubelet version before the node condition", () => {
+    assertEquals(upgradeApplyCommand("1.32.0"), "kubeadm upgrade apply v1.32.0 --yes");
+    assertEquals(waitForNodeUpgradeCommand("worker-0", "1.32.0").split(" && "), [
+      "kubectl --kubeconfig=/etc/kubernetes/admin.conf wait node/worker-0 " +
+        "--for=jsonpath='{.status.nodeInfo.kubeletVersion}'=v1.32.0 --timeout=5m",
+      "kubectl --kubeconfig=/etc/kubernetes/admin.conf wait node/worker-0 --for=condition=Ready --timeout=5m",
+    ]);
+  });
+});
@@ -1,45 +1,364 @@
-import { NodeProvider } from "./index.ts";
-import { decodeBase64, encodeBase64 } from "jsr:@std/encoding/base64";
+import { Node, NodeImage, NodeProvider, NodeResources, OsImage } from "./index.ts";
+import { decodeBase64 } from "jsr:@std/encoding/base64";
+import { decodeBase64Url, encodeBase64Url } from "jsr:@std/encoding/base64url";
+import { Buffer } from "node:buffer";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as process from "node:process";
+import { z } from "zod";
+import { DEFAULT_SSH_KEY_DIR, getClusterKeyPath, loadSshKeyPair } from "../ssh/keys.ts";
 
+export type NodeRoles = (typeof NodeRoles)[number][];
+export const NodeRoles = ["control-plane", "etcd", "worker"] as const;
 
-export function generateNodeNetworkId(data: {
-  clusterId: string;
-  provider: NodeProvider;
-  providerCustomerId: string;
-  privateNetworkId: string;
-}): string {
-	const encodeBuffer = new TextEncoder().encode;
-	return encodeBase64(encodeBuffer(JSON.stringify(data)));
+/**
+ * Provider-neutral regions, each provisioner maps them to its own region identifiers
+ */
+export type NodeRegion = (typeof NodeRegions)[number];
+export const NodeRegions = ["europe", "us-central", "us-east", "us-west", "asia-southeast"] as const;
+
+export const DefaultNodeRegion: NodeRegion = "europe";
+
+/**
+ * Minimum resources per role, control planes run the API server, scheduler and controller manager
+ * so they get more room than workers to keep the control plane responsive
+ */
+export const DefaultNodeResources: Record<NodeRoles[number], Required<NodeResources>> = {
+  "control-plane": { cpuCores: 4, ramMb: 8192, diskMb: 76800 },
+  etcd: { cpuCores: 2, ramMb: 4096, diskMb: 51200 },
+  worker: { cpuCores: 2, ramMb: 4096, diskMb: 51200 },
+};
+
+export const DefaultNodeImage: NodeImage = { os: "ubuntu-24.04" };
+
+/**
+ * Operating systems validated for each Kubernetes minor version
+ */
+export const SupportedOsImages: Record<string, OsImage[]> = {
+  "1.29": ["ubuntu-22.04", "debian-12"],
+  "1.30": ["ubuntu-22.04", "ubuntu-24.04", "debian-12"],
+  "1.31": ["ubuntu-22.04", "ubuntu-24.04", "debian-12"],
+  "1.32": ["ubuntu-22.04", "ubuntu-24.04", "debian-12"],
+};
+
+/**
+ * Ensure the image can run the given Kubernetes version
+ * Custom images are trusted, they are expected to be built for the cluster
+ */
+export function validateNodeImage(k8sVersion: string, image: NodeImage = DefaultNodeImage): void {
+  if ("customImageId" in image) {
+    return;
+  }
+  const minor = k8sVersion.replace(/^v/, "").split(".").slice(0, 2).join(".");
+  const supportedOsImages = SupportedOsImages[minor];
+  if (!supportedOsImages) {
+    throw new Error(
+      `Unsupported Kubernetes version ${k8sVersion}, supported versions: ${Object.keys(SupportedOsImages).join(", ")}`
+    );
+  }
+  if (!supportedOsImages.includes(image.os)) {
+    throw new Error(
+      `${image.os} is not supported with Kubernetes ${k8sVersion}, supported images: ${supportedOsImages.join(", ")}`
+    );
+  }
 }
 
-export function generateNodeId(data: {
-  clusterId: string;
-  provider: NodeProvider;
-  providerCustomerId: string;
-  privateNetworkId: string;
-  instanceId: string;
-}): string {
-	const encodeBuffer = new TextEncoder().encode;
-	return encodeBase64(encodeBuffer(JSON.stringify(data)));
+/**
+ * Merge the requested resources with the defaults of the node roles
+ */
+export function resolveNodeResources(roles: NodeRoles, resources?: NodeResources): Required<NodeResources> {
+  const defaults = roles.map((role) => DefaultNodeResources[role]);
+  const max = (key: keyof NodeResources) => Math.max(0, ...defaults.map((resources) => resources[key]));
+  return {
+    cpuCores: resources?.cpuCores ?? max("cpuCores"),
+    ramMb: resources?.ramMb ?? max("ramMb"),
+    diskMb: resources?.diskMb ?? max("diskMb"),
+  };
 }
 
-export function retrieveDataFromNodeNetworkId(networkId: string): {
+/**
+ * Metadata of a node stored as provider tags
+ * Tags are authoritative, unlike display names they are not changed by renaming an instance in the provider panel
+ */
+export interface NodeMetadata {
   clusterId: string;
-  provider: NodeProvider;
-  providerCustomerId: string;
-  privateNetworkId: string;
-} {
-	const decodeBuffer = new TextDecoder().decode;
-	return JSON.parse(decodeBuffer(decodeBase64(networkId)));
+  roles: NodeRoles;
+  pool?: string;
+  index?: number;
+  labels?: Record<string, string>;
 }
 
-export function retrieveDataFromNodeId(id: string): {
-  clusterId: string;
-  provider: NodeProvider;
-  providerCustomerId: string;
-  privateNetworkId: string;
-  instanceId: string;
-} {
-	const decodeBuffer = new TextDecoder().decode;
-	return JSON.parse(decodeBuffer(decodeBase64(id)));
-}
\ No newline at end of file
+const NODE_TAG_PREFIXES = ["cluster:", "role:", "pool:", "index:", "label:"];
+
+/**
+ * Whether the tag is one of the tags written by encodeNodeTags
+ */
+export const isNodeTag = (tag: string) => NODE_TAG_PREFIXES.some((prefix) => tag.startsWith(prefix));
+
+export function encodeNodeTags(metadata: NodeMetadata): string[] {
+  const { clusterId, roles, pool, index, labels = {} } = metadata;
+  return [
+    `cluster:${clusterId}`,
+    ...roles.map((role) => `role:${role}`),
+    ...(pool ? [`pool:${pool}`] : []),
+    ...(index !== undefined ? [`index:${index}`] : []),
+    ...Object.entries(labels).map(([key, value]) => `label:${key}=${value}`),
+  ];
+}
+
+/**
+ * Read node metadata back from tags, unrelated tags are ignored
+ * @returns undefined when the tags do not hold a cluster id
+ */
+export function decodeNodeTags(tags: string[]): NodeMetadata | undefined {
+  const values = (prefix: string) =>
+    tags.filter((tag) => tag.startsWith(`${prefix}:`)).map((tag) => tag.slice(prefix.length + 1));
+  const [clusterId] = values("cluster");
+  if (!clusterId) {
+    return undefined;
+  }
+  const roles = values("role");
+  const [pool] = values("pool");
+  const [index] = values("index");
+  const labels = values("label").map((label) => label.split("=", 2) as [string, string]);
+  return {
+    clusterId,
+    // unique roles orderby NodeRoles order
+    roles: NodeRoles.filter((role) => roles.includes(role)),
+    ...(pool ? { pool } : {}),
+    ...(index !== undefined ? { index: Number.parseInt(index) } : {}),
+    ...(labels.length > 0 ? { labels: Object.fromEntries(labels) } : {}),
+  };
+}
+
+/**
+ * Lowest index not used by the nodes of the same pool, or of the same primary role when there is no pool
+ */
+export function getNextNodeIndex(
+  nodes: Pick<Node, "roles" | "pool" | "index">[],
+  options: { roles: NodeRoles; pool?: string }
+): number {
+  const siblings = nodes.filter((node) =>
+    options.pool ? node.pool === options.pool : !node.pool && node.roles[0] === options.roles[0]
+  );
+  const used = new Set(siblings.map((node) => node.index));
+  let index = 0;
+  while (used.has(index)) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Public key authorized on the nodes of the cluster, the given one or the one of the cluster keypair
+ * Nodes never fall back to a key shared by every cluster
+ */
+export async function resolveClusterPublicKey(clusterId: string, publicKey?: string): Promise<string> {
+  if (publicKey) {
+    return publicKey;
+  }
+  const privateKeyPath = getClusterKeyPath(clusterId);
+  const keyPair = await loadSshKeyPair(privateKeyPath);
+  if (!keyPair) {
+    throw new Error(`No SSH key found for cluster ${clusterId} at ${privateKeyPath}`);
+  }
+  return keyPair.publicKey;
+}
+
+export interface RollbackOutcome {
+  step: string;
+  status: "rolled-back" | "failed";
+  error?: string;
+}
+
+/**
+ * Provisioning failed, the provisioning steps done so far have been rolled back
+ * A failed rollback leaves resources to clean up by hand, `rollback` tells which ones
+ */
+export class ProvisioningError extends Error {
+  override name = "ProvisioningError";
+
+  constructor(message: string, readonly rollback: RollbackOutcome[], options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+export interface Rollback {
+  /**
+   * Register the compensating action of a step, to call once the step succeeded
+   */
+  register(step: string, compensate: () => Promise<void>): void;
+}
+
+/**
+ * Run the provisioning steps, on failure run the compensating actions they registered in reverse order
+ * Every compensating action runs even if a previous one failed, the outcomes are reported in the ProvisioningError
+ */
+export async function withRollback<T>(provision: (rollback: Rollback) => Promise<T>): Promise<T> {
+  const steps: { step: string; compensate: () => Promise<void> }[] = [];
+  try {
+    return await provision({ register: (step, compensate) => steps.push({ step, compensate }) });
+  } catch (error) {
+    const outcomes: RollbackOutcome[] = [];
+    for (const { step, compensate } of steps.reverse()) {
+      try {
+        await compensate();
+        outcomes.push({ step, status: "rolled-back" });
+      } catch (rollbackError) {
+        const message = rollbackError instanceof Error ? rollbackError.message : String(rollbackError);
+        outcomes.push({ step, status: "failed", error: message });
+      }
+    }
+    const failed = outcomes.filter((outcome) => outcome.status === "failed");
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ProvisioningError(
+      failed.length === 0
+        ? `Failed to provision node: ${reason}, rolled back ${outcomes.length} step(s)`
+        : `Failed to provision node: ${reason}, rollback failed for: ${failed.map((outcome) => outcome.step).join(", ")}`,
+      outcomes,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * Signing secret of node and network ids, from NODE_ID_SECRET or generated once next to the cluster SSH keys
+ * Ids signed with another secret are rejected, keep the file with the keys
+ */
+export const getNodeIdSecretFile = () => path.join(DEFAULT_SSH_KEY_DIR, "node-id.key");
+
+let generatedNodeIdSecret: string | undefined;
+
+const readNodeIdSecret = () => fs.readFileSync(getNodeIdSecretFile(), "utf8").trim();
+
+function getNodeIdSecret(): string {
+  if (process.env.NODE_ID_SECRET) {
+    return process.env.NODE_ID_SECRET;
+  }
+  if (!generatedNodeIdSecret) {
+    try {
+      generatedNodeIdSecret = readNodeIdSecret();
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw new Error(`Failed to read the node id secret ${getNodeIdSecretFile()}: ${error}`, { cause: error });
+      }
+      generatedNodeIdSecret = generateNodeIdSecret();
+    }
+  }
+  return generatedNodeIdSecret;
+}
+
+function generateNodeIdSecret(): string {
+  const secret = randomBytes(32).toString("hex");
+  fs.mkdirSync(path.dirname(getNodeIdSecretFile()), { recursive: true, mode: 0o700 });
+  try {
+    // wx: never overwrite the secret of ids already handed out
+    fs.writeFileSync(getNodeIdSecretFile(), secret, { mode: 0o600, flag: "wx" });
+    return secret;
+  } catch (error: unknown) {
+    // another process generated it first
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return readNodeIdSecret();
+    }
+    throw new Error(`Failed to write the node id secret ${getNodeIdSecretFile()}: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * Unsigned ids issued before ids were versioned are only accepted when NODE_ID_ALLOW_LEGACY is set, while migrating
+ * Anyone can forge them
+ */
+const allowsLegacyIds = () => ["1", "true"].includes(process.env.NODE_ID_ALLOW_LEGACY ?? "");
+
+/**
+ * The id cannot be decoded, was forged or was signed with another secret
+ */
+export class InvalidIdError extends Error {
+  override name = "InvalidIdError";
+}
+
+const ID_VERSION = "v1";
+
+const NodeNetworkIdData = z.object({
+  clusterId: z.string().min(1),
+  provider: z.enum(["contabo", "linode", "static", "fake"]) satisfies z.ZodType<NodeProvider>,
+  providerCustomerId: z.string(),
+  privateNetworkId: z.string(),
+});
+
+const NodeIdData = NodeNetworkIdData.extend({
+  instanceId: z.string().min(1),
+});
+
+type IdKind = "node" | "network";
+
+// the kind is signed with the payload, a network id is never accepted as a node id
+const signId = (kind: IdKind, payload: string) =>
+  createHmac("sha256", getNodeIdSecret()).update(`${kind}:${ID_VERSION}.${payload}`).digest("base64url");
+
+/**
+ * Ids are `v1.<payload>.<signature>`, the payload being the base64url JSON of the data
+ */
+function encodeId(kind: IdKind, data: object): string {
+  const payload = encodeBase64Url(new TextEncoder().encode(JSON.stringify(data)));
+  return `${ID_VERSION}.${payload}.${signId(kind, payload)}`;
+}
+
+function decodeId<T>(kind: IdKind, id: string, schema: z.ZodType<T>): T {
+  let json: string;
+  if (id.startsWith(`${ID_VERSION}.`)) {
+    const [, payload, signature = "", ...rest] = id.split(".");
+    const expected = Buffer.from(signId(kind, payload));
+    const actual = Buffer.from(signature);
+    if (rest.length > 0 || actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new InvalidIdError(`Invalid ${kind} id, the signature does not match`);
+    }
+    json = new TextDecoder().decode(decodeBase64Url(payload));
+  } else {
+    if (!allowsLegacyIds()) {
+      throw new InvalidIdError(
+        `Invalid ${kind} id, expected a ${ID_VERSION} id, unsigned legacy ids require NODE_ID_ALLOW_LEGACY=1`
+      );
+    }
+    // legacy ids, unsigned base64 JSON issued before ids were versioned, only their schema can be checked
+    try {
+      json = new TextDecoder().decode(decodeBase64(id));
+    } catch (error) {
+      throw new InvalidIdError(`Invalid ${kind} id, expected a ${ID_VERSION} or legacy id`, { cause: error });
+    }
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new InvalidIdError(`Invalid ${kind} id, the payload is not JSON`, { cause: error });
+  }
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new InvalidIdError(`Invalid ${kind} id: ${result.error.message}`, { cause: result.error });
+  }
+  return result.data;
+}
+
+export function generateNodeNetworkId(data: z.infer<typeof NodeNetworkIdData>): string {
+  return encodeId("network", data);
+}
+
+export function generateNodeId(data: z.infer<typeof NodeIdData>): string {
+  return encodeId("node", data);
+}
+
+/**
+ * @throws InvalidIdError when the id is malformed or forged
+ */
+export function retrieveDataFromNodeNetworkId(networkId: string): z.infer<typeof NodeNetworkIdData> {
+  return decodeId("network", networkId, NodeNetworkIdData);
+}
+
+/**
+ * @throws InvalidIdError when the id is malformed or forged
+ */
+export function retrieveDataFromNodeId(id: string): z.infer<typeof NodeIdData> {
+  return decodeId("node", id, NodeIdData);
+}
@@ -0,0 +1,166 @@
+import { assertEquals, assertInstanceOf, assertMatch, assertRejects, assertThrows } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { encodeBase64 } from "jsr:@std/encoding/base64";
+import * as process from "node:process";
+import {
+  InvalidIdError,
+  ProvisioningError,
+  decodeNodeTags,
+  encodeNodeTags,
+  generateNodeId,
+  generateNodeNetworkId,
+  getNextNodeIndex,
+  isNodeTag,
+  retrieveDataFromNodeId,
+  retrieveDataFromNodeNetworkId,
+  withRollback,
+} from "./_common.ts";
+
+describe("Node metadata tags", () => {
+  it("should read back the metadata written as tags", () => {
+    const metadata = {
+      clusterId: "0123456789abcdef",
+      roles: ["control-plane", "etcd"],
+      pool: "system",
+      index: 2,
+      labels: { rack: "a1", "topology.kubernetes.io/zone": "eu-1" },
+    } as const;
+
+    const tags = encodeNodeTags({ ...metadata, roles: [...metadata.roles] });
+
+    assertEquals(tags, [
+      "cluster:0123456789abcdef",
+      "role:control-plane",
+      "role:etcd",
+      "pool:system",
+      "index:2",
+      "label:rack=a1",
+      "label:topology.kubernetes.io/zone=eu-1",
+    ]);
+    assertEquals(decodeNodeTags(tags), { ...metadata, roles: [...metadata.roles] });
+  });
+
+  it("should ignore unrelated tags and untagged instances", () => {
+    assertEquals(decodeNodeTags(["role:worker", "billing"]), undefined);
+    assertEquals(decodeNodeTags(["billing", "cluster:abc", "role:worker", "role:unknown"]), {
+      clusterId: "abc",
+      roles: ["worker"],
+    });
+    assertEquals(["billing", "cluster:abc", "index:0"].filter(isNodeTag), ["cluster:abc", "index:0"]);
+  });
+});
+
+describe("Node index", () => {
+  it("should take the lowest free index of the pool or of the primary role", () => {
+    const nodes = [
+      { roles: ["control-plane"], index: 0 },
+      { roles: ["worker"], index: 0 },
+      { roles: ["worker"], index: 2 },
+      { roles: ["worker"], pool: "gpu", index: 0 },
+    ] as Parameters<typeof getNextNodeIndex>[0];
+
+    assertEquals(getNextNodeIndex(nodes, { roles: ["worker"] }), 1);
+    assertEquals(getNextNodeIndex(nodes, { roles: ["control-plane", "etcd"] }), 1);
+    assertEquals(getNextNodeIndex(nodes, { roles: ["etcd"] }), 0);
+    assertEquals(getNextNodeIndex(nodes, { roles: ["worker"], pool: "gpu" }), 1);
+  });
+});
+
+describe("Provisioning rollback", () => {
+  it("should not compensate anything when provisioning succeeds", async () => {
+    const compensated: string[] = [];
+
+    const result = await withRollback(async (rollback) => {
+      rollback.register("claim", () => Promise.resolve(void compensated.push("claim")));
+      return await Promise.resolve("node");
+    });
+
+    assertEquals(result, "node");
+    assertEquals(compensated, []);
+  });
+
+  it("should compensate the steps done in reverse order and report the outcomes", async () => {
+    const compensated: string[] = [];
+
+    const error = await assertRejects(() =>
+      withRollback(async (rollback) => {
+        rollback.register("claim", () => Promise.resolve(void compensated.push("claim")));
+        rollback.register("network", () => Promise.reject(new Error("network unavailable")));
+        rollback.register("tag", () => Promise.resolve(void compensated.push("tag")));
+        await Promise.reject(new Error("instance not found"));
+      })
+    );
+
+    assertInstanceOf(error, ProvisioningError);
+    assertEquals(compensated, ["tag", "claim"]);
+    assertEquals(error.rollback, [
+      { step: "tag", status: "rolled-back" },
+      { step: "network", status: "failed", error: "network unavailable" },
+      { step: "claim", status: "rolled-back" },
+    ]);
+    assertEquals(error.message, "Failed to provision node: instance not found, rollback failed for: network");
+    assertEquals((error.cause as Error).message, "instance not found");
+  });
+});
+
+describe("Node and network ids", () => {
+  process.env.NODE_ID_SECRET = "test-secret";
+
+  const data = {
+    clusterId: "abc",
+    provider: "contabo",
+    providerCustomerId: "12345",
+    privateNetworkId: "678",
+    instanceId: "901",
+  } as const;
+
+  it("should generate versioned URL-safe ids carrying their data", () => {
+    const id = generateNodeId(data);
+
+    assertMatch(id, /^v1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    assertEquals(retrieveDataFromNodeId(id), data);
+    const { instanceId: _, ...networkData } = data;
+    assertEquals(retrieveDataFromNodeNetworkId(generateNodeNetworkId(networkData)), networkData);
+  });
+
+  it("should reject forged or tampered ids", () => {
+    const [version, , signature] = generateNodeId(data).split(".");
+    const payload = btoa(JSON.stringify({ ...data, instanceId: "902" })).replaceAll("=", "");
+
+    assertThrows(() => retrieveDataFromNodeId(`${version}.${payload}.${signature}`), InvalidIdError, "signature");
+    assertThrows(() => retrieveDataFromNodeId(`${generateNodeId(data)}.extra`), InvalidIdError);
+    // ids are bound to their kind
+    const { instanceId: _, ...networkData } = data;
+    assertThrows(() => retrieveDataFromNodeId(generateNodeNetworkId(networkData)), InvalidIdError);
+  });
+
+  it("should reject ids signed with another secret", () => {
+    const id = generateNodeId(data);
+    process.env.NODE_ID_SECRET = "rotated-secret";
+    try {
+      assertThrows(() => retrieveDataFromNodeId(id), InvalidIdError);
+    } finally {
+      process.env.NODE_ID_SECRET = "test-secret";
+    }
+  });
+
+  const legacy = (value: unknown) => encodeBase64(new TextEncoder().encode(JSON.stringify(value)));
+
+  it("should reject unsigned ids by default", () => {
+    const forged = legacy({ ...data, clusterId: "someone-else" });
+
+    assertThrows(() => retrieveDataFromNodeId(forged), InvalidIdError, "NODE_ID_ALLOW_LEGACY");
+    assertThrows(() => retrieveDataFromNodeId(legacy(data)), InvalidIdError, "NODE_ID_ALLOW_LEGACY");
+  });
+
+  it("should accept legacy ids with a valid schema when allowed", () => {
+    process.env.NODE_ID_ALLOW_LEGACY = "1";
+    try {
+      assertEquals(retrieveDataFromNodeId(legacy(data)), data);
+      assertThrows(() => retrieveDataFromNodeId(legacy({ ...data, provider: "aws" })), InvalidIdError, "provider");
+      assertThrows(() => retrieveDataFromNodeId("not an id"), InvalidIdError);
+    } finally {
+      delete process.env.NODE_ID_ALLOW_LEGACY;
+    }
+  });
+});
@@ -1,19 +1,80 @@
-import { readFile } from "../../api/utils.ts";
-import * as process from "node:process";
-import {  ListNodeOptions, Node, NodeRoles, ProvisionNodeOptions } from "./index.ts";
-import { ContaboContext, ContaboRegion } from "../cloud-providers/contabo.ts";
+import { hash } from "node:crypto";
+import {
+  ListNodeOptions,
+  Node,
+  NodeImage,
+  NodeRegion,
+  NodeResources,
+  NodeRoles,
+  ProvisionNodeOptions,
+  RevokeSshKeyOptions,
+} from "./index.ts";
+import {
+  ContaboContext,
+  ContaboInstance,
+  ContaboPrivateNetwork,
+  ContaboRegion,
+  ContaboSecret,
+  ContaboTag,
+} from "../cloud-providers/contabo.ts";
 import { ContaboProvider } from "../cloud-providers/index.ts";
-import { generateNodeId, generateNodeNetworkId, retrieveDataFromNodeId } from "./_common.ts";
+import {
+  DefaultNodeImage,
+  NodeMetadata,
+  Rollback,
+  decodeNodeTags,
+  encodeNodeTags,
+  generateNodeId,
+  generateNodeNetworkId,
+  getNextNodeIndex,
+  isNodeTag,
+  resolveClusterPublicKey,
+  resolveNodeResources,
+  retrieveDataFromNodeId,
+  withRollback,
+} from "./_common.ts";
 
-async function ensureSshKey(ctx: ContaboContext, options: { name: string; value: string }): Promise<number> {
-  const { name, value } = options;
-  const sshKeys = await ContaboProvider.getSecrets(ctx, { type: "ssh", name });
+/**
+ * Secrets are named after the cluster and the key, a rotated key gets its own secret until the old one is revoked
+ */
+function getSshKeySecretName(clusterId: string, publicKey: string): string {
+  const [, blob = publicKey] = publicKey.trim().split(/\s+/);
+  return `cluster-${clusterId}-${hash("sha256", blob, "hex").slice(0, 12)}`;
+}
+
+async function findSshKeys(ctx: ContaboContext, name: string): Promise<ContaboSecret[]> {
+  // the name filter also matches secrets containing the name
+  return (await ContaboProvider.getSecrets(ctx, { type: "ssh", name })).filter((secret) => secret.name === name);
+}
+
+/**
+ * Register the public key of the node, only public keys are sent to Contabo
+ */
+async function ensureSshKey(ctx: ContaboContext, options: { clusterId: string; publicKey?: string }): Promise<number> {
+  const value = await resolveClusterPublicKey(options.clusterId, options.publicKey);
+  const name = getSshKeySecretName(options.clusterId, value);
+  const sshKeys = await findSshKeys(ctx, name);
   if (sshKeys.length === 0) {
     return await ContaboProvider.createSecret(ctx, { type: "ssh", name, value });
   }
   return sshKeys[0].secretId;
 }
 
+/**
+ * Resolve the image id, standard images are named after their distribution and version (e.g. ubuntu-24.04)
+ */
+async function resolveImageId(ctx: ContaboContext, image: NodeImage = DefaultNodeImage): Promise<string> {
+  if ("customImageId" in image) {
+    return image.customImageId;
+  }
+  const images = await ContaboProvider.listImages(ctx, { name: image.os, standardImage: true });
+  const match = images.find((candidate) => candidate.name === image.os);
+  if (!match) {
+    throw new Error(`No Contabo standard image found for ${image.os}`);
+  }
+  return match.imageId;
+}
+
 async function ensurePrivateNetwork(
   ctx: ContaboContext,
   options: { name: string; region: ContaboRegion }
@@ -25,63 +86,213 @@ async function ensurePrivateNetwork(
   return privateNetworks[0].privateNetworkId;
 }
 
+/**
+ * Release the instance when provisioning fails, an empty display name puts it back in the pool of available instances
+ * It keeps the image it was reinstalled with, the next claimer reinstalls it anyway
+ */
+function registerInstanceRelease(ctx: ContaboContext, rollback: Rollback, instanceId: number): void {
+  rollback.register(`release instance ${instanceId}`, () =>
+    ContaboProvider.setInstanceDisplayName(ctx, instanceId, "")
+  );
+}
+
 async function ensureInstance(
   ctx: ContaboContext,
+  rollback: Rollback,
   options: {
     mode: "auto" | "manual";
     displayName: string;
     sshKeys: number[];
+    resources: Required<NodeResources>;
+    imageId: string;
+    region: ContaboRegion;
+    userData?: string;
   }
 ): Promise<number> {
-  const { mode, displayName, sshKeys } = options;
-  const instance = await ContaboProvider.getAvailableInstance(ctx);
+  const { mode, displayName, sshKeys, resources, imageId, region, userData } = options;
+  const instance = await ContaboProvider.getAvailableInstance(ctx, { requirements: resources, region });
   if (instance) {
+    registerInstanceRelease(ctx, rollback, instance.instanceId);
     // reinstall instance
     return await ContaboProvider.reinstallInstance(ctx, {
       instanceId: instance.instanceId,
       sshKeys,
       displayName,
+      imageId,
+      userData,
     });
   }
   if (mode === "auto") {
-    // create instance
-    return await ContaboProvider.createInstance(ctx, options);
+    // create instance with the cheapest product matching the resources
+    const product = ContaboProvider.findCheapestProduct(resources);
+    if (!product) {
+      throw new Error(
+        `No Contabo product with at least ${resources.cpuCores} cores, ${resources.ramMb}MB RAM and ${resources.diskMb}MB disk`
+      );
+    }
+    const instanceId = await ContaboProvider.createInstance(ctx, {
+      displayName,
+      sshKeys,
+      productId: product.productId,
+      imageId,
+      region,
+      userData,
+    });
+    // instances are billed per contract, cancelling is left to the operator, the instance is kept for the next node
+    registerInstanceRelease(ctx, rollback, instanceId);
+    return instanceId;
   }
   throw new Error(
     "Automatic provisioning disabled, no available instances found, please provision instances in Contabo first"
   );
 }
 
-const regionMatch: Record<ProvisionNodeOptions["region"], ContaboRegion> = {
+const regionMatch: Record<NodeRegion, ContaboRegion> = {
   europe: "EU",
+  "us-central": "US-central",
+  "us-east": "US-east",
+  "us-west": "US-west",
+  "asia-southeast": "SIN",
 };
 
+const getRegionFromContaboRegion = (region: ContaboRegion): NodeRegion | undefined =>
+  (Object.keys(regionMatch) as NodeRegion[]).find((nodeRegion) => regionMatch[nodeRegion] === region);
+
+/**
+ * Instances are named `cluster-<clusterId>-<region>-<roles>`, regions and roles may contain dashes
+ */
+const getRolesFromDisplayName = (displayName: string, clusterId: string, region: ContaboRegion): NodeRoles => {
+  const roles = displayName.replace(`cluster-${clusterId}-${region}-`, "");
+  return NodeRoles.filter((role) => new RegExp(`(^|-)${role}(-|$)`).test(roles));
+};
+
+async function ensureTag(ctx: ContaboContext, name: string): Promise<number> {
+  // the name filter also matches tags containing the name
+  const tag = (await ContaboProvider.listTags(ctx, { name })).find((tag) => tag.name === name);
+  return tag ? tag.tagId : await ContaboProvider.createTag(ctx, { name });
+}
+
+async function tagInstance(
+  ctx: ContaboContext,
+  rollback: Rollback,
+  instanceId: number,
+  metadata: NodeMetadata
+): Promise<void> {
+  for (const name of encodeNodeTags(metadata)) {
+    const tagId = await ensureTag(ctx, name);
+    await ContaboProvider.assignTag(ctx, tagId, instanceId);
+    rollback.register(`unassign tag ${name} from instance ${instanceId}`, () =>
+      ContaboProvider.unassignTag(ctx, tagId, instanceId)
+    );
+  }
+}
+
+/**
+ * Node metadata tags of every tagged instance, by instance id
+ */
+async function getNodeTags(ctx: ContaboContext): Promise<Map<number, ContaboTag[]>> {
+  const tags = (await ContaboProvider.listTags(ctx)).filter((tag) => isNodeTag(tag.name));
+  const instanceTags = new Map<number, ContaboTag[]>();
+  await Promise.all(
+    tags.map(async (tag) => {
+      const assignments = await ContaboProvider.listTagAssignments(ctx, tag.tagId, { resourceType: "instance" });
+      for (const assignment of assignments) {
+        const instanceId = Number.parseInt(assignment.resourceId);
+        instanceTags.set(instanceId, [...(instanceTags.get(instanceId) ?? []), tag]);
+      }
+    })
+  );
+  return instanceTags;
+}
+
+/**
+ * Tags are authoritative, display names are only read for instances provisioned before nodes were tagged
+ */
+function getNodeMetadata(
+  instance: { instanceId: number; displayName: string },
+  options: { clusterId: string; region: ContaboRegion; tags: Map<number, ContaboTag[]> }
+): NodeMetadata {
+  const tags = options.tags.get(instance.instanceId) ?? [];
+  return (
+    decodeNodeTags(tags.map((tag) => tag.name)) ?? {
+      clusterId: options.clusterId,
+      roles: getRolesFromDisplayName(instance.displayName, options.clusterId, options.region),
+    }
+  );
+}
+
+function transformInstanceToNode(
+  privateNetwork: ContaboPrivateNetwork,
+  instance: ContaboPrivateNetwork["instances"][number],
+  metadata: NodeMetadata
+): Node {
+  const { clusterId, roles, pool, index, labels } = metadata;
+  return {
+    clusterId,
+    id: generateNodeId({
+      clusterId,
+      provider: "contabo",
+      providerCustomerId: privateNetwork.customerId,
+      privateNetworkId: String(privateNetwork.privateNetworkId),
+      instanceId: String(instance.instanceId),
+    }),
+    networkId: generateNodeNetworkId({
+      clusterId,
+      provider: "contabo",
+      providerCustomerId: privateNetwork.customerId,
+      privateNetworkId: String(privateNetwork.privateNetworkId),
+    }),
+    publicIp: instance.ipConfig.v4.ip,
+    privateIp: instance.privateIpConfig.v4[0].ip,
+    networkCIDR: privateNetwork.cidr,
+    roles,
+    region: getRegionFromContaboRegion(privateNetwork.region),
+    pool,
+    index,
+    labels,
+  };
+}
+
 export async function provisionNode(ctx: ContaboContext, options: ProvisionNodeOptions): Promise<Node> {
-  try {
-    // TODO: add custom minimum cpu & memory
-    // Provision instance and assign it to private network
+  return await withRollback(async (rollback) => {
+    // Provision instance and assign it to the private network of its region
     const region = regionMatch[options.region];
-    // unique roles orderby NodeRoles order 
-    const roles = options.roles.sort((a, b) => {
-      const aIndex = NodeRoles.indexOf(a);
-      const bIndex = NodeRoles.indexOf(b);
-      return aIndex - bIndex;
-    });
+    // unique roles orderby NodeRoles order
+    const roles = NodeRoles.filter((role) => options.roles.includes(role));
+    const metadata: NodeMetadata = {
+      clusterId: options.clusterId,
+      roles,
+      pool: options.pool,
+      index: getNextNodeIndex(await listNodes(ctx, { clusterId: options.clusterId }), { roles, pool: options.pool }),
+      labels: options.labels,
+    };
+    // the private network is shared by the nodes of the region, it is kept on rollback
     const privateNetworkId = await ensurePrivateNetwork(ctx, {
       name: `cluster-${options.clusterId}-${region}`,
       region,
     });
-    const instanceId = await ensureInstance(ctx, {
-      mode: "manual",
+    const instanceId = await ensureInstance(ctx, rollback, {
+      mode: options.mode ?? "manual",
       displayName: `cluster-${options.clusterId}-${region}-${roles.join("-")}`,
-      sshKeys: [
-        await ensureSshKey(ctx, {
-          name: process.env.DOMAIN_NAME,
-          value: await readFile("private.key"),
-        }),
-      ],
+      resources: resolveNodeResources(roles, options.resources),
+      imageId: await resolveImageId(ctx, options.image),
+      region,
+      userData: options.userData,
+      sshKeys: [await ensureSshKey(ctx, { clusterId: options.clusterId, publicKey: options.sshPublicKey })],
     });
-    await ContaboProvider.assignPrivateNetwork(ctx, privateNetworkId, instanceId);
+    // settle both steps before rolling back, so that no tag is assigned after the rollback ran
+    const results = await Promise.allSettled([
+      ContaboProvider.assignPrivateNetwork(ctx, privateNetworkId, instanceId).then(() =>
+        rollback.register(`unassign instance ${instanceId} from private network ${privateNetworkId}`, () =>
+          ContaboProvider.unassignPrivateNetwork(ctx, privateNetworkId, instanceId)
+        )
+      ),
+      tagInstance(ctx, rollback, instanceId, metadata),
+    ]);
+    const failure = results.find((result) => result.status === "rejected");
+    if (failure) {
+      throw failure.reason;
+    }
 
     // Find instance in private network
     const privateNetwork = await ContaboProvider.getPrivateNetwork(ctx, privateNetworkId);
@@ -90,30 +301,8 @@ export async function provisionNode(ctx: ContaboContext, options: ProvisionNodeO
       throw new Error("Instance not found in private network");
     }
 
-    // Transform instance to node
-    return {
-      clusterId: options.clusterId,
-      networkId: generateNodeNetworkId({
-        clusterId: options.clusterId,
-        provider: "contabo",
-        providerCustomerId: privateNetwork.customerId,
-        privateNetworkId: String(privateNetworkId),
-      }),
-      id: generateNodeId({
-        clusterId: options.clusterId,
-        provider: "contabo",
-        providerCustomerId: privateNetwork.customerId,
-        privateNetworkId: String(privateNetworkId),
-        instanceId: String(instanceId),
-      }),
-      publicIp: instance.ipConfig.v4.ip,
-      privateIp: instance.privateIpConfig.v4[0].ip,
-      networkCIDR: privateNetwork.cidr,
-      roles: [],
-    };
-  } catch (error) {
-    throw new Error(`Failed to provision node, rolling back`, { cause: error });
-  }
+    return transformInstanceToNode(privateNetwork, instance, metadata);
+  });
 }
 
 export async function deprovisionNode(ctx: ContaboContext, id: string): Promise<void> {
@@ -122,67 +311,170 @@ export async function deprovisionNode(ctx: ContaboContext, id: string): Promise<
     Number.parseInt(String(data.privateNetworkId)),
     Number.parseInt(String(data.instanceId)),
   ];
+  const tags = (await getNodeTags(ctx)).get(instanceId) ?? [];
   await Promise.all([
     ContaboProvider.unassignPrivateNetwork(ctx, privateNetworkId, instanceId),
+    // the instance goes back to the pool, it must not be listed as a node anymore
+    ...tags.map((tag) => ContaboProvider.unassignTag(ctx, tag.tagId, instanceId)),
     ContaboProvider.reinstallInstance(ctx, {
       instanceId,
       displayName: "",
-      sshKeys: [
-        await ensureSshKey(ctx, {
-          name: process.env.DOMAIN_NAME,
-          value: await readFile("private.key"),
-        }),
-      ],
+      imageId: await resolveImageId(ctx),
+      // the instance goes back to the pool, it stays reachable with the cluster key until it is claimed again
+      sshKeys: [await ensureSshKey(ctx, { clusterId: data.clusterId })],
     }),
   ]);
 }
 
 export async function listNodes(ctx: ContaboContext, options: ListNodeOptions): Promise<Node[]> {
-  const privateNetworks = await ContaboProvider.listPrivateNetworks(ctx, { name: `cluster-${options.clusterId}` });
-  return privateNetworks.map(privateNetwork => privateNetwork.instances.map((instance) => {
-    const roles = instance.displayName.replace(new RegExp(`cluster-${options.clusterId}-.+-`), '').split("-") as NodeRoles; 
-    return {
-      clusterId: options.clusterId,
-      id: generateNodeId({
-        clusterId: options.clusterId,
-        provider: "contabo",
-        providerCustomerId: privateNetwork.customerId,
-        privateNetworkId: String(privateNetwork.privateNetworkId),
-        instanceId: String(instance.instanceId),
-      }),
-      networkId: generateNodeNetworkId({
-        clusterId: options.clusterId,
-        provider: "contabo",
-        providerCustomerId: privateNetwork.customerId,
-        privateNetworkId: String(privateNetwork.privateNetworkId),
-      }),
-      publicIp: instance.ipConfig.v4.ip,
-      privateIp: instance.privateIpConfig.v4[0].ip,
-      networkCIDR: privateNetwork.cidr,
-      roles,
-    };
-  })).flat();
+  const [privateNetworks, tags] = await Promise.all([
+    ContaboProvider.listPrivateNetworks(ctx, { name: `cluster-${options.clusterId}` }),
+    getNodeTags(ctx),
+  ]);
+  return privateNetworks.flatMap((privateNetwork) =>
+    privateNetwork.instances.flatMap((instance) => {
+      const metadata = getNodeMetadata(instance, { clusterId: options.clusterId, region: privateNetwork.region, tags });
+      // tags win over the private network name, the instance has been moved to another cluster
+      if (metadata.clusterId !== options.clusterId) {
+        return [];
+      }
+      return [transformInstanceToNode(privateNetwork, instance, metadata)];
+    })
+  );
 }
 
 export async function getNode(ctx: ContaboContext, nodeId: string): Promise<Node> {
   const data = retrieveDataFromNodeId(nodeId);
-  const privateNetwork = await ContaboProvider.getPrivateNetwork(ctx, parseInt(data.privateNetworkId));
+  const [privateNetwork, tags] = await Promise.all([
+    ContaboProvider.getPrivateNetwork(ctx, parseInt(data.privateNetworkId)),
+    getNodeTags(ctx),
+  ]);
   const instance = privateNetwork.instances.find((instance) => instance.instanceId === parseInt(data.instanceId));
   if (!instance) {
     throw new Error(`Instance not found`);
   }
-  return {
-    clusterId: data.clusterId,
-    id: nodeId,
-    networkId: generateNodeNetworkId({
-      clusterId: data.clusterId,
-      provider: "contabo",
-      providerCustomerId: data.providerCustomerId,
-      privateNetworkId: data.privateNetworkId,
-    }),
-    publicIp: instance.ipConfig.v4.ip,
-    privateIp: instance.privateIpConfig.v4[0].ip,
-    networkCIDR: data.privateNetworkId,
-    roles: instance.displayName.replace(new RegExp(`cluster-${data.clusterId}-.+-`), '').split("-") as NodeRoles,
-  };
-}
\ No newline at end of file
+  const metadata = getNodeMetadata(instance, { clusterId: data.clusterId, region: privateNetwork.region, tags });
+  return transformInstanceToNode(privateNetwork, instance, metadata);
+}
+
+/**
+ * Delete the Contabo secret of a key, instances installed with it keep it in their authorized keys
+ */
+export async function revokeSshKey(ctx: ContaboContext, options: RevokeSshKeyOptions): Promise<void> {
+  const sshKeys = await findSshKeys(ctx, getSshKeySecretName(options.clusterId, options.publicKey));
+  await Promise.all(sshKeys.map((sshKey) => ContaboProvider.deleteSecret(ctx, sshKey.secretId)));
+}
+
+export interface PrivateNetworkChange {
+  action: "assign" | "unassign";
+  instanceId: number;
+  displayName: string;
+  region: ContaboRegion;
+  privateNetworkName: string;
+  /**
+   * Undefined when the private network does not exist yet, it is created when the change is applied
+   */
+  privateNetworkId?: number;
+}
+
+export interface PrivateNetworkReport {
+  changes: PrivateNetworkChange[];
+  applied: boolean;
+}
+
+/**
+ * Changes attaching every node of the cluster to the private network of its region, and detaching it from the
+ * private networks of other regions or clusters
+ * Nodes are the instances tagged with the cluster, or named after it for instances provisioned before nodes were tagged
+ * Private networks not created by the provisioner (not named `cluster-*`) are left alone
+ */
+export function planPrivateNetworkChanges(
+  clusterId: string,
+  state: {
+    instances: Pick<ContaboInstance, "instanceId" | "displayName" | "region">[];
+    privateNetworks: ContaboPrivateNetwork[];
+    tags: Map<number, ContaboTag[]>;
+  }
+): PrivateNetworkChange[] {
+  const nodes = state.instances.filter((instance) => {
+    const metadata = decodeNodeTags((state.tags.get(instance.instanceId) ?? []).map((tag) => tag.name));
+    return metadata ? metadata.clusterId === clusterId : instance.displayName.startsWith(`cluster-${clusterId}-`);
+  });
+  const managedNetworks = state.privateNetworks.filter((network) => network.name.startsWith("cluster-"));
+  const assigns: PrivateNetworkChange[] = [];
+  const unassigns: PrivateNetworkChange[] = [];
+  for (const { instanceId, displayName, region } of nodes) {
+    const expectedName = `cluster-${clusterId}-${region}`;
+    const attached = managedNetworks.filter((network) =>
+      network.instances.some((instance) => instance.instanceId === instanceId)
+    );
+    if (!attached.some((network) => network.name === expectedName)) {
+      const expected = managedNetworks.find((network) => network.name === expectedName);
+      assigns.push({
+        action: "assign",
+        instanceId,
+        displayName,
+        region,
+        privateNetworkName: expectedName,
+        privateNetworkId: expected?.privateNetworkId,
+      });
+    }
+    for (const network of attached.filter((network) => network.name !== expectedName)) {
+      unassigns.push({
+        action: "unassign",
+        instanceId,
+        displayName,
+        region,
+        privateNetworkName: network.name,
+        privateNetworkId: network.privateNetworkId,
+      });
+    }
+  }
+  // nodes join their private network before leaving the stray ones
+  return [...assigns, ...unassigns];
+}
+
+export function formatPrivateNetworkReport(report: PrivateNetworkReport): string {
+  if (report.changes.length === 0) {
+    return "Private networks are consistent, nothing to change";
+  }
+  const lines = report.changes.map((change) =>
+    change.action === "assign"
+      ? `+ assign instance ${change.instanceId} (${change.displayName}) to ${change.privateNetworkName}` +
+        (change.privateNetworkId === undefined ? " (new private network)" : "")
+      : `- unassign instance ${change.instanceId} (${change.displayName}) from ${change.privateNetworkName}`
+  );
+  return [report.applied ? "Applied changes:" : "Planned changes (dry run):", ...lines].join("\n");
+}
+
+/**
+ * Detect nodes missing from the private network of their region or attached to stray private networks, and fix them
+ * Runs as a dry run unless `dryRun` is false, review the report before applying it
+ */
+export async function reconcilePrivateNetworks(
+  ctx: ContaboContext,
+  options: { clusterId: string; dryRun?: boolean }
+): Promise<PrivateNetworkReport> {
+  const { clusterId, dryRun = true } = options;
+  const [instances, privateNetworks, tags] = await Promise.all([
+    ContaboProvider.listInstances(ctx),
+    ContaboProvider.listPrivateNetworks(ctx),
+    getNodeTags(ctx),
+  ]);
+  const changes = planPrivateNetworkChanges(clusterId, { instances, privateNetworks, tags });
+  if (dryRun) {
+    return { changes, applied: false };
+  }
+  for (const change of changes) {
+    if (change.action === "assign") {
+      change.privateNetworkId ??= await ensurePrivateNetwork(ctx, {
+        name: change.privateNetworkName,
+        region: change.region,
+      });
+      await ContaboProvider.assignPrivateNetwork(ctx, change.privateNetworkId, change.instanceId);
+    } else {
+      await ContaboProvider.unassignPrivateNetwork(ctx, change.privateNetworkId!, change.instanceId);
+    }
+  }
+  return { changes, applied: true };
+}
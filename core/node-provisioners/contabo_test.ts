@@ -0,0 +1,278 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import * as process from "node:process";
+import {
+  ContaboContext,
+  ContaboInstance,
+  ContaboPrivateNetwork,
+  ContaboRegion,
+  ContaboSecret,
+  ContaboTag,
+  ContaboTagAssignment,
+} from "../cloud-providers/contabo.ts";
+import { formatPrivateNetworkReport, planPrivateNetworkChanges, provisionNode } from "./contabo.ts";
+
+const privateNetwork = (privateNetworkId: number, name: string, instanceIds: number[]) =>
+  ({
+    privateNetworkId,
+    name,
+    instances: instanceIds.map((instanceId) => ({ instanceId })),
+  }) as ContaboPrivateNetwork;
+
+const instance = (instanceId: number, displayName: string, region: ContaboRegion = "EU") => ({
+  instanceId,
+  displayName,
+  region,
+});
+
+const tag = (tagId: number, name: string) => ({ tagId, name }) as ContaboTag;
+
+/**
+ * In-memory fake of the subset of the Contabo API used by the provisioner
+ */
+function startFakeContaboApi() {
+  const state = {
+    instances: [] as ContaboInstance[],
+    privateNetworks: [] as ContaboPrivateNetwork[],
+    secrets: [] as ContaboSecret[],
+    tags: [] as ContaboTag[],
+    assignments: [] as ContaboTagAssignment[],
+    created: [] as { productId: string; displayName: string }[],
+    nextId: 1,
+  };
+  const page = <T>(data: T[]) =>
+    Response.json({ data, _pagination: { page: 1, size: 100, totalElements: data.length, totalPages: 1 } });
+  const byName = <T extends { name: string }>(items: T[], name: string | null) =>
+    items.filter((item) => !name || item.name.includes(name));
+
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    const { pathname, searchParams } = new URL(req.url);
+    const body = ["POST", "PATCH"].includes(req.method) ? await req.json().catch(() => undefined) : undefined;
+    let match: RegExpMatchArray | null;
+
+    if (pathname === "/token") {
+      return Response.json({ access_token: "token", expires_in: 300 });
+    }
+    if (pathname === "/v1/compute/images") {
+      return page([{ imageId: "image-ubuntu", name: "ubuntu-24.04", standardImage: true }]);
+    }
+    if (pathname === "/v1/secrets" && req.method === "POST") {
+      const secret = { secretId: state.nextId++, ...body } as ContaboSecret;
+      state.secrets.push(secret);
+      return Response.json({ data: [secret] }, { status: 201 });
+    }
+    if (pathname === "/v1/secrets") {
+      return page(byName(state.secrets, searchParams.get("name")));
+    }
+    if (pathname === "/v1/private-networks" && req.method === "POST") {
+      const privateNetwork = {
+        privateNetworkId: state.nextId++,
+        customerId: "customer",
+        cidr: "10.0.0.0/22",
+        instances: [],
+        ...body,
+      } as ContaboPrivateNetwork;
+      state.privateNetworks.push(privateNetwork);
+      return Response.json({ data: [privateNetwork] }, { status: 201 });
+    }
+    if (pathname === "/v1/private-networks") {
+      return page(byName(state.privateNetworks, searchParams.get("name")));
+    }
+    if ((match = pathname.match(/^\/v1\/private-networks\/(\d+)(?:\/instances\/(\d+))?$/))) {
+      const privateNetwork = state.privateNetworks.find((network) => network.privateNetworkId === Number(match![1]))!;
+      if (req.method === "POST") {
+        const instance = state.instances.find((instance) => instance.instanceId === Number(match![2]))!;
+        privateNetwork.instances.push({
+          instanceId: instance.instanceId,
+          displayName: instance.displayName,
+          ipConfig: instance.ipConfig,
+          privateIpConfig: { v4: [{ ip: `10.0.0.${instance.instanceId}`, gateway: "10.0.0.1", netmaskCidr: 22 }] },
+        } as ContaboPrivateNetwork["instances"][number]);
+      }
+      return Response.json({ data: [privateNetwork] });
+    }
+    if (pathname === "/v1/compute/instances" && req.method === "POST") {
+      const instanceId = state.nextId++;
+      state.created.push({ productId: body.productId, displayName: body.displayName });
+      state.instances.push({
+        instanceId,
+        displayName: body.displayName,
+        region: body.region,
+        status: "running",
+        ipConfig: { v4: { ip: `203.0.113.${instanceId}` } },
+      } as ContaboInstance);
+      return Response.json({ data: [{ instanceId }] }, { status: 201 });
+    }
+    if (pathname === "/v1/compute/instances") {
+      return page(Number(searchParams.get("page")) > 1 ? [] : state.instances);
+    }
+    if ((match = pathname.match(/^\/v1\/compute\/instances\/(\d+)$/))) {
+      const instance = state.instances.find((instance) => instance.instanceId === Number(match![1]))!;
+      if (req.method === "PATCH") {
+        Object.assign(instance, body);
+      }
+      return Response.json({ data: [instance] });
+    }
+    if (pathname === "/v1/tags" && req.method === "POST") {
+      const tag = { tagId: state.nextId++, ...body } as ContaboTag;
+      state.tags.push(tag);
+      return Response.json({ data: [tag] }, { status: 201 });
+    }
+    if (pathname === "/v1/tags") {
+      return page(byName(state.tags, searchParams.get("name")));
+    }
+    if ((match = pathname.match(/^\/v1\/tags\/(\d+)\/assignments(?:\/instance\/(\d+))?$/))) {
+      const tagId = Number(match[1]);
+      if (req.method === "POST") {
+        state.assignments.push({ tagId, resourceType: "instance", resourceId: match[2] } as ContaboTagAssignment);
+        return Response.json({ data: [] }, { status: 201 });
+      }
+      return page(state.assignments.filter((assignment) => assignment.tagId === tagId));
+    }
+    return Response.json({ message: "Not Found" }, { status: 404 });
+  });
+  const url = `http://localhost:${server.addr.port}`;
+  const ctx: ContaboContext = {
+    clientId: "client-id",
+    clientSecret: "client-secret",
+    tokenUrl: `${url}/token`,
+    user: "user",
+    password: "password",
+    apiUrl: url,
+  };
+  return { ctx, state, server };
+}
+
+describe("Contabo private network reconciliation", () => {
+  it("should not change consistent private networks", () => {
+    const changes = planPrivateNetworkChanges("abc", {
+      instances: [instance(1, "cluster-abc-EU-control-plane"), instance(2, "")],
+      privateNetworks: [privateNetwork(10, "cluster-abc-EU", [1])],
+      tags: new Map(),
+    });
+
+    assertEquals(changes, []);
+    assertEquals(
+      formatPrivateNetworkReport({ changes, applied: false }),
+      "Private networks are consistent, nothing to change"
+    );
+  });
+
+  it("should attach nodes missing from the private network of their region", () => {
+    const changes = planPrivateNetworkChanges("abc", {
+      instances: [
+        instance(1, "cluster-abc-EU-control-plane"),
+        instance(2, "renamed-in-panel"),
+        instance(3, "cluster-abc-SIN-worker", "SIN"),
+      ],
+      privateNetworks: [privateNetwork(10, "cluster-abc-EU", [1])],
+      tags: new Map([[2, [tag(1, "cluster:abc"), tag(2, "role:worker")]]]),
+    });
+
+    assertEquals(changes, [
+      {
+        action: "assign",
+        instanceId: 2,
+        displayName: "renamed-in-panel",
+        region: "EU",
+        privateNetworkName: "cluster-abc-EU",
+        privateNetworkId: 10,
+      },
+      {
+        action: "assign",
+        instanceId: 3,
+        displayName: "cluster-abc-SIN-worker",
+        region: "SIN",
+        privateNetworkName: "cluster-abc-SIN",
+        privateNetworkId: undefined,
+      },
+    ]);
+  });
+
+  it("should detach nodes from stray private networks after attaching them", () => {
+    const changes = planPrivateNetworkChanges("abc", {
+      instances: [instance(1, "cluster-abc-EU-worker"), instance(2, "cluster-abc-EU-worker")],
+      privateNetworks: [
+        privateNetwork(10, "cluster-abc-EU", [1]),
+        privateNetwork(11, "cluster-def-EU", [1, 2]),
+        privateNetwork(12, "database", [1]),
+      ],
+      tags: new Map(),
+    });
+
+    assertEquals(
+      changes.map((change) => [change.action, change.instanceId, change.privateNetworkName]),
+      [
+        ["assign", 2, "cluster-abc-EU"],
+        ["unassign", 1, "cluster-def-EU"],
+        ["unassign", 2, "cluster-def-EU"],
+      ]
+    );
+    assertEquals(
+      formatPrivateNetworkReport({ changes, applied: false }).split("\n"),
+      [
+        "Planned changes (dry run):",
+        "+ assign instance 2 (cluster-abc-EU-worker) to cluster-abc-EU",
+        "- unassign instance 1 (cluster-abc-EU-worker) from cluster-def-EU",
+        "- unassign instance 2 (cluster-abc-EU-worker) from cluster-def-EU",
+      ]
+    );
+  });
+
+  it("should trust tags over display names", () => {
+    const changes = planPrivateNetworkChanges("abc", {
+      // moved to another cluster, the display name is stale
+      instances: [instance(1, "cluster-abc-EU-worker")],
+      privateNetworks: [privateNetwork(10, "cluster-abc-EU", [])],
+      tags: new Map([[1, [tag(1, "cluster:def")]]]),
+    });
+
+    assertEquals(changes, []);
+  });
+});
+
+describe("Contabo node provisioner", () => {
+  process.env.NODE_ID_SECRET = "test-secret";
+
+  const clusterId = "0123456789abcdef0123456789abcdef";
+  let fake: ReturnType<typeof startFakeContaboApi>;
+
+  beforeEach(() => {
+    fake = startFakeContaboApi();
+  });
+
+  afterEach(async () => {
+    await fake.server.shutdown();
+  });
+
+  it("should create an instance of the cheapest matching product in auto mode", async () => {
+    const node = await provisionNode(fake.ctx, {
+      mode: "auto",
+      region: "europe",
+      clusterId,
+      roles: ["worker"],
+      resources: { cpuCores: 6, diskMb: 150000 },
+      sshPublicKey: "ssh-ed25519 AAAA test",
+    });
+
+    assertEquals(fake.state.created, [{ productId: "V95", displayName: `cluster-${clusterId}-EU-worker` }]);
+    const [{ instanceId }] = fake.state.instances;
+    assertEquals([node.publicIp, node.privateIp], [`203.0.113.${instanceId}`, `10.0.0.${instanceId}`]);
+  });
+
+  it("should refuse to create an instance in manual mode", async () => {
+    await assertRejects(
+      () =>
+        provisionNode(fake.ctx, {
+          mode: "manual",
+          region: "europe",
+          clusterId,
+          roles: ["worker"],
+          sshPublicKey: "ssh-ed25519 AAAA test",
+        }),
+      Error,
+      "Automatic provisioning disabled"
+    );
+    assertEquals(fake.state.created, []);
+  });
+});
@@ -0,0 +1,102 @@
+import { ListNodeOptions, Node, NodeRoles, ProvisionNodeOptions, RevokeSshKeyOptions } from "./index.ts";
+import { generateNodeId, generateNodeNetworkId, getNextNodeIndex, retrieveDataFromNodeId } from "./_common.ts";
+
+/**
+ * In-memory provisioner, nodes only exist in the context
+ * Used to exercise the cluster provisioner without any provider
+ */
+export interface FakeContext {
+  nodes: Node[];
+  /**
+   * Number of nodes that can still be provisioned in 'manual' mode
+   * Mirrors instances waiting to be claimed on a real provider
+   */
+  available: number;
+  networkCIDR: string;
+  nextIndex: number;
+  /**
+   * User-data each node was provisioned with, by node id
+   */
+  userData: Record<string, string | undefined>;
+  /**
+   * Public key each node was provisioned with, by node id
+   */
+  sshPublicKeys: Record<string, string | undefined>;
+  /**
+   * Public keys registered with the fake provider, by cluster id
+   */
+  registeredSshKeys: Record<string, string[]>;
+}
+
+export function createFakeContext(options?: { available?: number; networkCIDR?: string }): FakeContext {
+  return {
+    nodes: [],
+    available: options?.available ?? Infinity,
+    networkCIDR: options?.networkCIDR ?? "10.0.0.0/24",
+    nextIndex: 1,
+    userData: {},
+    sshPublicKeys: {},
+    registeredSshKeys: {},
+  };
+}
+
+const PROVIDER_CUSTOMER_ID = "fake";
+
+export function provisionNode(ctx: FakeContext, options: ProvisionNodeOptions): Promise<Node> {
+  if (ctx.available <= 0 && options.mode === "manual") {
+    return Promise.reject(new Error("Automatic provisioning disabled, no available instances found"));
+  }
+  ctx.available--;
+  const index = ctx.nextIndex++;
+  // unique roles orderby NodeRoles order
+  const roles = NodeRoles.filter((role) => options.roles.includes(role));
+  const clusterNodes = ctx.nodes.filter((node) => node.clusterId === options.clusterId);
+  const data = {
+    clusterId: options.clusterId,
+    provider: "fake",
+    providerCustomerId: PROVIDER_CUSTOMER_ID,
+    privateNetworkId: ctx.networkCIDR,
+  } as const;
+  const node: Node = {
+    clusterId: options.clusterId,
+    id: generateNodeId({ ...data, instanceId: String(index) }),
+    networkId: generateNodeNetworkId(data),
+    publicIp: `203.0.113.${index}`,
+    privateIp: `${ctx.networkCIDR.split(".").slice(0, 3).join(".")}.${index}`,
+    networkCIDR: ctx.networkCIDR,
+    roles,
+    region: options.region,
+    pool: options.pool,
+    index: getNextNodeIndex(clusterNodes, { roles, pool: options.pool }),
+    labels: options.labels,
+  };
+  ctx.nodes.push(node);
+  ctx.userData[node.id] = options.userData;
+  ctx.sshPublicKeys[node.id] = options.sshPublicKey;
+  const registeredSshKeys = (ctx.registeredSshKeys[options.clusterId] ??= []);
+  if (options.sshPublicKey && !registeredSshKeys.includes(options.sshPublicKey)) {
+    registeredSshKeys.push(options.sshPublicKey);
+  }
+  return Promise.resolve(structuredClone(node));
+}
+
+export function deprovisionNode(ctx: FakeContext, id: string): Promise<void> {
+  const { instanceId } = retrieveDataFromNodeId(id);
+  if (!ctx.nodes.some((node) => node.id === id)) {
+    return Promise.reject(new Error(`Instance ${instanceId} not found`));
+  }
+  ctx.nodes = ctx.nodes.filter((node) => node.id !== id);
+  ctx.available++;
+  return Promise.resolve();
+}
+
+export function listNodes(ctx: FakeContext, options: ListNodeOptions): Promise<Node[]> {
+  return Promise.resolve(structuredClone(ctx.nodes.filter((node) => node.clusterId === options.clusterId)));
+}
+
+export function revokeSshKey(ctx: FakeContext, options: RevokeSshKeyOptions): Promise<void> {
+  ctx.registeredSshKeys[options.clusterId] = (ctx.registeredSshKeys[options.clusterId] ?? []).filter(
+    (publicKey) => publicKey !== options.publicKey
+  );
+  return Promise.resolve();
+}
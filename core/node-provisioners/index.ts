@@ -1,7 +1,24 @@
+import {
+  InvalidIdError,
+  NodeRegion,
+  NodeRegions,
+  NodeRoles,
+  ProvisioningError,
+  RollbackOutcome,
+} from "./_common.ts";
 import { ContaboContext } from "../cloud-providers/contabo.ts";
+import { LinodeContext } from "../cloud-providers/linode.ts";
+import { StaticContext } from "./static.ts";
+import { FakeContext } from "./fake.ts";
+// Static imports, provisioners import NodeRoles from this module and a top-level await would deadlock
+// NodeRoles lives in _common.ts so that it is initialized before any provisioner is evaluated
+import * as contaboProvisioner from "./contabo.ts";
+import * as linodeProvisioner from "./linode.ts";
+import * as staticProvisioner from "./static.ts";
+import * as fakeProvisioner from "./fake.ts";
 
-export type NodeRoles = (typeof NodeRoles)[number][];
-export const NodeRoles = ["control-plane", "etcd", "worker"] as const;
+export { InvalidIdError, NodeRegions, NodeRoles, ProvisioningError };
+export type { NodeRegion, RollbackOutcome };
 
 export interface Node {
   clusterId: string; 
@@ -17,8 +34,46 @@ export interface Node {
   networkId: string;
   networkCIDR: string;
   roles: NodeRoles;
+  /**
+   * Region the node runs in, when the provisioner knows it
+   */
+  region?: NodeRegion;
+  /**
+   * Pool the node belongs to
+   */
+  pool?: string;
+  /**
+   * Index of the node within its pool, or within its primary role when it has no pool (e.g. 0 for control-plane-0)
+   */
+  index?: number;
+  /**
+   * SSH access to the node, defaults to root on port 22
+   */
+  ssh?: { user: string; port: number };
+  /**
+   * Labels attached to the node by its provisioner
+   */
+  labels?: Record<string, string>;
+}
+
+export interface NodeResources {
+  cpuCores?: number;
+  ramMb?: number;
+  diskMb?: number;
 }
 
+/**
+ * Operating systems nodes can run, see SupportedOsImages for the Kubernetes versions they support
+ */
+export type OsImage = "ubuntu-22.04" | "ubuntu-24.04" | "debian-12";
+
+/**
+ * Image installed on the node
+ * - `os`: a standard image of the provider, resolved through its image listing
+ * - `customImageId`: an image id of the provider, e.g. a golden image, used as is
+ */
+export type NodeImage = { os: OsImage } | { customImageId: string };
+
 export interface ProvisionNodeOptions {
   /**
    * Mode of provisioning
@@ -26,21 +81,62 @@ export interface ProvisionNodeOptions {
    * - 'manual': Throw an error if no node is available on the provider
    */
   mode: "auto" | "manual";
-  region: "europe";
+  region: NodeRegion;
   clusterId: string;
   roles: NodeRoles;
+  /**
+   * Minimum resources of the node
+   * Missing values default to the largest per-role default of the node roles
+   */
+  resources?: NodeResources;
+  /**
+   * Image installed on the node, defaults to DefaultNodeImage
+   */
+  image?: NodeImage;
+  /**
+   * Pool the node belongs to, stored with the node metadata
+   */
+  pool?: string;
+  /**
+   * Labels stored with the node metadata
+   */
+  labels?: Record<string, string>;
+  /**
+   * cloud-init user-data run on first boot of the node
+   * Ignored by provisioners handing out already installed hosts
+   */
+  userData?: string;
+  /**
+   * Public SSH key authorized on the node, usually the key of the cluster
+   * Defaults to the public key of the cluster keypair in `.ssh/` when the provider needs one
+   */
+  sshPublicKey?: string;
+}
+
+export interface RevokeSshKeyOptions {
+  clusterId: string;
+  publicKey: string;
 }
 
 export interface ListNodeOptions {
   clusterId: string;
 }
 
+// Method signatures keep NodeProvisioner<SpecificContext> assignable to NodeProvisioner<unknown>
 export interface NodeProvisioner<Context = unknown> {
-  provisionNode: (ctx: Context, options: ProvisionNodeOptions) => Promise<Node>;
-  deprovisionNode: (ctx: Context, id: string) => Promise<void>;
-  listNodes: (ctx: Context, options: ListNodeOptions) => Promise<Node[]>;
+  provisionNode(ctx: Context, options: ProvisionNodeOptions): Promise<Node>;
+  deprovisionNode(ctx: Context, id: string): Promise<void>;
+  listNodes(ctx: Context, options: ListNodeOptions): Promise<Node[]>;
+  /**
+   * Remove a public key registered with the provider, for provisioners registering keys
+   * Nodes authorizing the key are not changed
+   */
+  revokeSshKey?(ctx: Context, options: RevokeSshKeyOptions): Promise<void>;
 }
 
-export type NodeProvider = "contabo" | "linode";
+export type NodeProvider = "contabo" | "linode" | "static" | "fake";
 
-export const contabo = await import('./contabo.ts') satisfies NodeProvisioner<ContaboContext>;
\ No newline at end of file
+export const contabo = contaboProvisioner satisfies NodeProvisioner<ContaboContext>;
+export const linode = linodeProvisioner satisfies NodeProvisioner<LinodeContext>;
+export const staticHosts = staticProvisioner satisfies NodeProvisioner<StaticContext>;
+export const fake = fakeProvisioner satisfies NodeProvisioner<FakeContext>;
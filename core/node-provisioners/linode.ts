@@ -0,0 +1,226 @@
+import { ListNodeOptions, Node, NodeImage, NodeRegion, NodeRoles, OsImage, ProvisionNodeOptions } from "./index.ts";
+import { LinodeContext, LinodeInstance, LinodeRegion, LinodeVpc } from "../cloud-providers/linode.ts";
+import { LinodeProvider } from "../cloud-providers/index.ts";
+import {
+  DefaultNodeImage,
+  NodeMetadata,
+  decodeNodeTags,
+  encodeNodeTags,
+  generateNodeId,
+  generateNodeNetworkId,
+  getNextNodeIndex,
+  resolveClusterPublicKey,
+  resolveNodeResources,
+  retrieveDataFromNodeId,
+  withRollback,
+} from "./_common.ts";
+
+const regionMatch: Record<NodeRegion, LinodeRegion> = {
+  europe: "eu-central",
+  "us-central": "us-central",
+  "us-east": "us-east",
+  "us-west": "us-west",
+  // Singapore
+  "asia-southeast": "ap-south",
+};
+
+const getRegionFromLinodeRegion = (region: LinodeRegion): NodeRegion | undefined =>
+  (Object.keys(regionMatch) as NodeRegion[]).find((nodeRegion) => regionMatch[nodeRegion] === region);
+
+/**
+ * Every region of a cluster gets its own VPC, their subnets must not overlap for the firewall to tell them apart
+ */
+const subnetMatch: Record<NodeRegion, string> = {
+  europe: "10.0.0.0/24",
+  "us-central": "10.0.1.0/24",
+  "us-east": "10.0.2.0/24",
+  "us-west": "10.0.3.0/24",
+  "asia-southeast": "10.0.4.0/24",
+};
+
+const imageMatch: Record<OsImage, string> = {
+  "ubuntu-22.04": "linode/ubuntu22.04",
+  "ubuntu-24.04": "linode/ubuntu24.04",
+  "debian-12": "linode/debian12",
+};
+
+/**
+ * Linode labels are limited to 64 characters and tags to 50,
+ * so only a prefix of the cluster id is used to name resources
+ */
+const shortClusterId = (clusterId: string) => clusterId.slice(0, 16);
+
+const clusterTag = (clusterId: string) => `cluster:${shortClusterId(clusterId)}`;
+
+const LINODE_TAG_MAX_LENGTH = 50;
+
+/**
+ * Node metadata as instance tags, see encodeNodeTags
+ */
+function encodeInstanceTags(metadata: NodeMetadata): string[] {
+  const tags = encodeNodeTags({ ...metadata, clusterId: shortClusterId(metadata.clusterId) });
+  const tooLong = tags.find((tag) => tag.length > LINODE_TAG_MAX_LENGTH);
+  if (tooLong) {
+    throw new Error(`Linode tag ${tooLong} is longer than ${LINODE_TAG_MAX_LENGTH} characters`);
+  }
+  return tags;
+}
+
+async function ensureVpc(
+  ctx: LinodeContext,
+  options: { label: string; region: LinodeRegion; subnet: string }
+): Promise<LinodeVpc> {
+  const { label, region, subnet } = options;
+  const vpcs = await LinodeProvider.listVpcs(ctx, { label });
+  if (vpcs.length === 0) {
+    return await LinodeProvider.createVpc(ctx, { label, region, subnets: [{ label: "nodes", ipv4: subnet }] });
+  }
+  return vpcs[0];
+}
+
+/**
+ * Resolve the image id, checking it is still offered by Linode
+ */
+async function resolveImageId(ctx: LinodeContext, image: NodeImage = DefaultNodeImage): Promise<string> {
+  const imageId = "customImageId" in image ? image.customImageId : imageMatch[image.os];
+  const images = await LinodeProvider.listImages(ctx);
+  const match = images.find((candidate) => candidate.id === imageId);
+  if (!match) {
+    throw new Error(`Linode image ${imageId} not found`);
+  }
+  if (match.deprecated) {
+    throw new Error(`Linode image ${imageId} is deprecated`);
+  }
+  return match.id;
+}
+
+async function getPrivateIp(ctx: LinodeContext, vpcId: number, instanceId: number): Promise<string> {
+  const ips = await LinodeProvider.listVpcIps(ctx, vpcId);
+  const ip = ips.find((ip) => ip.linode_id === instanceId && ip.address);
+  if (!ip) {
+    throw new Error("Instance not found in VPC");
+  }
+  return ip.address!;
+}
+
+function transformInstanceToNode(
+  instance: LinodeInstance,
+  options: { clusterId: string; customerId: string; vpc: LinodeVpc; privateIp: string }
+): Node {
+  const { clusterId, customerId, vpc, privateIp } = options;
+  const metadata: NodeMetadata = decodeNodeTags(instance.tags) ?? { clusterId, roles: [] };
+  const { roles, pool, index, labels } = metadata;
+  return {
+    clusterId,
+    id: generateNodeId({
+      clusterId,
+      provider: "linode",
+      providerCustomerId: customerId,
+      privateNetworkId: String(vpc.id),
+      instanceId: String(instance.id),
+    }),
+    networkId: generateNodeNetworkId({
+      clusterId,
+      provider: "linode",
+      providerCustomerId: customerId,
+      privateNetworkId: String(vpc.id),
+    }),
+    publicIp: instance.ipv4[0],
+    privateIp,
+    networkCIDR: vpc.subnets[0].ipv4,
+    roles,
+    region: getRegionFromLinodeRegion(instance.region),
+    pool,
+    index,
+    labels,
+  };
+}
+
+export async function provisionNode(ctx: LinodeContext, options: ProvisionNodeOptions): Promise<Node> {
+  return await withRollback(async (rollback) => {
+    const region = regionMatch[options.region];
+    // unique roles orderby NodeRoles order
+    const roles = NodeRoles.filter((role) => options.roles.includes(role));
+    const resources = resolveNodeResources(roles, options.resources);
+    const tags = encodeInstanceTags({
+      clusterId: options.clusterId,
+      roles,
+      pool: options.pool,
+      index: getNextNodeIndex(await listNodes(ctx, { clusterId: options.clusterId }), { roles, pool: options.pool }),
+      labels: options.labels,
+    });
+    // the VPC is shared by the nodes of the region, it is kept on rollback
+    const [account, vpc, type, image] = await Promise.all([
+      LinodeProvider.getAccount(ctx),
+      ensureVpc(ctx, {
+        label: `cluster-${shortClusterId(options.clusterId)}-${region}`,
+        region,
+        subnet: subnetMatch[options.region],
+      }),
+      LinodeProvider.findCheapestType(ctx, resources),
+      resolveImageId(ctx, options.image),
+    ]);
+    if (!type) {
+      throw new Error(
+        `No Linode type with at least ${resources.cpuCores} cores, ${resources.ramMb}MB RAM and ${resources.diskMb}MB disk`
+      );
+    }
+    const instanceId = await LinodeProvider.createInstance(ctx, {
+      label: `cluster-${shortClusterId(options.clusterId)}-${roles.join("-")}-${crypto.randomUUID().slice(0, 8)}`,
+      region,
+      type: type.id,
+      image,
+      tags,
+      authorizedKeys: [await resolveClusterPublicKey(options.clusterId, options.sshPublicKey)],
+      // Login is done through ssh keys only, the root password is never used
+      rootPass: `${crypto.randomUUID()}-${crypto.randomUUID()}`,
+      vpcSubnetId: vpc.subnets[0].id,
+      userData: options.userData,
+    });
+    // instances are billed hourly, delete the instance rather than leaving it running
+    rollback.register(`delete instance ${instanceId}`, () => LinodeProvider.deleteInstance(ctx, instanceId));
+    const instance = await LinodeProvider.getInstance(ctx, instanceId);
+    return transformInstanceToNode(instance, {
+      clusterId: options.clusterId,
+      customerId: account.euuid,
+      vpc,
+      privateIp: await getPrivateIp(ctx, vpc.id, instanceId),
+    });
+  });
+}
+
+export async function deprovisionNode(ctx: LinodeContext, id: string): Promise<void> {
+  const data = retrieveDataFromNodeId(id);
+  // Linode instances are billed hourly, there is no point in keeping them around
+  await LinodeProvider.deleteInstance(ctx, Number.parseInt(data.instanceId));
+}
+
+export async function listNodes(ctx: LinodeContext, options: ListNodeOptions): Promise<Node[]> {
+  const [account, instances, vpcs] = await Promise.all([
+    LinodeProvider.getAccount(ctx),
+    LinodeProvider.listInstances(ctx, { tag: clusterTag(options.clusterId) }),
+    LinodeProvider.listVpcs(ctx).then((vpcs) =>
+      vpcs.filter((vpc) => vpc.label.startsWith(`cluster-${shortClusterId(options.clusterId)}-`))
+    ),
+  ]);
+  const nodes = await Promise.all(
+    vpcs.map(async (vpc) => {
+      const ips = await LinodeProvider.listVpcIps(ctx, vpc.id);
+      return instances.flatMap((instance) => {
+        const ip = ips.find((ip) => ip.linode_id === instance.id && ip.address);
+        if (!ip) {
+          return [];
+        }
+        return [
+          transformInstanceToNode(instance, {
+            clusterId: options.clusterId,
+            customerId: account.euuid,
+            vpc,
+            privateIp: ip.address!,
+          }),
+        ];
+      });
+    })
+  );
+  return nodes.flat();
+}
@@ -0,0 +1,300 @@
+import { assertEquals, assertExists, assertRejects, assertStringIncludes } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import * as process from "node:process";
+import { LinodeContext, LinodeInstance, LinodeVpc, LinodeVpcIp } from "../cloud-providers/linode.ts";
+import { ProvisioningError } from "./_common.ts";
+import { ProvisionNodeOptions } from "./index.ts";
+import { deprovisionNode, listNodes, provisionNode } from "./linode.ts";
+
+const types = [
+  { id: "g6-standard-4", vcpus: 4, memory: 8192, disk: 163840, price: { hourly: 0.072, monthly: 48 } },
+  { id: "g6-standard-2", vcpus: 2, memory: 4096, disk: 81920, price: { hourly: 0.036, monthly: 24 } },
+  { id: "g6-nanode-1", vcpus: 1, memory: 1024, disk: 25600, price: { hourly: 0.0075, monthly: 5 } },
+];
+
+const images = [
+  { id: "linode/ubuntu22.04", label: "Ubuntu 22.04 LTS", is_public: true, deprecated: false },
+  { id: "linode/ubuntu24.04", label: "Ubuntu 24.04 LTS", is_public: true, deprecated: false },
+  { id: "linode/debian12", label: "Debian 12", is_public: true, deprecated: false },
+  { id: "private/4242", label: "golden-k8s", is_public: false, deprecated: false },
+];
+
+/**
+ * In-memory fake of the subset of the Linode API used by the provisioner
+ */
+function startFakeLinodeApi() {
+  const state = {
+    instances: [] as LinodeInstance[],
+    vpcs: [] as LinodeVpc[],
+    ips: [] as LinodeVpcIp[],
+    nextId: 1,
+    // instances created while set never show up in the VPC
+    detachFromVpc: false,
+  };
+  const page = <T>(data: T[]) => Response.json({ data, page: 1, pages: 1, results: data.length });
+
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    const { pathname } = new URL(req.url);
+    const filter = JSON.parse(req.headers.get("x-filter") ?? "{}");
+    const body = req.method === "POST" ? await req.json() : undefined;
+    let match: RegExpMatchArray | null;
+
+    if (pathname === "/v4/linode/types") {
+      return page(types);
+    }
+    if (pathname === "/v4/images") {
+      return page(images);
+    }
+    if (pathname === "/v4/account") {
+      return Response.json({ euuid: "account-uuid", email: "ops@example.com" });
+    }
+    if (pathname === "/v4/vpcs" && req.method === "GET") {
+      return page(state.vpcs.filter((vpc) => !filter.label || vpc.label === filter.label));
+    }
+    if (pathname === "/v4/vpcs" && req.method === "POST") {
+      const vpc: LinodeVpc = {
+        id: state.nextId++,
+        label: body.label,
+        description: "",
+        region: body.region,
+        subnets: body.subnets.map((subnet: { label: string; ipv4: string }) => ({
+          id: state.nextId++,
+          ...subnet,
+          linodes: [],
+        })),
+        created: new Date().toISOString(),
+        updated: new Date().toISOString(),
+      };
+      state.vpcs.push(vpc);
+      return Response.json(vpc);
+    }
+    if ((match = pathname.match(/^\/v4\/vpcs\/(\d+)\/ips$/))) {
+      return page(state.ips.filter((ip) => ip.vpc_id === Number(match![1])));
+    }
+    if (pathname === "/v4/linode/instances" && req.method === "GET") {
+      return page(state.instances.filter((instance) => !filter.tags || instance.tags.includes(filter.tags)));
+    }
+    if (pathname === "/v4/linode/instances" && req.method === "POST") {
+      const id = state.nextId++;
+      const instance = {
+        id,
+        label: body.label,
+        region: body.region,
+        type: body.type,
+        image: body.image,
+        status: "running",
+        ipv4: [`203.0.113.${id}`],
+        tags: body.tags,
+      } as LinodeInstance;
+      const vpcInterface = body.interfaces.find((i: { purpose: string }) => i.purpose === "vpc");
+      const vpc = state.vpcs.find((vpc) => vpc.subnets.some((subnet) => subnet.id === vpcInterface.subnet_id))!;
+      const subnet = vpc.subnets.find((subnet) => subnet.id === vpcInterface.subnet_id)!;
+      state.instances.push(instance);
+      if (state.detachFromVpc) {
+        return Response.json(instance);
+      }
+      state.ips.push({
+        address: subnet.ipv4.replace(/\d+\/\d+$/, String(id)),
+        active: true,
+        linode_id: id,
+        region: body.region,
+        subnet_id: vpcInterface.subnet_id,
+        vpc_id: vpc.id,
+        prefix: 24,
+      });
+      return Response.json(instance);
+    }
+    if ((match = pathname.match(/^\/v4\/linode\/instances\/(\d+)$/))) {
+      const id = Number(match[1]);
+      const instance = state.instances.find((instance) => instance.id === id);
+      if (!instance) {
+        return Response.json({ errors: [{ reason: "Not found" }] }, { status: 404 });
+      }
+      if (req.method === "DELETE") {
+        state.instances = state.instances.filter((instance) => instance.id !== id);
+        state.ips = state.ips.filter((ip) => ip.linode_id !== id);
+        return Response.json({});
+      }
+      return Response.json(instance);
+    }
+    return Response.json({ errors: [{ reason: "Not found" }] }, { status: 404 });
+  });
+  const ctx: LinodeContext = { token: "token", apiUrl: `http://localhost:${server.addr.port}` };
+  return { ctx, state, server };
+}
+
+describe("Linode node provisioner", () => {
+  process.env.NODE_ID_SECRET = "test-secret";
+
+  const clusterId = "0123456789abcdef0123456789abcdef";
+  let fake: ReturnType<typeof startFakeLinodeApi>;
+
+  beforeEach(() => {
+    fake = startFakeLinodeApi();
+  });
+
+  afterEach(async () => {
+    await fake.server.shutdown();
+  });
+
+  it("should provision a node in the cluster VPC with role tags", async () => {
+    const node = await provisionNode(fake.ctx, {
+      mode: "auto",
+      region: "europe",
+      clusterId,
+      roles: ["worker", "control-plane"],
+      sshPublicKey: "ssh-ed25519 AAAA test",
+    });
+
+    assertEquals(node.clusterId, clusterId);
+    assertEquals(node.roles, ["control-plane", "worker"]);
+    assertEquals(node.networkCIDR, "10.0.0.0/24");
+    assertExists(node.publicIp);
+    assertExists(node.privateIp);
+    assertEquals(fake.state.vpcs.length, 1);
+    assertEquals(fake.state.instances[0].type, "g6-standard-4");
+    assertEquals(fake.state.instances[0].tags, [
+      "cluster:0123456789abcdef",
+      "role:control-plane",
+      "role:worker",
+      "index:0",
+    ]);
+  });
+
+  it("should store the pool, index and labels of the node in its tags", async () => {
+    const options: ProvisionNodeOptions = {
+      mode: "auto",
+      region: "europe",
+      clusterId,
+      roles: ["worker"],
+      pool: "gpu",
+      sshPublicKey: "ssh-ed25519 AAAA test",
+    };
+    const first = await provisionNode(fake.ctx, { ...options, labels: { gpu: "a100" } });
+    const second = await provisionNode(fake.ctx, options);
+
+    assertEquals([first.pool, first.index, first.labels], ["gpu", 0, { gpu: "a100" }]);
+    assertEquals([second.pool, second.index, second.labels], ["gpu", 1, undefined]);
+    assertEquals(fake.state.instances[0].tags, [
+      "cluster:0123456789abcdef",
+      "role:worker",
+      "pool:gpu",
+      "index:0",
+      "label:gpu=a100",
+    ]);
+    assertEquals(await listNodes(fake.ctx, { clusterId }), [first, second]);
+  });
+
+  it("should refuse to provision a node without the SSH key of the cluster", async () => {
+    const error = await assertRejects(() =>
+      provisionNode(fake.ctx, { mode: "auto", region: "europe", clusterId, roles: ["worker"] })
+    );
+    assertStringIncludes(String((error as Error).cause), `No SSH key found for cluster ${clusterId}`);
+    assertEquals(fake.state.instances, []);
+  });
+
+  it("should delete the instance when provisioning fails after creating it", async () => {
+    fake.state.detachFromVpc = true;
+
+    const error = await assertRejects(
+      () =>
+        provisionNode(fake.ctx, {
+          mode: "auto",
+          region: "europe",
+          clusterId,
+          roles: ["worker"],
+          sshPublicKey: "ssh-ed25519 AAAA test",
+        }),
+      ProvisioningError
+    );
+
+    assertEquals(error.rollback, [{ step: `delete instance ${fake.state.nextId - 1}`, status: "rolled-back" }]);
+    assertEquals(fake.state.instances, []);
+  });
+
+  it("should reject labels too long for a Linode tag", async () => {
+    await assertRejects(() =>
+      provisionNode(fake.ctx, {
+        mode: "auto",
+        region: "europe",
+        clusterId,
+        roles: ["worker"],
+        labels: { description: "a label value far too long to fit in a Linode tag" },
+        sshPublicKey: "ssh-ed25519 AAAA test",
+      })
+    );
+    assertEquals(fake.state.instances, []);
+  });
+
+  it("should pick the cheapest type matching the requested resources", async () => {
+    await provisionNode(fake.ctx, {
+      mode: "auto",
+      region: "europe",
+      clusterId,
+      roles: ["worker"],
+      resources: { cpuCores: 1, ramMb: 1024, diskMb: 20480 },
+      sshPublicKey: "ssh-ed25519 AAAA test",
+    });
+
+    assertEquals(fake.state.instances[0].type, "g6-nanode-1");
+  });
+
+  it("should install the requested standard or custom image", async () => {
+    const options = { mode: "auto", region: "europe", clusterId, sshPublicKey: "ssh-ed25519 AAAA test" } as const;
+    await provisionNode(fake.ctx, { ...options, roles: ["worker"] });
+    await provisionNode(fake.ctx, { ...options, roles: ["worker"], image: { os: "debian-12" } });
+    await provisionNode(fake.ctx, { ...options, roles: ["worker"], image: { customImageId: "private/4242" } });
+
+    assertEquals(
+      fake.state.instances.map((instance) => instance.image),
+      ["linode/ubuntu24.04", "linode/debian12", "private/4242"]
+    );
+    await assertRejects(() =>
+      provisionNode(fake.ctx, { ...options, roles: ["worker"], image: { customImageId: "private/404" } })
+    );
+  });
+
+  it("should reuse the cluster VPC and list provisioned nodes", async () => {
+    const options = { mode: "auto", region: "europe", clusterId, sshPublicKey: "ssh-ed25519 AAAA test" } as const;
+    const controlPlane = await provisionNode(fake.ctx, { ...options, roles: ["control-plane"] });
+    const worker = await provisionNode(fake.ctx, { ...options, roles: ["worker"] });
+
+    const nodes = await listNodes(fake.ctx, { clusterId });
+
+    assertEquals(fake.state.vpcs.length, 1);
+    assertEquals(controlPlane.networkId, worker.networkId);
+    assertEquals(nodes, [controlPlane, worker]);
+  });
+
+  it("should create a VPC per region", async () => {
+    const options = { mode: "auto", clusterId, sshPublicKey: "ssh-ed25519 AAAA test" } as const;
+    const europe = await provisionNode(fake.ctx, { ...options, region: "europe", roles: ["worker"] });
+    const singapore = await provisionNode(fake.ctx, { ...options, region: "asia-southeast", roles: ["worker"] });
+
+    assertEquals(
+      fake.state.vpcs.map((vpc) => [vpc.label, vpc.region]),
+      [
+        ["cluster-0123456789abcdef-eu-central", "eu-central"],
+        ["cluster-0123456789abcdef-ap-south", "ap-south"],
+      ]
+    );
+    assertEquals([europe.region, singapore.region], ["europe", "asia-southeast"]);
+    assertEquals([europe.networkCIDR, singapore.networkCIDR], ["10.0.0.0/24", "10.0.4.0/24"]);
+    assertEquals(singapore.privateIp, `10.0.4.${fake.state.instances[1].id}`);
+    assertEquals(await listNodes(fake.ctx, { clusterId }), [europe, singapore]);
+  });
+
+  it("should delete the instance when deprovisioning a node", async () => {
+    const node = await provisionNode(fake.ctx, {
+      mode: "auto",
+      region: "europe",
+      clusterId,
+      roles: ["worker"],
+      sshPublicKey: "ssh-ed25519 AAAA test",
+    });
+
+    await deprovisionNode(fake.ctx, node.id);
+
+    assertEquals(await listNodes(fake.ctx, { clusterId }), []);
+  });
+});
@@ -0,0 +1,214 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { parse } from "jsr:@std/yaml";
+import { z } from "zod";
+import { readFile, writeFile } from "../../api/utils.ts";
+import { ListNodeOptions, Node, NodeRegions, NodeRoles, ProvisionNodeOptions } from "./index.ts";
+import { generateNodeId, generateNodeNetworkId, getNextNodeIndex, retrieveDataFromNodeId } from "./_common.ts";
+
+/**
+ * Provisioner for machines we already own (bare metal, existing VMs...)
+ *
+ * Hosts are declared in a YAML file:
+ * ```yaml
+ * networkCIDR: 10.0.0.0/24
+ * hosts:
+ *   - name: metal-0
+ *     publicIp: 203.0.113.10
+ *     privateIp: 10.0.0.10
+ *     ssh: { user: root, port: 22 }
+ *     roles: [control-plane, etcd, worker]
+ *     region: europe
+ *     labels: { rack: a1 }
+ * ```
+ * `roles` are the roles a host is allowed to take, a host is only handed out for a subset of them.
+ * Hosts without a `region` are handed out for any region.
+ */
+export interface StaticContext {
+  /**
+   * Path of the YAML host list
+   */
+  hostsFile: string;
+  /**
+   * Path of the JSON file persisting which hosts are claimed, defaults to `<hostsFile>.state.json`
+   */
+  stateFile?: string;
+}
+
+const nodeRoleSchema = z.enum(NodeRoles);
+
+const staticHostSchema = z.object({
+  name: z.string().min(1),
+  publicIp: z.string().ip(),
+  privateIp: z.string().ip(),
+  networkCIDR: z.string().optional(),
+  ssh: z
+    .object({
+      user: z.string().default("root"),
+      port: z.number().int().positive().default(22),
+    })
+    .default({}),
+  roles: z.array(nodeRoleSchema).min(1).default([...NodeRoles]),
+  region: z.enum(NodeRegions).optional(),
+  labels: z.record(z.string()).default({}),
+});
+
+const staticHostsFileSchema = z
+  .object({
+    networkCIDR: z.string(),
+    hosts: z.array(staticHostSchema),
+  })
+  .refine((file) => new Set(file.hosts.map((host) => host.name)).size === file.hosts.length, {
+    message: "Host names must be unique",
+  });
+
+export type StaticHost = z.infer<typeof staticHostSchema>;
+
+interface StaticClaim {
+  clusterId: string;
+  roles: NodeRoles;
+  pool?: string;
+  index?: number;
+  /**
+   * Labels requested when claiming the host, on top of the labels of the host
+   */
+  labels?: Record<string, string>;
+  claimedAt: string;
+  releasedAt?: string;
+}
+
+interface StaticState {
+  claims: Record<string, StaticClaim>;
+}
+
+const PROVIDER_CUSTOMER_ID = "static";
+
+const getStateFile = (ctx: StaticContext) => ctx.stateFile ?? `${ctx.hostsFile}.state.json`;
+
+async function readHosts(ctx: StaticContext): Promise<z.infer<typeof staticHostsFileSchema>> {
+  const result = staticHostsFileSchema.safeParse(parse(await readFile(ctx.hostsFile)));
+  if (!result.success) {
+    throw new Error(`Invalid static hosts file ${ctx.hostsFile}: ${result.error.message}`);
+  }
+  return result.data;
+}
+
+async function readState(ctx: StaticContext): Promise<StaticState> {
+  try {
+    return JSON.parse(await fs.readFile(getStateFile(ctx), "utf8"));
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { claims: {} };
+    }
+    throw error;
+  }
+}
+
+async function writeState(ctx: StaticContext, state: StaticState): Promise<void> {
+  const stateFile = getStateFile(ctx);
+  await fs.mkdir(path.dirname(stateFile), { recursive: true });
+  // Write then rename so that a crash never leaves a truncated state file
+  await writeFile(`${stateFile}.tmp`, JSON.stringify(state, null, 2));
+  await fs.rename(`${stateFile}.tmp`, stateFile);
+}
+
+// Serialize state updates so concurrent calls in the same process cannot claim the same host
+let stateLock: Promise<unknown> = Promise.resolve();
+
+function updateState<T>(ctx: StaticContext, update: (state: StaticState) => Promise<T> | T): Promise<T> {
+  const result = stateLock.then(async () => {
+    const state = await readState(ctx);
+    const value = await update(state);
+    await writeState(ctx, state);
+    return value;
+  });
+  stateLock = result.catch(() => {});
+  return result;
+}
+
+const isClaimed = (claim: StaticClaim | undefined): claim is StaticClaim => !!claim && !claim.releasedAt;
+
+function transformHostToNode(host: StaticHost, claim: StaticClaim, options: { networkCIDR: string }): Node {
+  const { clusterId, roles, pool, index } = claim;
+  const networkCIDR = host.networkCIDR ?? options.networkCIDR;
+  return {
+    clusterId,
+    id: generateNodeId({
+      clusterId,
+      provider: "static",
+      providerCustomerId: PROVIDER_CUSTOMER_ID,
+      privateNetworkId: networkCIDR,
+      instanceId: host.name,
+    }),
+    networkId: generateNodeNetworkId({
+      clusterId,
+      provider: "static",
+      providerCustomerId: PROVIDER_CUSTOMER_ID,
+      privateNetworkId: networkCIDR,
+    }),
+    publicIp: host.publicIp,
+    privateIp: host.privateIp,
+    networkCIDR,
+    roles,
+    region: host.region,
+    pool,
+    index,
+    ssh: host.ssh,
+    labels: { ...host.labels, ...claim.labels },
+  };
+}
+
+export async function provisionNode(ctx: StaticContext, options: ProvisionNodeOptions): Promise<Node> {
+  const { networkCIDR, hosts } = await readHosts(ctx);
+  // unique roles orderby NodeRoles order
+  const roles = NodeRoles.filter((role) => options.roles.includes(role));
+  const [host, claim] = await updateState(ctx, (state) => {
+    const host = hosts.find(
+      (host) =>
+        !isClaimed(state.claims[host.name]) &&
+        (!host.region || host.region === options.region) &&
+        roles.every((role) => host.roles.includes(role))
+    );
+    if (!host) {
+      throw new Error(
+        `No free static host available for roles ${roles.join(", ")} in ${options.region}, please add hosts to ${ctx.hostsFile}`
+      );
+    }
+    const clusterClaims = Object.values(state.claims).filter(
+      (claim) => isClaimed(claim) && claim.clusterId === options.clusterId
+    );
+    const claim: StaticClaim = {
+      clusterId: options.clusterId,
+      roles,
+      pool: options.pool,
+      index: getNextNodeIndex(clusterClaims, { roles, pool: options.pool }),
+      labels: options.labels,
+      claimedAt: new Date().toISOString(),
+    };
+    state.claims[host.name] = claim;
+    return [host, claim] as const;
+  });
+  return transformHostToNode(host, claim, { networkCIDR });
+}
+
+export async function deprovisionNode(ctx: StaticContext, id: string): Promise<void> {
+  const data = retrieveDataFromNodeId(id);
+  await updateState(ctx, (state) => {
+    const claim = state.claims[data.instanceId];
+    if (!isClaimed(claim) || claim.clusterId !== data.clusterId) {
+      throw new Error(`Static host ${data.instanceId} is not claimed by cluster ${data.clusterId}`);
+    }
+    claim.releasedAt = new Date().toISOString();
+  });
+}
+
+export async function listNodes(ctx: StaticContext, options: ListNodeOptions): Promise<Node[]> {
+  const [{ networkCIDR, hosts }, state] = await Promise.all([readHosts(ctx), readState(ctx)]);
+  return hosts.flatMap((host) => {
+    const claim = state.claims[host.name];
+    if (!isClaimed(claim) || claim.clusterId !== options.clusterId) {
+      return [];
+    }
+    return [transformHostToNode(host, claim, { networkCIDR })];
+  });
+}
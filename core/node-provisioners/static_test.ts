@@ -0,0 +1,114 @@
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import * as process from "node:process";
+import { ProvisionNodeOptions } from "./index.ts";
+import { StaticContext, deprovisionNode, listNodes, provisionNode } from "./static.ts";
+
+const yaml = String.raw;
+
+const hostsFile = yaml`
+networkCIDR: 10.0.0.0/24
+hosts:
+  - name: metal-0
+    publicIp: 203.0.113.10
+    privateIp: 10.0.0.10
+    roles: [control-plane, etcd]
+  - name: metal-1
+    publicIp: 203.0.113.11
+    privateIp: 10.0.0.11
+    ssh: { user: admin, port: 2222 }
+    roles: [worker]
+    labels: { rack: a1 }
+  - name: metal-2
+    publicIp: 203.0.113.12
+    privateIp: 10.0.0.12
+    roles: [worker]
+    region: us-east
+`;
+
+describe("Static node provisioner", () => {
+  process.env.NODE_ID_SECRET = "test-secret";
+
+  const clusterId = "cluster-a";
+  let dir: string;
+  let ctx: StaticContext;
+
+  beforeEach(async () => {
+    dir = await Deno.makeTempDir();
+    ctx = { hostsFile: `${dir}/hosts.yaml` };
+    await Deno.writeTextFile(ctx.hostsFile, hostsFile);
+  });
+
+  afterEach(async () => {
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  it("should hand out a free host allowed to take the requested roles", async () => {
+    const node = await provisionNode(ctx, { mode: "manual", region: "europe", clusterId, roles: ["worker"] });
+
+    assertEquals(node.publicIp, "203.0.113.11");
+    assertEquals(node.privateIp, "10.0.0.11");
+    assertEquals(node.networkCIDR, "10.0.0.0/24");
+    assertEquals(node.ssh, { user: "admin", port: 2222 });
+    assertEquals(node.labels, { rack: "a1" });
+    assertEquals(node.roles, ["worker"]);
+  });
+
+  it("should only hand out hosts of the requested region", async () => {
+    const options: ProvisionNodeOptions = { mode: "manual", region: "us-east", clusterId, roles: ["worker"] };
+    const anyRegion = await provisionNode(ctx, options);
+    const usEast = await provisionNode(ctx, options);
+
+    assertEquals([anyRegion.publicIp, anyRegion.region], ["203.0.113.11", undefined]);
+    assertEquals([usEast.publicIp, usEast.region], ["203.0.113.12", "us-east"]);
+    await assertRejects(
+      () => provisionNode(ctx, options),
+      Error,
+      "in us-east"
+    );
+  });
+
+  it("should persist claims across calls", async () => {
+    const node = await provisionNode(ctx, { mode: "manual", region: "europe", clusterId, roles: ["control-plane"] });
+
+    assertEquals(await listNodes({ ...ctx }, { clusterId }), [node]);
+    assertEquals(await listNodes(ctx, { clusterId: "cluster-b" }), []);
+    await assertRejects(
+      () => provisionNode(ctx, { mode: "manual", region: "europe", clusterId, roles: ["control-plane"] }),
+      Error,
+      "No free static host available"
+    );
+  });
+
+  it("should not hand out the same host to concurrent calls", async () => {
+    const results = await Promise.allSettled([
+      provisionNode(ctx, { mode: "manual", region: "europe", clusterId, roles: ["worker"] }),
+      provisionNode(ctx, { mode: "manual", region: "europe", clusterId, roles: ["worker"] }),
+    ]);
+
+    assertEquals(
+      results.map((result) => result.status).sort(),
+      ["fulfilled", "rejected"]
+    );
+  });
+
+  it("should persist the pool, index and labels of the claim", async () => {
+    const options: ProvisionNodeOptions = { mode: "manual", region: "us-east", clusterId, roles: ["worker"] };
+    const first = await provisionNode(ctx, { ...options, pool: "edge", labels: { tier: "edge" } });
+    const second = await provisionNode(ctx, { ...options, pool: "edge" });
+
+    assertEquals([first.pool, first.index, first.labels], ["edge", 0, { rack: "a1", tier: "edge" }]);
+    assertEquals([second.pool, second.index, second.labels], ["edge", 1, {}]);
+    assertEquals(await listNodes(ctx, { clusterId }), [first, second]);
+  });
+
+  it("should make released hosts available again", async () => {
+    const node = await provisionNode(ctx, { mode: "manual", region: "europe", clusterId, roles: ["worker"] });
+
+    await deprovisionNode(ctx, node.id);
+
+    assertEquals(await listNodes(ctx, { clusterId }), []);
+    const reclaimed = await provisionNode(ctx, { mode: "manual", region: "europe", clusterId, roles: ["worker"] });
+    assertEquals(reclaimed.id, node.id);
+  });
+});
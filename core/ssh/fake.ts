@@ -0,0 +1,123 @@
+import { CommandExecutor, SshTarget } from "./index.ts";
+
+export interface FakeExecutorCall {
+  host: string;
+  command: string;
+  /**
+   * Only set when the command targeted a specific private key
+   */
+  identityFile?: string;
+  /**
+   * Only set when the command was given an input on its stdin
+   */
+  input?: string;
+}
+
+type FakeResponse = string | ((call: FakeExecutorCall) => string);
+
+interface FakeRule {
+  pattern: string | RegExp;
+  response: FakeResponse | Error;
+}
+
+export interface FakeExecutor {
+  executor: CommandExecutor;
+  /**
+   * Every command run so far, in order
+   */
+  calls: FakeExecutorCall[];
+  /**
+   * Answer commands matching the pattern, later rules take precedence
+   * A string pattern matches any command containing it
+   */
+  on(pattern: string | RegExp, response: FakeResponse): FakeExecutor;
+  /**
+   * Make commands matching the pattern fail
+   */
+  fail(pattern: string | RegExp, message?: string): FakeExecutor;
+  /**
+   * Commands run on the given host, in order
+   */
+  commandsOn(host: string): string[];
+}
+
+export const FAKE_JOIN_COMMAND =
+  "kubeadm join 203.0.113.1:6443 --token abcdef.0123456789abcdef --discovery-token-ca-cert-hash sha256:0000000000000000000000000000000000000000000000000000000000000000";
+export const FAKE_CERTIFICATE_KEY = "1111111111111111111111111111111111111111111111111111111111111111";
+
+/**
+ * Facts of a node passing every preflight check, see preflightCommand
+ */
+export const fakePreflightOutput = (facts: Record<string, string> = {}) =>
+  Object.entries({
+    os: "ubuntu-24.04",
+    kernel: "6.8.0-45-generic",
+    swap: "0",
+    "module.overlay": "1",
+    "module.br_netfilter": "1",
+    "sysctl.net.bridge.bridge-nf-call-iptables": "1",
+    "sysctl.net.bridge.bridge-nf-call-ip6tables": "1",
+    "sysctl.net.ipv4.ip_forward": "1",
+    containerd: "1.7.12",
+    time: String(Math.floor(Date.now() / 1000)),
+    diskFreeMb: "40960",
+    listening: "22,53",
+    apiServer: "1",
+    ...facts,
+  })
+    .map(([key, value]) => `${key}=${value}`)
+    .join("\n");
+
+/**
+ * Canned outputs of the commands run by the cluster provisioner
+ */
+const defaultRules: FakeRule[] = [
+  { pattern: "kubeadm token create --print-join-command", response: FAKE_JOIN_COMMAND },
+  { pattern: "kubeadm init phase upload-certs", response: FAKE_CERTIFICATE_KEY },
+  { pattern: "date +%s", response: () => String(Math.floor(Date.now() / 1000)) },
+  // the preflight command also reads the date, its rule comes after
+  { pattern: "/etc/os-release", response: () => fakePreflightOutput() },
+  { pattern: "ip -o route get", response: ({ command }) => `${command.split(" ").at(-1)} dev eth1 uid 0` },
+];
+
+const matches = (pattern: string | RegExp, command: string) =>
+  typeof pattern === "string" ? command.includes(pattern) : pattern.test(command);
+
+/**
+ * Scriptable command executor recording every command instead of running it
+ * Unknown commands succeed with an empty output
+ */
+export function createFakeExecutor(): FakeExecutor {
+  const rules: FakeRule[] = [...defaultRules];
+  const calls: FakeExecutorCall[] = [];
+  const fake: FakeExecutor = {
+    calls,
+    executor: (node: SshTarget, command: string, input?: string) => {
+      const call: FakeExecutorCall = {
+        host: node.publicIp,
+        command,
+        ...(node.identityFile ? { identityFile: node.identityFile } : {}),
+        ...(input !== undefined ? { input } : {}),
+      };
+      calls.push(call);
+      const rule = rules.findLast((rule) => matches(rule.pattern, command));
+      if (rule?.response instanceof Error) {
+        return Promise.reject(rule.response);
+      }
+      const response = typeof rule?.response === "function" ? rule.response(call) : rule?.response ?? "";
+      return Promise.resolve(response);
+    },
+    on(pattern, response) {
+      rules.push({ pattern, response });
+      return fake;
+    },
+    fail(pattern, message = "Command failed") {
+      rules.push({ pattern, response: new Error(message) });
+      return fake;
+    },
+    commandsOn(host) {
+      return calls.filter((call) => call.host === host).map((call) => call.command);
+    },
+  };
+  return fake;
+}
@@ -0,0 +1,47 @@
+import { exec } from "../../api/utils.ts";
+import { Node } from "../node-provisioners/index.ts";
+
+export type SshTarget = Pick<Node, "publicIp" | "ssh"> & {
+  /**
+   * Private key to log in with, overrides the identity of the executor
+   */
+  identityFile?: string;
+};
+
+/**
+ * Run a shell command on a node and return its trimmed output
+ * The input is written to the stdin of the command, secrets are passed this way to stay out of the command line
+ * Implementations must reject when the command fails
+ */
+export type CommandExecutor = (node: SshTarget, command: string, input?: string) => Promise<string>;
+
+/**
+ * Quote a value as a single shell word
+ */
+export const quote = (command: string) => `'${command.replaceAll("'", `'\\''`)}'`;
+
+/**
+ * ssh command line running the command on the node
+ * With an identity file only that key is offered, never the keys of the agent or the default identities
+ */
+export function sshCommandLine(node: SshTarget, command: string): string {
+  const { user, port } = node.ssh ?? { user: "root", port: 22 };
+  const identity = node.identityFile ? `-i ${quote(node.identityFile)} -o IdentitiesOnly=yes ` : "";
+  return `ssh -o StrictHostKeyChecking=no ${identity}-p ${port} ${user}@${node.publicIp} ${quote(command)}`;
+}
+
+/**
+ * Executor running commands through the ssh binary
+ * @param options.identityFile private key to log in with, defaults to the keys picked by ssh
+ */
+export function createSshExecutor(options: { identityFile?: string } = {}): CommandExecutor {
+  return async (node, command, input) => {
+    const identityFile = node.identityFile ?? options.identityFile;
+    return await exec(sshCommandLine({ ...node, identityFile }, command), { input });
+  };
+}
+
+/**
+ * Default executor, runs commands through the ssh binary
+ */
+export const sshExecutor: CommandExecutor = createSshExecutor();
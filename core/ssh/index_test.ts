@@ -0,0 +1,22 @@
+import { assertEquals } from "jsr:@std/assert";
+import { describe, it } from "jsr:@std/testing/bdd";
+import { sshCommandLine } from "./index.ts";
+
+describe("ssh command line", () => {
+  const node = { publicIp: "203.0.113.1", ssh: { user: "admin", port: 2222 } };
+
+  it("should only offer the identity file when one is given", () => {
+    assertEquals(
+      sshCommandLine({ ...node, identityFile: ".ssh/cluster-abc.next" }, "true"),
+      "ssh -o StrictHostKeyChecking=no -i '.ssh/cluster-abc.next' -o IdentitiesOnly=yes " +
+        "-p 2222 admin@203.0.113.1 'true'"
+    );
+  });
+
+  it("should let ssh pick the keys without an identity file", () => {
+    assertEquals(
+      sshCommandLine({ publicIp: "203.0.113.1" }, "echo 'ok'"),
+      `ssh -o StrictHostKeyChecking=no -p 22 root@203.0.113.1 'echo '\\''ok'\\'''`
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { hash } from "node:crypto";
+import { decodeBase64 } from "jsr:@std/encoding/base64";
+import { exec } from "../../api/utils.ts";
+import { quote } from "./index.ts";
+
+/**
+ * Directory of the per-cluster SSH keys, relative to the working directory like private.key
+ */
+export const DEFAULT_SSH_KEY_DIR = ".ssh";
+
+export interface SshKeyPair {
+  privateKeyPath: string;
+  /**
+   * OpenSSH public key, e.g. `ssh-ed25519 AAAA... cluster-<clusterId>`
+   */
+  publicKey: string;
+}
+
+export function getClusterKeyPath(clusterId: string, dir = DEFAULT_SSH_KEY_DIR): string {
+  return path.join(dir, `cluster-${clusterId}`);
+}
+
+/**
+ * SHA256 fingerprint of a public key, as printed by `ssh-keygen -l`
+ */
+export function getSshKeyFingerprint(publicKey: string): string {
+  const [, blob] = publicKey.trim().split(/\s+/);
+  if (!blob) {
+    throw new Error("Invalid SSH public key, expected <type> <base64 key> [comment]");
+  }
+  return `SHA256:${hash("sha256", decodeBase64(blob), "base64").replace(/=+$/, "")}`;
+}
+
+/**
+ * Generate an ed25519 keypair, the private key is only readable by the current user
+ * Existing files at the path are overwritten
+ */
+export async function generateSshKeyPair(privateKeyPath: string, comment: string): Promise<SshKeyPair> {
+  await fs.mkdir(path.dirname(privateKeyPath), { recursive: true, mode: 0o700 });
+  await fs.rm(privateKeyPath, { force: true });
+  await fs.rm(`${privateKeyPath}.pub`, { force: true });
+  await exec(`ssh-keygen -q -t ed25519 -N '' -C ${quote(comment)} -f ${quote(privateKeyPath)}`);
+  // ssh-keygen already restricts the private key, do not rely on the umask of the caller
+  await fs.chmod(privateKeyPath, 0o600);
+  return { privateKeyPath, publicKey: (await fs.readFile(`${privateKeyPath}.pub`, "utf8")).trim() };
+}
+
+/**
+ * @returns undefined when no keypair has been generated at the path
+ */
+export async function loadSshKeyPair(privateKeyPath: string): Promise<SshKeyPair | undefined> {
+  try {
+    const publicKey = await fs.readFile(`${privateKeyPath}.pub`, "utf8");
+    await fs.access(privateKeyPath);
+    return { privateKeyPath, publicKey: publicKey.trim() };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Keypair of the cluster, generated on first use
+ */
+export async function ensureClusterSshKey(clusterId: string, dir = DEFAULT_SSH_KEY_DIR): Promise<SshKeyPair> {
+  const privateKeyPath = getClusterKeyPath(clusterId, dir);
+  return (await loadSshKeyPair(privateKeyPath)) ?? (await generateSshKeyPair(privateKeyPath, `cluster-${clusterId}`));
+}
+
+/**
+ * Replace the keypair at `privateKeyPath` with the one at `next.privateKeyPath`
+ */
+export async function promoteSshKeyPair(next: SshKeyPair, privateKeyPath: string): Promise<SshKeyPair> {
+  await fs.rename(`${next.privateKeyPath}.pub`, `${privateKeyPath}.pub`);
+  await fs.rename(next.privateKeyPath, privateKeyPath);
+  return { privateKeyPath, publicKey: next.publicKey };
+}
+
+export async function removeSshKeyPair(privateKeyPath: string): Promise<void> {
+  await Promise.all([fs.rm(privateKeyPath, { force: true }), fs.rm(`${privateKeyPath}.pub`, { force: true })]);
+}
@@ -0,0 +1,38 @@
+import { assertEquals, assertMatch, assertNotEquals } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { exec } from "../../api/utils.ts";
+import { ensureClusterSshKey, getClusterKeyPath, getSshKeyFingerprint } from "./keys.ts";
+
+describe("Cluster SSH keys", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await Deno.makeTempDir();
+  });
+
+  afterEach(async () => {
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  it("should generate an ed25519 keypair only readable by the current user", async () => {
+    const sshKey = await ensureClusterSshKey("abc", dir);
+
+    assertEquals(sshKey.privateKeyPath, getClusterKeyPath("abc", dir));
+    assertMatch(sshKey.publicKey, /^ssh-ed25519 \S+ cluster-abc$/);
+    assertEquals((await Deno.stat(sshKey.privateKeyPath)).mode! & 0o777, 0o600);
+  });
+
+  it("should reuse the keypair of the cluster", async () => {
+    const sshKey = await ensureClusterSshKey("abc", dir);
+
+    assertEquals(await ensureClusterSshKey("abc", dir), sshKey);
+    assertNotEquals((await ensureClusterSshKey("def", dir)).publicKey, sshKey.publicKey);
+  });
+
+  it("should compute the fingerprint printed by ssh-keygen", async () => {
+    const sshKey = await ensureClusterSshKey("abc", dir);
+
+    const [, fingerprint] = (await exec(`ssh-keygen -l -f ${sshKey.privateKeyPath}.pub`)).split(" ");
+    assertEquals(getSshKeyFingerprint(sshKey.publicKey), fingerprint);
+  });
+});
@@ -0,0 +1,143 @@
+import { Node } from "../node-provisioners/index.ts";
+import { DEFAULT_STATE_FILE, createJsonStateStore } from "./json.ts";
+import { createMemoryStateStore } from "./memory.ts";
+
+export { DEFAULT_STATE_FILE, createJsonStateStore, createMemoryStateStore };
+
+export interface Cluster {
+  id: string;
+  name: string;
+  domainName: string;
+  k8sVersion: string;
+  cni: "calico" | "flannel";
+  podCidr: string;
+  serviceCidr: string;
+  controlPlaneEndpoint: string;
+  /**
+   * Virtual IP of the API server announced by kube-vip, unset when the endpoint is a DNS name
+   */
+  apiServerVip?: string;
+  /**
+   * Nodes that joined the cluster, as returned by their provisioner
+   */
+  nodes: Node[];
+  /**
+   * Admin kubeconfig of the cluster, grants full access
+   */
+  kubeconfig?: string;
+  /**
+   * Last phase of the CA rotation in progress, unset when no rotation is in progress
+   */
+  caRotation?: "trust" | "reissue";
+  /**
+   * Manifest URL of each addon applied to the cluster, by addon name
+   */
+  addons?: Record<string, string>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ClusterEventType =
+  | "cluster-created"
+  | "node-added"
+  | "node-removed"
+  | "addon-applied"
+  | "addon-deleted"
+  | "cluster-upgraded"
+  | "certificates-renewed"
+  | "ca-rotated"
+  | "cluster-deleted";
+
+/**
+ * Entry of the history of a cluster, kept after the cluster is deleted
+ */
+export interface ClusterEvent {
+  clusterId: string;
+  type: ClusterEventType;
+  /**
+   * Node the event is about, for node events
+   */
+  nodeId?: string;
+  /**
+   * Addon the event is about, for addon events
+   */
+  addon?: string;
+  /**
+   * Version the cluster was upgraded to, for upgrade events
+   */
+  k8sVersion?: string;
+  /**
+   * Phase of the CA rotation that completed, for CA rotation events
+   */
+  caRotationPhase?: "trust" | "reissue" | "finalize";
+  at: Date;
+}
+
+export type OperationType = "init-cluster" | "add-node" | "upgrade-cluster";
+
+export type OperationStatus = "running" | "completed" | "failed";
+
+export interface OperationStep {
+  name: string;
+  status: OperationStatus;
+  /**
+   * Values the step ran with, for troubleshooting
+   */
+  input?: unknown;
+  /**
+   * Value returned by the step, handed back instead of running the step again when the operation resumes
+   */
+  output?: unknown;
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Journal of a long-running operation, recorded step by step so that an interrupted operation can resume
+ */
+export interface Operation {
+  id: string;
+  type: OperationType;
+  clusterId: string;
+  /**
+   * Options the operation was started with
+   */
+  input: Record<string, unknown>;
+  /**
+   * A running operation whose process died stays running, it can be resumed like a failed one
+   */
+  status: OperationStatus;
+  steps: OperationStep[];
+  error?: string;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Persists clusters, their nodes and their history
+ * Stores are the source of truth for the cluster settings, the nodes remain owned by their provisioner
+ */
+export interface StateStore {
+  getCluster(id: string): Promise<Cluster | undefined>;
+  listClusters(): Promise<Cluster[]>;
+  /**
+   * Create or replace the cluster record
+   */
+  saveCluster(cluster: Cluster): Promise<void>;
+  deleteCluster(id: string): Promise<void>;
+  addEvent(event: ClusterEvent): Promise<void>;
+  /**
+   * Events of the cluster, oldest first
+   */
+  listEvents(clusterId: string): Promise<ClusterEvent[]>;
+  getOperation(id: string): Promise<Operation | undefined>;
+  /**
+   * Create or replace the operation journal
+   */
+  saveOperation(operation: Operation): Promise<void>;
+  /**
+   * Operations of the cluster, or of every cluster, oldest first
+   */
+  listOperations(clusterId?: string): Promise<Operation[]>;
+}
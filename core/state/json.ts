@@ -0,0 +1,108 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Cluster, ClusterEvent, Operation, StateStore } from "./index.ts";
+
+/**
+ * State file of the cluster provisioner, relative to the working directory like private.key
+ * It holds the admin kubeconfig of every cluster, it is only readable by the current user
+ */
+export const DEFAULT_STATE_FILE = "clusters.state.json";
+
+interface JsonState {
+  version: 1;
+  clusters: Record<string, Cluster>;
+  events: ClusterEvent[];
+  operations: Record<string, Operation>;
+}
+
+const EMPTY_STATE: JsonState = { version: 1, clusters: {}, events: [], operations: {} };
+
+/**
+ * Dates are written as ISO strings, only the date fields of the records are read back as dates
+ * Values recorded by the operations, like step outputs, are read back as they were written
+ */
+function reviveDates(state: JsonState): JsonState {
+  for (const cluster of Object.values(state.clusters)) {
+    cluster.createdAt = new Date(cluster.createdAt);
+    cluster.updatedAt = new Date(cluster.updatedAt);
+  }
+  for (const event of state.events) {
+    event.at = new Date(event.at);
+  }
+  for (const operation of Object.values(state.operations)) {
+    operation.startedAt = new Date(operation.startedAt);
+    operation.updatedAt = new Date(operation.updatedAt);
+    for (const step of operation.steps) {
+      step.startedAt = new Date(step.startedAt);
+      if (step.completedAt) {
+        step.completedAt = new Date(step.completedAt);
+      }
+    }
+  }
+  return state;
+}
+
+async function readState(stateFile: string): Promise<JsonState> {
+  try {
+    const content = await fs.readFile(stateFile, "utf8");
+    // keys added since the file was written start empty
+    return reviveDates({ ...structuredClone(EMPTY_STATE), ...JSON.parse(content) });
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return structuredClone(EMPTY_STATE);
+    }
+    throw new Error(`Failed to read the state file ${stateFile}: ${error}`, { cause: error });
+  }
+}
+
+async function writeState(stateFile: string, state: JsonState): Promise<void> {
+  await fs.mkdir(path.dirname(stateFile), { recursive: true });
+  // Write then rename so that a crash never leaves a truncated state file
+  await fs.writeFile(`${stateFile}.tmp`, JSON.stringify(state, null, 2), { mode: 0o600 });
+  await fs.rename(`${stateFile}.tmp`, stateFile);
+}
+
+/**
+ * Store keeping the whole state in a single JSON file
+ * Updates are serialized within the process, the file must not be shared between concurrent processes
+ */
+export function createJsonStateStore(stateFile = DEFAULT_STATE_FILE): StateStore {
+  let lock: Promise<unknown> = Promise.resolve();
+  const update = (change: (state: JsonState) => void): Promise<void> => {
+    const result = lock.then(async () => {
+      const state = await readState(stateFile);
+      change(state);
+      await writeState(stateFile, state);
+    });
+    lock = result.catch(() => {});
+    return result;
+  };
+
+  return {
+    getCluster: async (id) => (await readState(stateFile)).clusters[id],
+    listClusters: async () => Object.values((await readState(stateFile)).clusters),
+    saveCluster: (cluster) =>
+      update((state) => {
+        state.clusters[cluster.id] = cluster;
+      }),
+    deleteCluster: (id) =>
+      update((state) => {
+        delete state.clusters[id];
+      }),
+    addEvent: (event) =>
+      update((state) => {
+        state.events.push(event);
+      }),
+    listEvents: async (clusterId) =>
+      (await readState(stateFile)).events.filter((event) => event.clusterId === clusterId),
+    getOperation: async (id) => (await readState(stateFile)).operations[id],
+    saveOperation: (operation) =>
+      update((state) => {
+        state.operations[operation.id] = operation;
+      }),
+    listOperations: async (clusterId) =>
+      Object.values((await readState(stateFile)).operations).filter(
+        (operation) => !clusterId || operation.clusterId === clusterId
+      ),
+  };
+}
@@ -0,0 +1,91 @@
+import { assertEquals } from "jsr:@std/assert";
+import { afterEach, beforeEach, describe, it } from "jsr:@std/testing/bdd";
+import { Cluster, createJsonStateStore } from "./index.ts";
+
+const cluster = (id: string): Cluster => ({
+  id,
+  name: `${id}.example.com`,
+  domainName: `${id}.example.com`,
+  k8sVersion: "1.31.4",
+  cni: "calico",
+  podCidr: "10.244.0.0/16",
+  serviceCidr: "10.96.0.0/12",
+  controlPlaneEndpoint: "203.0.113.1:6443",
+  nodes: [],
+  createdAt: new Date("2024-01-01T00:00:00Z"),
+  updatedAt: new Date("2024-01-02T00:00:00Z"),
+});
+
+describe("JSON state store", () => {
+  let dir: string;
+  let stateFile: string;
+
+  beforeEach(async () => {
+    dir = await Deno.makeTempDir();
+    stateFile = `${dir}/clusters.state.json`;
+  });
+
+  afterEach(async () => {
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  it("should start empty", async () => {
+    const store = createJsonStateStore(stateFile);
+
+    assertEquals(await store.listClusters(), []);
+    assertEquals(await store.getCluster("abc"), undefined);
+    assertEquals(await store.listEvents("abc"), []);
+  });
+
+  it("should read back the clusters and their history with their dates", async () => {
+    await createJsonStateStore(stateFile).saveCluster(cluster("abc"));
+    await createJsonStateStore(stateFile).addEvent({ clusterId: "abc", type: "cluster-created", at: new Date(0) });
+
+    const store = createJsonStateStore(stateFile);
+    assertEquals(await store.getCluster("abc"), cluster("abc"));
+    assertEquals(await store.listEvents("abc"), [{ clusterId: "abc", type: "cluster-created", at: new Date(0) }]);
+    // the state file holds kubeconfigs
+    assertEquals((await Deno.stat(stateFile)).mode! & 0o777, 0o600);
+  });
+
+  it("should only read back the date fields of the records as dates", async () => {
+    const output = { at: "2024-01-01T00:00:00Z", startedAt: "2024-01-01T00:00:00Z" };
+    await createJsonStateStore(stateFile).saveOperation({
+      id: "op",
+      type: "init-cluster",
+      clusterId: "abc",
+      input: { updatedAt: "2024-01-01T00:00:00Z" },
+      status: "completed",
+      steps: [
+        { name: "init", status: "completed", output, startedAt: new Date(0), completedAt: new Date(1) },
+        { name: "join", status: "running", output: "2024-01-01T00:00:00Z", startedAt: new Date(2) },
+      ],
+      startedAt: new Date(0),
+      updatedAt: new Date(3),
+    });
+
+    const operation = await createJsonStateStore(stateFile).getOperation("op");
+    assertEquals(operation!.input, { updatedAt: "2024-01-01T00:00:00Z" });
+    assertEquals(operation!.steps, [
+      { name: "init", status: "completed", output, startedAt: new Date(0), completedAt: new Date(1) },
+      { name: "join", status: "running", output: "2024-01-01T00:00:00Z", startedAt: new Date(2) },
+    ]);
+    assertEquals([operation!.startedAt, operation!.updatedAt], [new Date(0), new Date(3)]);
+  });
+
+  it("should not lose concurrent updates", async () => {
+    const store = createJsonStateStore(stateFile);
+
+    await Promise.all([
+      store.saveCluster(cluster("abc")),
+      store.saveCluster(cluster("def")),
+      store.addEvent({ clusterId: "abc", type: "cluster-created", at: new Date(0) }),
+      store.addEvent({ clusterId: "def", type: "cluster-created", at: new Date(0) }),
+    ]);
+    await store.deleteCluster("abc");
+
+    assertEquals((await store.listClusters()).map((cluster) => cluster.id), ["def"]);
+    // the history outlives the cluster
+    assertEquals((await store.listEvents("abc")).length, 1);
+  });
+});
@@ -0,0 +1,29 @@
+import { Cluster, ClusterEvent, Operation, StateStore } from "./index.ts";
+
+/**
+ * In-memory store, the state is lost with the process
+ * Used to exercise the cluster provisioner without touching the disk
+ */
+export function createMemoryStateStore(): StateStore {
+  const clusters = new Map<string, Cluster>();
+  const events: ClusterEvent[] = [];
+  const operations = new Map<string, Operation>();
+  // copies keep callers from mutating the stored records, as with a real store
+  return {
+    getCluster: (id) => Promise.resolve(clusters.has(id) ? structuredClone(clusters.get(id)) : undefined),
+    listClusters: () => Promise.resolve(structuredClone([...clusters.values()])),
+    saveCluster: (cluster) => Promise.resolve(void clusters.set(cluster.id, structuredClone(cluster))),
+    deleteCluster: (id) => Promise.resolve(void clusters.delete(id)),
+    addEvent: (event) => Promise.resolve(void events.push(structuredClone(event))),
+    listEvents: (clusterId) =>
+      Promise.resolve(structuredClone(events.filter((event) => event.clusterId === clusterId))),
+    getOperation: (id) => Promise.resolve(operations.has(id) ? structuredClone(operations.get(id)) : undefined),
+    saveOperation: (operation) => Promise.resolve(void operations.set(operation.id, structuredClone(operation))),
+    listOperations: (clusterId) =>
+      Promise.resolve(
+        structuredClone(
+          [...operations.values()].filter((operation) => !clusterId || operation.clusterId === clusterId)
+        )
+      ),
+  };
+}
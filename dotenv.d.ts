@@ -3,6 +3,11 @@ declare global {
   namespace NodeJS {
     interface ProcessEnv {
 			DOMAIN_NAME: string;
+			CONTABO_CLIENT_ID?: string;
+			CONTABO_CLIENT_SECRET?: string;
+			CONTABO_API_USER?: string;
+			CONTABO_API_PASSWORD?: string;
+			CONTABO_TOKEN_URL?: string;
     }
   }
 }
@@ -1,14 +1,35 @@
 import * as process from "node:process";
+import { NodeMetadata, decodeNodeTags } from "./core/node-provisioners/_common.ts";
 
 const { default: allInstances } = await import("./.cntb/instances.json", { with: { type: "json" } });
 const { default: allPrivateNetworks } = await import("./.cntb/private-networks.json", { with: { type: "json" } });
+// Written by generateNodeInfo, missing when the node information was generated before nodes were tagged
+const allTagAssignments: { tagName: string; resourceId: string }[] = await import("./.cntb/tag-assignments.json", {
+  with: { type: "json" },
+})
+  .then((module) => module.default)
+  .catch(() => []);
 
 export const domainName = process.env.DOMAIN_NAME;
 if (!domainName) {
   throw new Error("DOMAIN_NAME environment variable is required");
 }
 
-export const instances = allInstances.filter((instance) => instance.displayName.startsWith(`${domainName}_`));
+/**
+ * Node metadata read from the instance tags, the cluster id of nodes tagged by the API is the domain name
+ */
+const getNodeMetadata = (instance: { instanceId: number }): NodeMetadata | undefined =>
+  decodeNodeTags(
+    allTagAssignments
+      .filter((assignment) => assignment.resourceId === String(instance.instanceId))
+      .map((assignment) => assignment.tagName)
+  );
+
+// Tags win over display names, display names are only read for untagged instances
+export const instances = allInstances.filter((instance) => {
+  const metadata = getNodeMetadata(instance);
+  return metadata ? metadata.clusterId === domainName : instance.displayName.startsWith(`${domainName}_`);
+});
 export const privateNetworks = allPrivateNetworks
 
 type ContaboInstance = (typeof instances)[number];
@@ -49,6 +70,7 @@ export type Node = {
 /**
  * Validate that each instances has the same private IPs in all private networks to facilitate node communication
  * Currently, some instance fail to be connected to the private network, so I accept no 
+ * reconcilePrivateNetworks (core/node-provisioners/contabo.ts) fixes the private networks of the cluster nodes
  */
 const getPrivateIp = (instance: ContaboInstance): string => {
   const privateIps = [
@@ -59,7 +81,9 @@ const getPrivateIp = (instance: ContaboInstance): string => {
     ),
   ];
   if (privateIps.length === 0) {
-    throw new Error(`Instance ${instance.displayName} has no private IPs`);
+    throw new Error(
+      `Instance ${instance.displayName} has no private IPs, reconcile the private networks of the cluster to fix it`
+    );
   }
   if (privateIps.length > 1) {
     throw new Error(
@@ -72,7 +96,7 @@ const getPrivateIp = (instance: ContaboInstance): string => {
 };
 
 /**
- * Extract node roles from the instance display name based on the naming convention.
+ * Extract node roles from the instance tags, or from the display name based on the naming convention.
  * The display name should follow the format:
  * - <domain-name>_control-plane-X[_etcd][_worker]
  * - <domain-name>_etcd-X
@@ -82,12 +106,16 @@ const getPrivateIp = (instance: ContaboInstance): string => {
  * @returns Array of node roles
  */
 const getNodeRoles = (instance: ContaboInstance): NodeRoles => {
+  const metadata = getNodeMetadata(instance);
+  if (metadata) {
+    return metadata.roles;
+  }
   const roles = [...new Set(NodeRoles.filter((role) => instance.displayName.includes(role)))];
   return roles;
 };
 
 /**
- * Extract the node index from the display name.
+ * Extract the node index from the instance tags, or from the display name.
  * For example, from "<domain-name>_control-plane-0" it extracts 0.
  * 
  * @param instance The Contabo instance
@@ -95,6 +123,10 @@ const getNodeRoles = (instance: ContaboInstance): NodeRoles => {
  * @returns The node index or undefined if not found
  */
 const getNodeIndex = (instance: ContaboInstance, role: string): number | undefined => {
+  const metadata = getNodeMetadata(instance);
+  if (metadata?.index !== undefined) {
+    return metadata.index;
+  }
   const regex = new RegExp(`${role}-(\\d+)`);
   const match = instance.displayName.match(regex);
   return match ? parseInt(match[1], 10) : undefined;
@@ -111,8 +143,8 @@ const transformToNode = (instance: ContaboInstance): Node => {
   const roles = getNodeRoles(instance);
   const primaryRole = roles[0]; // First role is considered primary
   
-  // Ensure the node name starts with the domain name prefix
-  if (!instance.displayName.startsWith(`${domainName}_`)) {
+  // Ensure the node name starts with the domain name prefix, tagged nodes can be renamed freely
+  if (!getNodeMetadata(instance) && !instance.displayName.startsWith(`${domainName}_`)) {
     throw new Error(`Node name ${instance.name} does not start with the domain name prefix ${domainName}_`);
   }
 
@@ -179,6 +211,7 @@ if (workers.length === 0) {
  * ⚠️ IMPORTANT: The first control plane node (<domain-name>_control-plane-0) is used as the API server by default.
  * Changing or removing this node without proper procedure can cause the entire cluster to fail.
  * See README.md for more details on the proper procedure for replacing the first control plane node.
+ * Clusters created with initCluster are not affected, their API server is reached through a VIP or DNS name.
  */
 // Use private IP for internal cluster communication (for kubeadm join operations)
 // Public IP is not accessible from inside the nodes